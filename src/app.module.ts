@@ -12,11 +12,22 @@ import { PaymentsModule } from './payments/payments.module';
 import { APP_GUARD } from '@nestjs/core';
 import { RolesGuard } from './auth/guards/roles.guards';
 import { AtGuard } from './auth/guards/access-token.guards';
-import { User } from './users/entities/user.entity';
-import { TypeOrmModule } from '@nestjs/typeorm';
+import { PoliciesGuard } from './auth/guards/policies.guards';
+import { PermissionsGuard } from './auth/guards/permissions.guards';
+import { PermissionsModule } from './permissions/permissions.module';
+import { TicketTypesModule } from './ticket-types/ticket-types.module';
+import { PromoCodesModule } from './promo-codes/promo-codes.module';
+import { EventSeriesModule } from './event-series/event-series.module';
+import { VenuesModule } from './venues/venues.module';
+import { ExportsModule } from './exports/exports.module';
+import { CacheModule } from '@nestjs/cache-manager';
 
 @Module({
-  imports: [UsersModule, AuthModule, EventsModule, RegistrationsModule,
+  imports: [
+    UsersModule,
+    AuthModule,
+    EventsModule,
+    RegistrationsModule,
     ConfigModule.forRoot({
       isGlobal: true,
       envFilePath: '.env',
@@ -27,17 +38,34 @@ import { TypeOrmModule } from '@nestjs/typeorm';
     FeedbackModule,
     PaymentsModule,
     RegistrationsModule,
-    TypeOrmModule.forFeature([User])
+    PermissionsModule,
+    TicketTypesModule,
+    PromoCodesModule,
+    EventSeriesModule,
+    VenuesModule,
+    ExportsModule,
+    CacheModule.register({ isGlobal: true }), // In-memory store, used for role lookups
   ],
   controllers: [AppController],
-  providers: [AppService,
+  // Global guards run in the order they are listed here: AtGuard authenticates and
+  // sets request.user, which RolesGuard, PermissionsGuard and PoliciesGuard depend on
+  providers: [
+    AppService,
+    {
+      provide: APP_GUARD,
+      useClass: AtGuard,
+    },
     {
       provide: APP_GUARD,
       useClass: RolesGuard,
     },
     {
       provide: APP_GUARD,
-      useClass: AtGuard,
+      useClass: PermissionsGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: PoliciesGuard,
     },
   ],
 })
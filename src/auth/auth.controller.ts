@@ -5,22 +5,32 @@ import {
   Param,
   UseGuards,
   Req,
+  Get,
+  Delete,
+  ParseUUIDPipe,
+  UnauthorizedException,
 } from '@nestjs/common';
 import { AuthService } from './auth.service';
 import { CreateAuthDto } from './dto/create-auth.dto';
 import { AtGuard } from './guards/access-token.guards';
 import { RtGuard } from './guards/refresh-token.guards';
 import { Public } from './decorators/public.decorator';
-import { Request } from 'express';
+import type { Request } from 'express';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { SessionContext } from './sessions.service';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import type {
+  RequestWithSession,
+  RequestWithUser,
+} from './interfaces/request-with-user.interface';
 
-export interface RequestWithUser extends Request {
-  user: {
-    sub: number;
-    email: string;
-    refreshToken: string;
-  };
-}
+// Device details stored alongside each session
+const sessionContext = (req: Request): SessionContext => ({
+  ipAddress: req.ip,
+  userAgent: req.get('user-agent'),
+});
 
 @ApiBearerAuth('access-token')
 @ApiTags('Auth') // This groups the endpoints under the 'Auth' tag in Swagger documentation
@@ -30,30 +40,80 @@ export class AuthController {
 
   @Public() // This endpoint is accessible without authentication
   @Post('signup')
-  create(@Body() createAuthDto: CreateAuthDto) {
-    return this.authService.SignUp(createAuthDto);
+  create(@Body() createAuthDto: CreateAuthDto, @Req() req: Request) {
+    return this.authService.SignUp(createAuthDto, sessionContext(req));
   }
 
   @Public()
   @Post('signin')
-  findOne(@Body() createAuthDto: CreateAuthDto) {
-    return this.authService.SignIn(createAuthDto);
+  findOne(@Body() createAuthDto: CreateAuthDto, @Req() req: Request) {
+    return this.authService.SignIn(createAuthDto, sessionContext(req));
   }
 
   @UseGuards(AtGuard) // This endpoint requires authentication and you use the access token guard
-  @Post('signout/:id')
-  signOut(@Param('id') id: number) {
-    return this.authService.signOut(id);
+  @Post('signout') // The user and session come from the access token
+  signOut(@Req() req: RequestWithSession) {
+    return this.authService.signOut(req.user.user_id, req.user.session_id);
   }
 
   @Public()
   @UseGuards(RtGuard)
-  @Post('refresh/:id')
-  refreshTokens(@Param('id') id: number, @Req() req: RequestWithUser) {
+  @Post('refresh') // The user and session come from the refresh token
+  refreshTokens(@Req() req: RequestWithUser) {
     const user = req.user;
     if (!user || !user.refreshToken) {
-      throw new Error('No user or refresh token found in request');
+      throw new UnauthorizedException(
+        'No user or refresh token found in request',
+      );
     }
-    return this.authService.refreshTokens(id, req.user.refreshToken);
+    return this.authService.refreshTokens(
+      user.sub,
+      user.session_id,
+      user.refreshToken,
+      sessionContext(req),
+    );
+  }
+
+  @Public()
+  @Post('forgot-password')
+  forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+    return this.authService.forgotPassword(forgotPasswordDto.email);
+  }
+
+  @Public()
+  @Post('reset-password')
+  resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+    return this.authService.resetPassword(resetPasswordDto);
+  }
+
+  @Public()
+  @Post('verify-email')
+  verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+    return this.authService.verifyEmail(verifyEmailDto.token);
+  }
+
+  @Post('verify-email/resend')
+  resendEmailVerification(@Req() req: RequestWithSession) {
+    return this.authService.resendEmailVerification(req.user.user_id);
+  }
+
+  // List the devices the current user is signed in on
+  @Get('sessions')
+  listSessions(@Req() req: RequestWithSession) {
+    return this.authService.listSessions(req.user.user_id, req.user.session_id);
+  }
+
+  // Sign out everywhere
+  @Delete('sessions')
+  revokeAllSessions(@Req() req: RequestWithSession) {
+    return this.authService.signOutEverywhere(req.user.user_id);
+  }
+
+  @Delete('sessions/:id')
+  revokeSession(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Req() req: RequestWithSession,
+  ) {
+    return this.authService.revokeSession(req.user.user_id, id);
   }
 }
@@ -9,18 +9,47 @@ import { JwtModule } from '@nestjs/jwt';
 import { AccessStrategy } from './strategies/access.stategy';
 import { RefreshStrategy } from './strategies/refresh.stategy';
 import { RolesGuard } from './guards/roles.guards';
+import { Session } from './entities/session.entity';
+import { SessionsService } from './sessions.service';
+import { UserToken } from './entities/user-token.entity';
+import { UserTokensService } from './user-tokens.service';
+import { MailModule } from 'src/mail/mail.module';
+import { OwnershipService } from './ownership.service';
+import { PoliciesGuard } from './guards/policies.guards';
+import { RoleCacheService } from './role-cache.service';
+import { PermissionsGuard } from './guards/permissions.guards';
+import { PermissionsModule } from 'src/permissions/permissions.module';
 
 @Module({
   imports: [
     DatabaseModule,
-    TypeOrmModule.forFeature([User]),
+    TypeOrmModule.forFeature([User, Session, UserToken]),
+    MailModule,
+    PermissionsModule,
     JwtModule.register({
       global: true,
     }), // Register JwtModule globally
     PassportModule, // Import PassportModule to use guards
   ],
-  providers: [AuthService, AccessStrategy, RefreshStrategy, RolesGuard],
+  providers: [
+    AuthService,
+    SessionsService,
+    UserTokensService,
+    AccessStrategy,
+    RefreshStrategy,
+    RolesGuard,
+    RoleCacheService,
+    PermissionsGuard,
+    OwnershipService,
+    PoliciesGuard,
+  ],
   controllers: [AuthController],
-  exports: [ RolesGuard], // Export RolesGuard for use in other modules
+  exports: [
+    RolesGuard,
+    RoleCacheService,
+    PermissionsGuard,
+    OwnershipService,
+    PoliciesGuard,
+  ], // Export the guards for use in other modules
 })
 export class AuthModule {}
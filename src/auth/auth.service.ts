@@ -1,29 +1,61 @@
 import {
+  BadRequestException,
   Injectable,
+  Logger,
   NotFoundException,
   UnauthorizedException,
 } from '@nestjs/common';
 import { CreateAuthDto } from './dto//create-auth.dto';
 import { InjectRepository } from '@nestjs/typeorm';
-import { User } from 'src/users/entities/user.entity';
+import { User, UserRole } from 'src/users/entities/user.entity';
 import { Repository } from 'typeorm';
 import { ConfigService } from '@nestjs/config';
 import { JwtService } from '@nestjs/jwt';
 import * as bcrypt from 'bcrypt';
+import { randomUUID } from 'crypto';
+import { SessionContext, SessionsService } from './sessions.service';
+import { UserTokensService } from './user-tokens.service';
+import { tokenPurpose } from './entities/user-token.entity';
+import { MailService } from 'src/mail/mail.service';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { PermissionsService } from 'src/permissions/permissions.service';
 
 @Injectable()
 export class AuthService {
+  private readonly logger = new Logger(AuthService.name);
+
   constructor(
     @InjectRepository(User)
     private userRepository: Repository<User>, // Inject the User repository
     private configService: ConfigService, // Inject the ConfigService to access environment variables
     private jwtService: JwtService, // Inject the JwtService to handle JWT operations
+    private sessionsService: SessionsService, // Stores one session per signed-in device
+    private userTokensService: UserTokensService, // Issues email verification and password reset tokens
+    private mailService: MailService,
+    private permissionsService: PermissionsService, // Resolves the permissions embedded in access tokens
   ) {}
 
-  private async getTokens(userId: number, email: string, role: string) {
+  private async getTokens(
+    userId: number,
+    email: string,
+    role: UserRole,
+    sessionId: string,
+  ) {
+    // Clients can read what the user may do from the access token; the guards
+    // still check the current grants
+    const permissions = await this.permissionsService.resolveForUser(
+      userId,
+      role,
+    );
     const [accessToken, refreshToken] = await Promise.all([
       this.jwtService.signAsync(
-        { sub: userId, email: email, role: role },
+        {
+          sub: userId,
+          email: email,
+          role: role,
+          sid: sessionId,
+          perms: permissions,
+        },
         {
           secret: this.configService.getOrThrow<string>(
             'JWT_ACCESS_TOKEN_SECRET',
@@ -34,7 +66,7 @@ export class AuthService {
         },
       ),
       this.jwtService.signAsync(
-        { sub: userId, email: email, role: role },
+        { sub: userId, email: email, role: role, sid: sessionId },
         {
           secret: this.configService.getOrThrow<string>(
             'JWT_REFRESH_TOKEN_SECRET',
@@ -48,41 +80,45 @@ export class AuthService {
     return { accessToken, refreshToken };
   }
 
-  private async hashData(data: string): Promise<string> {
-    const salt = await bcrypt.genSalt(10);
-    return bcrypt.hash(data, salt);
-  }
-
-  private async saveRefreshToken(userId: number, refreshToken: string) {
-    const hashedToken = await this.hashData(refreshToken);
-    await this.userRepository.update(userId, {
-      hashedRefreshToken: hashedToken,
-    });
-  }
-
-  private async generateTokens(userId: number, email: string, role: string) {
-    const accessToken = this.jwtService.sign(
-      { sub: userId, email: email, role: role },
-      {
-        secret: this.configService.getOrThrow<string>(
-          'JWT_ACCESS_TOKEN_SECRET',
-        ),
-        expiresIn: '1h',
-      },
+  // Signs a token pair for a new session; the session id is embedded in both tokens
+  private async createSessionTokens(
+    user: Pick<User, 'user_id' | 'email' | 'role'>,
+    familyId: string,
+  ) {
+    const sessionId = randomUUID();
+    const tokens = await this.getTokens(
+      user.user_id,
+      user.email,
+      user.role,
+      sessionId,
     );
-    const refreshToken = this.jwtService.sign(
-      { sub: userId, email: email, role: role },
-      {
-        secret: this.configService.getOrThrow<string>(
-          'JWT_REFRESH_TOKEN_SECRET',
-        ),
-        expiresIn: '7d',
-      },
+    const { exp } = this.jwtService.decode<{ exp: number }>(
+      tokens.refreshToken,
     );
+    return {
+      ...tokens,
+      session: {
+        sessionId,
+        userId: user.user_id,
+        familyId,
+        refreshToken: tokens.refreshToken,
+        expiresAt: new Date(exp * 1000),
+      },
+    };
+  }
+
+  // Starts a new token family, e.g. when signing in on another device
+  private async startSession(
+    user: Pick<User, 'user_id' | 'email' | 'role'>,
+    context: SessionContext,
+  ) {
+    const { accessToken, refreshToken, session } =
+      await this.createSessionTokens(user, randomUUID());
+    await this.sessionsService.create({ ...session, context });
     return { accessToken, refreshToken };
   }
 
-  async SignUp(createAuthDto: CreateAuthDto) {
+  async SignUp(createAuthDto: CreateAuthDto, context: SessionContext) {
     // Check if user already exists
     const existingUser = await this.userRepository.findOne({
       where: { email: createAuthDto.email },
@@ -95,33 +131,31 @@ export class AuthService {
     const hashedPassword = await bcrypt.hash(createAuthDto.password, 10);
 
     // create and save new user
+    const { email } = createAuthDto;
     const user = this.userRepository.create({
-      ...createAuthDto,
+      email,
       password: hashedPassword,
     });
-    // generate tokens
     const savedUser = await this.userRepository.save(user);
-    const { accessToken, refreshToken } = await this.generateTokens(
-      savedUser.user_id,
-      savedUser.email,
-      savedUser.role, // Assuming role is stored in the user entity
-    );
+    await this.sendEmailVerification(savedUser.user_id, savedUser.email);
 
-    // Save refresh token in the database
-    await this.saveRefreshToken(savedUser.user_id, refreshToken);
+    // generate tokens and store the session
+    const { accessToken, refreshToken } = await this.startSession(savedUser, {
+      ...context,
+      deviceLabel: createAuthDto.device_label,
+    });
 
     // Return user and tokens
-    // Fetch updated user (with hashedRefreshToken)
-    const updatedUser = await this.userRepository.findOne({
+    const createdUser = await this.userRepository.findOne({
       where: { user_id: savedUser.user_id },
     });
-    return { user: updatedUser, accessToken, refreshToken };
+    return { user: createdUser, accessToken, refreshToken };
   }
 
-  async SignIn(createAuthDto: CreateAuthDto) {
+  async SignIn(createAuthDto: CreateAuthDto, context: SessionContext) {
     const foundUser = await this.userRepository.findOne({
       where: { email: createAuthDto.email },
-      select: ['user_id', 'email', 'password','role'],
+      select: ['user_id', 'email', 'password', 'role'],
     });
     if (!foundUser) {
       throw new NotFoundException(
@@ -130,8 +164,6 @@ export class AuthService {
     }
 
     // Check password
-    // console.log('Password:', createAuthDto.password);
-    // console.log('Found password:', foundUser.password);
     const foundPassword = await bcrypt.compare(
       createAuthDto.password,
       foundUser.password, // Assuming password is stored in the user entity
@@ -140,59 +172,194 @@ export class AuthService {
       throw new UnauthorizedException('Invalid password');
     }
 
-    // Generate tokens
-    const { accessToken, refreshToken } = await this.getTokens(
-      foundUser.user_id,
-      foundUser.email,
-      foundUser.role, // Assuming role is stored in the user entity
-    );
-
-    // Save refresh token in the database
-    await this.saveRefreshToken(foundUser.user_id, refreshToken);
+    // Generate tokens and store a session for this device
+    const { accessToken, refreshToken } = await this.startSession(foundUser, {
+      ...context,
+      deviceLabel: createAuthDto.device_label,
+    });
 
     // Return user and tokens
     return { foundUser, accessToken, refreshToken };
   }
 
-  async signOut(userId: number) {
-    // set user refresh token to null
-    const res = await this.userRepository.update(userId, {
-      hashedRefreshToken: null,
-    });
+  // Signs out the device the session belongs to
+  async signOut(userId: number, sessionId: string) {
+    await this.sessionsService.revoke(userId, sessionId);
+    return { message: `User with id : ${userId} signed out successfully` };
+  }
+
+  // Signs out every device of the user
+  async signOutEverywhere(userId: number) {
+    const res = await this.sessionsService.revokeAllForUser(userId);
+    return {
+      message: `User with id : ${userId} signed out of ${res.affected ?? 0} session(s)`,
+    };
+  }
 
-    if (res.affected === 0) {
+  async refreshTokens(
+    userId: number,
+    sessionId: string,
+    refreshToken: string,
+    context: SessionContext,
+  ) {
+    const session = await this.sessionsService.findOne(sessionId);
+    if (!session || session.user_id !== userId) {
+      throw new UnauthorizedException('Session not found');
+    }
+
+    if (session.revoked_at) {
+      // An already rotated token is being replayed: treat the family as compromised
+      if (session.replaced_by) {
+        await this.sessionsService.revokeFamily(session.family_id);
+        throw new UnauthorizedException(
+          'Refresh token reuse detected, session revoked',
+        );
+      }
+      throw new UnauthorizedException('Session has been revoked');
+    }
+
+    if (!this.sessionsService.isTokenValid(session, refreshToken)) {
+      throw new UnauthorizedException('Invalid refresh token');
+    }
+
+    const foundUser = await this.userRepository.findOne({
+      where: { user_id: userId },
+      select: ['user_id', 'email', 'role'], // Select only necessary fields
+    });
+    if (!foundUser) {
       throw new NotFoundException(`User with ID ${userId} not found`);
     }
-    return { message: `User with id : ${userId} signed out successfully` };
+
+    const {
+      accessToken,
+      refreshToken: newRefreshToken,
+      session: nextSession,
+    } = await this.createSessionTokens(foundUser, session.family_id);
+
+    const rotated = await this.sessionsService.rotate(session, {
+      ...nextSession,
+      context: {
+        deviceLabel: session.device_label ?? undefined,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+      },
+    });
+    if (!rotated) {
+      // Another request rotated this token first, so it has been used twice
+      await this.sessionsService.revokeFamily(session.family_id);
+      throw new UnauthorizedException(
+        'Refresh token reuse detected, session revoked',
+      );
+    }
+
+    return { accessToken, refreshToken: newRefreshToken };
   }
 
-  async refreshTokens(userId: number, refreshToken: string) {
+  // Sends a fresh verification link; failures are logged so sign up still succeeds
+  private async sendEmailVerification(userId: number, email: string) {
+    const token = await this.userTokensService.issue(
+      userId,
+      tokenPurpose.EmailVerification,
+      Number(
+        this.configService.get<string>(
+          'EMAIL_VERIFICATION_TOKEN_TTL_MINUTES',
+          '1440',
+        ),
+      ),
+    );
+    try {
+      await this.mailService.sendEmailVerification(email, token);
+    } catch (error) {
+      this.logger.error(`Could not send verification email to ${email}`, error);
+    }
+  }
+
+  async resendEmailVerification(userId: number) {
     const foundUser = await this.userRepository.findOne({
       where: { user_id: userId },
-      select: ['user_id', 'email', 'hashedRefreshToken', 'role'], // Select only necessary fields
+      select: ['user_id', 'email', 'email_verified_at'],
     });
-
     if (!foundUser) {
-      throw new Error('User not found');
+      throw new NotFoundException(`User with ID ${userId} not found`);
     }
-    if (!foundUser.hashedRefreshToken) {
-      throw new Error('Refresh token not found');
+    if (foundUser.email_verified_at) {
+      throw new BadRequestException('Email is already verified');
     }
+    await this.sendEmailVerification(foundUser.user_id, foundUser.email);
+    return { message: `Verification email sent to ${foundUser.email}` };
+  }
 
-    // Verify the refresh token
-    const isRefreshTokenValid = await bcrypt.compare(
-      refreshToken,
-      foundUser.hashedRefreshToken, // Assuming hashedRefreshToken is stored in the user entity
+  async verifyEmail(token: string) {
+    const userId = await this.userTokensService.consume(
+      token,
+      tokenPurpose.EmailVerification,
     );
+    if (!userId) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+    await this.userRepository.update(userId, { email_verified_at: new Date() });
+    return { message: 'Email verified successfully' };
+  }
 
-    if (!isRefreshTokenValid) {
-      throw new Error('Invalid refresh token');
+  // Always answers the same way so the endpoint cannot be used to probe for accounts
+  async forgotPassword(email: string) {
+    const foundUser = await this.userRepository.findOne({
+      where: { email },
+      select: ['user_id', 'email'],
+    });
+    if (foundUser) {
+      const token = await this.userTokensService.issue(
+        foundUser.user_id,
+        tokenPurpose.PasswordReset,
+        Number(
+          this.configService.get<string>(
+            'PASSWORD_RESET_TOKEN_TTL_MINUTES',
+            '30',
+          ),
+        ),
+      );
+      // A failure must not show in the response, or it would reveal the account
+      try {
+        await this.mailService.sendPasswordReset(foundUser.email, token);
+      } catch (error) {
+        this.logger.error(
+          `Could not send password reset email to ${foundUser.email}`,
+          error,
+        );
+      }
     }
+    return {
+      message:
+        'If that email is registered, a password reset link has been sent',
+    };
+  }
 
-    const { accessToken, refreshToken: newRefreshToken } =
-      await this.generateTokens(foundUser.user_id, foundUser.email, foundUser.role);
-    await this.saveRefreshToken(foundUser.user_id, newRefreshToken);
+  async resetPassword(resetPasswordDto: ResetPasswordDto) {
+    const userId = await this.userTokensService.consume(
+      resetPasswordDto.token,
+      tokenPurpose.PasswordReset,
+    );
+    if (!userId) {
+      throw new BadRequestException('Invalid or expired password reset token');
+    }
 
-    return { accessToken, refreshToken: newRefreshToken };
+    const hashedPassword = await bcrypt.hash(resetPasswordDto.password, 10);
+    await this.userRepository.update(userId, { password: hashedPassword });
+
+    // Whoever knew the old password may still hold a refresh token
+    await this.sessionsService.revokeAllForUser(userId);
+    return { message: 'Password has been reset, please sign in again' };
+  }
+
+  async listSessions(userId: number, currentSessionId: string) {
+    const sessions = await this.sessionsService.findActiveForUser(userId);
+    return sessions.map((session) => ({
+      ...session,
+      current: session.session_id === currentSessionId,
+    }));
+  }
+
+  revokeSession(userId: number, sessionId: string) {
+    return this.sessionsService.revoke(userId, sessionId);
   }
 }
@@ -0,0 +1,34 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const POLICY_KEY = 'policy';
+
+// Resources whose owner can be resolved by OwnershipService
+export enum PolicyResource {
+  User = 'user',
+  Event = 'event',
+  Registration = 'registration',
+  Feedback = 'feedback',
+  Payment = 'payment',
+  PromoCode = 'promo code',
+  EventSeries = 'event series',
+  Venue = 'venue',
+  EventFeedback = 'event feedback', // Moderated by the organizer of the event
+}
+
+// 'param': the resource id is a route parameter (e.g. PATCH /events/:id)
+// 'body': the resource id is a body field (e.g. registration_id when paying)
+// 'create': the resource is being created and its owner field is in the body
+export type PolicySource = 'param' | 'body' | 'create';
+
+export interface Policy {
+  resource: PolicyResource;
+  source: PolicySource;
+  key: string; // Name of the route parameter or body field holding the id
+}
+
+// Only the owner of the resource (or an Admin) may call the route
+export const CheckPolicy = (
+  resource: PolicyResource,
+  source: PolicySource = 'param',
+  key = 'id',
+) => SetMetadata(POLICY_KEY, { resource, source, key } as Policy);
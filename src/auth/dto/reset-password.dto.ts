@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MinLength } from 'class-validator';
+
+export class ResetPasswordDto {
+  @ApiProperty({ description: 'Token from the password reset email' })
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+
+  @ApiProperty()
+  @MinLength(6)
+  password: string;
+}
@@ -0,0 +1,57 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+
+// One row per issued refresh token. Rotating a token revokes its row and
+// inserts a new one with the same family_id, so a whole sign-in can be
+// revoked at once when an already rotated token is presented again.
+@Entity('sessions')
+export class Session {
+  @PrimaryColumn({ type: 'uuid' })
+  session_id: string; // Generated before saving so it can be embedded in the tokens
+
+  @Column()
+  user_id: number; // Reference to users table
+
+  @Index()
+  @Column({ type: 'uuid' })
+  family_id: string;
+
+  @Column({ type: 'varchar', length: 64 })
+  hashed_refresh_token: string;
+
+  @Column({ type: 'varchar', length: 100, nullable: true })
+  device_label: string | null;
+
+  @Column({ type: 'varchar', length: 64, nullable: true })
+  ip_address: string | null;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  user_agent: string | null;
+
+  @Column({ type: 'timestamp' })
+  last_used_at: Date;
+
+  @Column({ type: 'timestamp' })
+  expires_at: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  revoked_at: Date | null;
+
+  @Column({ type: 'uuid', nullable: true })
+  replaced_by: string | null; // Set when the token was rotated rather than signed out
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ManyToOne(() => User, (user) => user.sessions, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+}
@@ -0,0 +1,46 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+
+export enum tokenPurpose {
+  EmailVerification = 'EmailVerification',
+  PasswordReset = 'PasswordReset',
+}
+
+// Single-use tokens sent by email; only a SHA-256 hash of the token is stored
+@Entity('user_tokens')
+export class UserToken {
+  @PrimaryGeneratedColumn()
+  token_id: number;
+
+  @Column()
+  user_id: number; // Reference to users table
+
+  @Column({
+    type: 'enum',
+    enum: tokenPurpose,
+  })
+  purpose: tokenPurpose;
+
+  @Column({ type: 'varchar', length: 64, unique: true })
+  token_hash: string;
+
+  @Column({ type: 'timestamp' })
+  expires_at: Date;
+
+  @Column({ type: 'timestamp', nullable: true })
+  used_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+}
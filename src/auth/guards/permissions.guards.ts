@@ -0,0 +1,48 @@
+import { Reflector } from '@nestjs/core';
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { UserRole } from 'src/users/entities/user.entity';
+import { PermissionsService } from 'src/permissions/permissions.service';
+import { PERMISSIONS_KEY } from '../decorators/require-permissions.decorator';
+import { RoleCacheService } from '../role-cache.service';
+import { RequestWithSession } from '../interfaces/request-with-user.interface';
+
+// Checks @RequirePermissions. Runs after AtGuard and RolesGuard (see AppModule).
+// The permissions in the access token are informational; the check uses the
+// current grants so a revoked permission stops working straight away.
+@Injectable()
+export class PermissionsGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private roleCacheService: RoleCacheService,
+    private permissionsService: PermissionsService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const required = this.reflector.getAllAndOverride<string[]>(
+      PERMISSIONS_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!required?.length) {
+      return true;
+    }
+
+    const { user } = context.switchToHttp().getRequest<RequestWithSession>();
+    if (!user) {
+      return false;
+    }
+
+    const role = await this.roleCacheService.getRole(user.user_id);
+    if (!role) {
+      return false;
+    }
+    if (role === UserRole.Admin) {
+      return true; // Admins hold every permission
+    }
+
+    const granted = await this.permissionsService.resolveForUser(
+      user.user_id,
+      role,
+    );
+    return required.every((permission) => granted.includes(permission));
+  }
+}
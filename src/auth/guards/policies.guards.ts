@@ -0,0 +1,88 @@
+import { Reflector } from '@nestjs/core';
+import {
+  BadRequestException,
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { UserRole } from 'src/users/entities/user.entity';
+import { Policy, POLICY_KEY } from '../decorators/check-policy.decorator';
+import { OWNER_FIELDS, OwnershipService } from '../ownership.service';
+import { RequestWithSession } from '../interfaces/request-with-user.interface';
+import { RoleCacheService } from '../role-cache.service';
+
+@Injectable()
+// Guard to check that the user owns the resource a route acts on (Admins bypass it)
+export class PoliciesGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private ownershipService: OwnershipService,
+    private roleCacheService: RoleCacheService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const policy = this.reflector.getAllAndOverride<Policy | undefined>(
+      POLICY_KEY,
+      [context.getHandler(), context.getClass()],
+    );
+    if (!policy) {
+      return true; // If no policy is defined, allow access
+    }
+
+    const request = context.switchToHttp().getRequest<RequestWithSession>();
+    const user = request.user;
+    if (!user) {
+      return false;
+    }
+    // The role in the token may be stale, so a demoted Admin loses the bypass
+    const role = await this.roleCacheService.getRole(user.user_id);
+    if (!role) {
+      return false;
+    }
+    if (role === UserRole.Admin) {
+      return true;
+    }
+
+    const ownerField = OWNER_FIELDS[policy.resource];
+    const body = (request.body ?? {}) as Record<string, unknown>;
+
+    if (policy.source !== 'create') {
+      const rawId =
+        policy.source === 'param'
+          ? request.params[policy.key]
+          : body[policy.key];
+      if (rawId === undefined) {
+        throw new BadRequestException(`${policy.key} is required`);
+      }
+      const id = Number(rawId);
+      const ownerId = await this.ownershipService.findOwnerId(
+        policy.resource,
+        id,
+      );
+      if (ownerId === null) {
+        throw new NotFoundException(
+          `${policy.resource} with ID ${id} not found`,
+        );
+      }
+      if (ownerId !== user.user_id) {
+        throw new ForbiddenException(`You do not own this ${policy.resource}`);
+      }
+    }
+
+    // Creating a resource, or moving it to another owner, must name yourself as owner
+    if (
+      body[ownerField] !== undefined &&
+      Number(body[ownerField]) !== user.user_id
+    ) {
+      throw new ForbiddenException(
+        `You can only set ${ownerField} to your own user id`,
+      );
+    }
+    if (policy.source === 'create' && body[ownerField] === undefined) {
+      throw new BadRequestException(`${ownerField} is required`);
+    }
+    return true;
+  }
+}
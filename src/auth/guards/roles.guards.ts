@@ -1,52 +1,51 @@
 import { Reflector } from '@nestjs/core';
 import { Injectable, ExecutionContext, CanActivate } from '@nestjs/common';
-import { InjectRepository } from '@nestjs/typeorm';
-import { User } from 'src/users/entities/user.entity';
-import { Repository } from 'typeorm';
-import { UserRole } from "src/users/entities/user.entity";
+import { UserRole } from 'src/users/entities/user.entity';
 import { ROLES_KEY } from '../decorators/role.decorator';
+import { RoleCacheService } from '../role-cache.service';
+import { hasRole } from '../role-hierarchy';
+import { RequestWithSession } from '../interfaces/request-with-user.interface';
 
 @Injectable()
-// Guard to check if the user has the required roles to access a route 
+// Guard to check if the user has the required roles to access a route.
+// Must run after AtGuard, which sets request.user (see the APP_GUARD order in AppModule)
 export class RolesGuard implements CanActivate {
   constructor(
     private reflector: Reflector, // This is the Reflector service used to access metadata
-    @InjectRepository(User) 
-    private userRepository: Repository<User>, 
+    private roleCacheService: RoleCacheService, // Cached role lookups instead of a query per request
   ) {}
 
-  async canActivate(
-    context: ExecutionContext,
-  ): Promise<boolean> {
-    const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(ROLES_KEY, [
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const requiredRoles = this.reflector.getAllAndOverride<UserRole[]>(
+      ROLES_KEY,
+      [
         context.getHandler(), // this gets the method being called
         context.getClass(), // this gets the class (controller) being called
-    ]);
-    
+      ],
+    );
+
     if (!requiredRoles) {
       return true; // If no roles are defined, allow access
     }
 
-    const request = context.switchToHttp().getRequest();
+    const request = context.switchToHttp().getRequest<RequestWithSession>();
     const user = request.user;
 
     if (!user) {
       return false; // If no user is found, deny access
     }
 
-    // fetch user from the db 
-    const verifiedUser = await this.userRepository.findOne({
-        where: { user_id: user.user_id },
-        select: ['user_id', 'email', 'role'], // Select only the necessary fields
-        });
+    // The role in the token may be stale, so use the current one
+    const role = await this.roleCacheService.getRole(user.user_id);
 
     // If the user is not found in the database, deny access
-    if (!verifiedUser) {
+    if (!role) {
       return false;
     }
+    // Handlers and services read request.user.role, so give them the current one too
+    user.role = role;
 
-    // Check if the user's role matches any of the required roles
-    // console.log('Verified user:', verifiedUser);
-    return requiredRoles.some((role) => verifiedUser.role === role); // Check if the user's role is in the list of required roles
+    // Higher roles include lower ones, so any required role at or below the user's role matches
+    return requiredRoles.some((required) => hasRole(role, required));
   }
 }
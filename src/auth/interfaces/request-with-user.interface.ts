@@ -0,0 +1,23 @@
+import type { Request } from 'express';
+import { UserRole } from 'src/users/entities/user.entity';
+
+// Request authenticated with a refresh token (see RefreshStrategy.validate)
+export interface RequestWithUser extends Request {
+  user: {
+    sub: number;
+    email: string;
+    session_id: string;
+    refreshToken: string;
+  };
+}
+
+// Request authenticated with an access token (see AccessStrategy.validate)
+export interface RequestWithSession extends Request {
+  user: {
+    user_id: number;
+    email: string;
+    role: UserRole;
+    session_id: string;
+    permissions: string[]; // As of when the token was signed
+  };
+}
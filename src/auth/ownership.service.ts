@@ -0,0 +1,94 @@
+import { Injectable } from '@nestjs/common';
+import { DataSource } from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Event } from 'src/events/entities/event.entity';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { Feedback } from 'src/feedback/entities/feedback.entity';
+import { Payment } from 'src/payments/entities/payment.entity';
+import { PromoCode } from 'src/promo-codes/entities/promo-code.entity';
+import { EventSeries } from 'src/event-series/entities/event-series.entity';
+import { Venue } from 'src/venues/entities/venue.entity';
+import { PolicyResource } from './decorators/check-policy.decorator';
+
+// Field of each resource that holds the owning user's id
+export const OWNER_FIELDS: Record<PolicyResource, string> = {
+  [PolicyResource.User]: 'user_id',
+  [PolicyResource.Event]: 'created_by',
+  [PolicyResource.Registration]: 'user_id',
+  [PolicyResource.Feedback]: 'user_id',
+  [PolicyResource.Payment]: 'user_id', // through the paid registration
+  [PolicyResource.PromoCode]: 'created_by',
+  [PolicyResource.EventSeries]: 'created_by',
+  [PolicyResource.Venue]: 'created_by',
+  [PolicyResource.EventFeedback]: 'created_by', // through the reviewed event
+};
+
+@Injectable()
+export class OwnershipService {
+  constructor(private dataSource: DataSource) {}
+
+  // Returns the id of the user owning the resource, or null if it does not exist
+  async findOwnerId(
+    resource: PolicyResource,
+    id: number,
+  ): Promise<number | null> {
+    switch (resource) {
+      case PolicyResource.User: {
+        const user = await this.dataSource
+          .getRepository(User)
+          .findOne({ select: ['user_id'], where: { user_id: id } });
+        return user?.user_id ?? null;
+      }
+      case PolicyResource.Event: {
+        const event = await this.dataSource
+          .getRepository(Event)
+          .findOne({ select: ['created_by'], where: { event_id: id } });
+        return event?.created_by ?? null;
+      }
+      case PolicyResource.Registration: {
+        const registration = await this.dataSource
+          .getRepository(Registration)
+          .findOne({ select: ['user_id'], where: { registration_id: id } });
+        return registration?.user_id ?? null;
+      }
+      case PolicyResource.Feedback: {
+        const feedback = await this.dataSource
+          .getRepository(Feedback)
+          .findOne({ select: ['user_id'], where: { feedback_id: id } });
+        return feedback?.user_id ?? null;
+      }
+      case PolicyResource.Payment: {
+        const payment = await this.dataSource.getRepository(Payment).findOne({
+          where: { payment_id: id },
+          relations: { registration: true },
+        });
+        return payment?.registration.user_id ?? null;
+      }
+      case PolicyResource.PromoCode: {
+        const promoCode = await this.dataSource
+          .getRepository(PromoCode)
+          .findOne({ select: ['created_by'], where: { promo_code_id: id } });
+        return promoCode?.created_by ?? null;
+      }
+      case PolicyResource.EventSeries: {
+        const series = await this.dataSource
+          .getRepository(EventSeries)
+          .findOne({ select: ['created_by'], where: { series_id: id } });
+        return series?.created_by ?? null;
+      }
+      case PolicyResource.Venue: {
+        const venue = await this.dataSource
+          .getRepository(Venue)
+          .findOne({ select: ['created_by'], where: { venue_id: id } });
+        return venue?.created_by ?? null;
+      }
+      case PolicyResource.EventFeedback: {
+        const feedback = await this.dataSource.getRepository(Feedback).findOne({
+          where: { feedback_id: id },
+          relations: { event: true },
+        });
+        return feedback?.event.created_by ?? null;
+      }
+    }
+  }
+}
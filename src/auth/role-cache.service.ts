@@ -0,0 +1,50 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import type { Cache } from 'cache-manager';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { Repository } from 'typeorm';
+import { User, UserRole } from 'src/users/entities/user.entity';
+
+// Caches each user's current role so RolesGuard does not query the database on
+// every request. UsersService invalidates the entry whenever a role changes.
+@Injectable()
+export class RoleCacheService {
+  constructor(
+    @Inject(CACHE_MANAGER)
+    private cacheManager: Cache,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    private configService: ConfigService,
+  ) {}
+
+  private key(userId: number) {
+    return `user-role:${userId}`;
+  }
+
+  // Returns the user's role, or null if the user no longer exists
+  async getRole(userId: number): Promise<UserRole | null> {
+    const cached = await this.cacheManager.get<UserRole>(this.key(userId));
+    if (cached) {
+      return cached;
+    }
+
+    const user = await this.userRepository.findOne({
+      where: { user_id: userId },
+      select: ['user_id', 'role'], // Select only the necessary fields
+    });
+    if (!user) {
+      return null;
+    }
+    await this.cacheManager.set(
+      this.key(userId),
+      user.role,
+      Number(this.configService.get<string>('ROLE_CACHE_TTL_MS', '60000')),
+    );
+    return user.role;
+  }
+
+  async invalidate(userId: number) {
+    await this.cacheManager.del(this.key(userId));
+  }
+}
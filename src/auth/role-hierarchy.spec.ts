@@ -0,0 +1,24 @@
+import { UserRole } from 'src/users/entities/user.entity';
+import { hasRole } from './role-hierarchy';
+
+describe('hasRole', () => {
+  const { Admin, Organizer, User, Guest } = UserRole;
+
+  it('admits a role to its own routes', () => {
+    for (const role of [Admin, Organizer, User, Guest]) {
+      expect(hasRole(role, role)).toBe(true);
+    }
+  });
+
+  it('admits higher roles to routes for lower ones', () => {
+    expect(hasRole(Admin, Organizer)).toBe(true);
+    expect(hasRole(Organizer, User)).toBe(true);
+    expect(hasRole(User, Guest)).toBe(true);
+  });
+
+  it('refuses lower roles', () => {
+    expect(hasRole(Organizer, Admin)).toBe(false);
+    expect(hasRole(User, Organizer)).toBe(false);
+    expect(hasRole(Guest, User)).toBe(false);
+  });
+});
@@ -0,0 +1,13 @@
+import { UserRole } from 'src/users/entities/user.entity';
+
+// Admin ⊇ Organizer ⊇ User ⊇ Guest: a higher rank includes every lower role,
+// so @Roles(UserRole.User) also admits Organizers and Admins
+const ROLE_RANK: Record<UserRole, number> = {
+  [UserRole.Guest]: 0,
+  [UserRole.User]: 1,
+  [UserRole.Organizer]: 2,
+  [UserRole.Admin]: 3,
+};
+
+export const hasRole = (actual: UserRole, required: UserRole): boolean =>
+  ROLE_RANK[actual] >= ROLE_RANK[required];
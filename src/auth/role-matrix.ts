@@ -0,0 +1,102 @@
+import { UserRole } from 'src/users/entities/user.entity';
+
+const { Admin, Organizer, User, Guest } = UserRole;
+
+// Who may call each route, in one place. Controllers apply these with
+// @Roles(...ROLE_MATRIX.<resource>.<action>); ownership of the individual
+// record is checked separately by @CheckPolicy. Each entry is the lowest role
+// allowed, higher roles are admitted through the hierarchy in role-hierarchy.ts.
+// Routes that also carry @RequirePermissions list the lowest role that can hold
+// the permission; an Admin grants it to roles or individual users.
+export const ROLE_MATRIX = {
+  users: {
+    findAll: [Admin],
+    findOne: [User],
+    findByEmail: [Organizer],
+    update: [User],
+    calendarFeed: [User], // Issue or revoke the token; the feed itself is public
+    remove: [Admin],
+  },
+  events: {
+    create: [Organizer],
+    findAll: [Guest], // Guests browse read-only
+    search: [Guest],
+    findOne: [Guest],
+    waitlist: [Organizer],
+    publish: [Organizer],
+    cancel: [Organizer],
+    checkIn: [Organizer],
+    attendance: [Organizer],
+    update: [Organizer],
+    remove: [Organizer],
+  },
+  eventSeries: {
+    create: [Organizer],
+    findOne: [Organizer],
+    update: [Organizer],
+    remove: [Organizer],
+  },
+  venues: {
+    create: [Organizer],
+    findAll: [Guest],
+    findOne: [Guest],
+    availability: [Organizer],
+    update: [Organizer], // Also adds, changes and removes rooms
+    remove: [Organizer],
+  },
+  ticketTypes: {
+    findAll: [Guest],
+    create: [Organizer],
+    update: [Organizer],
+    remove: [Organizer],
+  },
+  promoCodes: {
+    create: [Organizer],
+    findAll: [Organizer], // Admins see every code, organizers their own
+    findOne: [Organizer],
+    update: [Organizer],
+    remove: [Organizer],
+    report: [Organizer],
+  },
+  registrations: {
+    create: [User],
+    findAll: [User], // plus registrations:read
+    findOne: [User],
+    ticket: [User],
+    cancel: [User],
+    update: [Admin],
+    remove: [Admin],
+  },
+  payments: {
+    create: [User], // Users may only start a Pending payment
+    findAll: [User], // plus payments:read
+    findOne: [User],
+    update: [User], // plus payments:manage; status changes need it
+    remove: [User], // plus payments:manage
+  },
+  feedback: {
+    create: [User],
+    findAll: [Guest],
+    findOne: [Guest],
+    ratings: [Guest],
+    update: [User],
+    remove: [User],
+    moderate: [Organizer], // Queue, flag, hide and approve
+  },
+  stats: {
+    event: [Organizer], // Organizer of the event
+    organizer: [Organizer], // Their own events
+  },
+  exports: {
+    attendees: [Organizer], // Organizer of the event
+    payments: [Organizer],
+    feedback: [Organizer],
+  },
+  permissions: {
+    findAll: [Admin],
+    create: [Admin],
+    remove: [Admin],
+    manageRoles: [Admin],
+    manageGrants: [Admin],
+  },
+} satisfies Record<string, Record<string, UserRole[]>>;
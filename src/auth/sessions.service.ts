@@ -0,0 +1,129 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, timingSafeEqual } from 'crypto';
+import { DataSource, IsNull, MoreThan, Repository } from 'typeorm';
+import { Session } from './entities/session.entity';
+
+export interface SessionContext {
+  deviceLabel?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export interface NewSession {
+  sessionId: string;
+  userId: number;
+  familyId: string;
+  refreshToken: string;
+  expiresAt: Date;
+  context: SessionContext;
+}
+
+@Injectable()
+export class SessionsService {
+  constructor(
+    @InjectRepository(Session)
+    private sessionsRepository: Repository<Session>,
+    private dataSource: DataSource, // Used to rotate tokens atomically
+  ) {}
+
+  // Refresh tokens are JWTs whose first 72 bytes are mostly the shared header,
+  // which bcrypt silently truncates, so they are hashed with SHA-256 instead
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private build(data: NewSession): Session {
+    return this.sessionsRepository.create({
+      session_id: data.sessionId,
+      user_id: data.userId,
+      family_id: data.familyId,
+      hashed_refresh_token: this.hashToken(data.refreshToken),
+      device_label: data.context.deviceLabel ?? null,
+      ip_address: data.context.ipAddress ?? null,
+      user_agent: data.context.userAgent ?? null,
+      last_used_at: new Date(),
+      expires_at: data.expiresAt,
+    });
+  }
+
+  create(data: NewSession) {
+    return this.sessionsRepository.save(this.build(data));
+  }
+
+  findOne(sessionId: string) {
+    return this.sessionsRepository.findOneBy({ session_id: sessionId });
+  }
+
+  isTokenValid(session: Session, refreshToken: string): boolean {
+    const expected = Buffer.from(session.hashed_refresh_token, 'hex');
+    const actual = Buffer.from(this.hashToken(refreshToken), 'hex');
+    return (
+      expected.length === actual.length && timingSafeEqual(expected, actual)
+    );
+  }
+
+  // Retires `current` and stores its replacement in the same family.
+  // Returns false when `current` was already rotated by a concurrent request.
+  rotate(current: Session, next: NewSession): Promise<boolean> {
+    return this.dataSource.transaction(async (manager) => {
+      const result = await manager.update(
+        Session,
+        { session_id: current.session_id, revoked_at: IsNull() },
+        { revoked_at: new Date(), replaced_by: next.sessionId },
+      );
+      if (result.affected !== 1) {
+        return false;
+      }
+      await manager.save(this.build(next));
+      return true;
+    });
+  }
+
+  // Active sessions of a user, one per signed-in device
+  findActiveForUser(userId: number) {
+    return this.sessionsRepository.find({
+      select: [
+        'session_id',
+        'device_label',
+        'ip_address',
+        'user_agent',
+        'last_used_at',
+        'expires_at',
+        'created_at',
+      ],
+      where: {
+        user_id: userId,
+        revoked_at: IsNull(),
+        expires_at: MoreThan(new Date()),
+      },
+      order: { last_used_at: 'DESC' },
+    });
+  }
+
+  revokeFamily(familyId: string) {
+    return this.sessionsRepository.update(
+      { family_id: familyId, revoked_at: IsNull() },
+      { revoked_at: new Date() },
+    );
+  }
+
+  // Revokes the sign-in the given session belongs to
+  async revoke(userId: number, sessionId: string) {
+    const session = await this.sessionsRepository.findOneBy({
+      session_id: sessionId,
+      user_id: userId,
+    });
+    if (!session) {
+      throw new NotFoundException(`Session with ID ${sessionId} not found`);
+    }
+    await this.revokeFamily(session.family_id);
+  }
+
+  revokeAllForUser(userId: number) {
+    return this.sessionsRepository.update(
+      { user_id: userId, revoked_at: IsNull() },
+      { revoked_at: new Date() },
+    );
+  }
+}
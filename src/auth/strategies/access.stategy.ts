@@ -4,27 +4,31 @@ import { PassportStrategy } from '@nestjs/passport';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 
 type JWTPayload = {
-    sub:number;
-    email:string;
-    role:string;
-}
+  sub: number;
+  email: string;
+  role: string;
+  sid: string; // Session the token was issued for
+  perms?: string[]; // Permissions resolved when the token was signed
+};
 
 @Injectable()
 export class AccessStrategy extends PassportStrategy(Strategy, 'access') {
-    constructor(private configService: ConfigService) {
-        super({
-            jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
-            secretOrKey: configService.getOrThrow<string>('JWT_ACCESS_TOKEN_SECRET'),
-            passReqToCallback: false,// to pass the request object in validate method
-        });
-    }
+  constructor(private configService: ConfigService) {
+    super({
+      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      secretOrKey: configService.getOrThrow<string>('JWT_ACCESS_TOKEN_SECRET'),
+      passReqToCallback: false, // to pass the request object in validate method
+    });
+  }
 
-    // This method is called after the token is verified
-    async validate (payload: JWTPayload): Promise<any> {
-        return {
-            user_id: payload.sub,
-            email: payload.email,
-            role: payload.role,
-        };
-    }
-}
\ No newline at end of file
+  // This method is called after the token is verified
+  async validate(payload: JWTPayload): Promise<any> {
+    return {
+      user_id: payload.sub,
+      email: payload.email,
+      role: payload.role,
+      session_id: payload.sid,
+      permissions: payload.perms ?? [],
+    };
+  }
+}
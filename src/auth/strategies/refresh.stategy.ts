@@ -5,46 +5,51 @@ import { Request } from 'express';
 import { ExtractJwt, Strategy } from 'passport-jwt';
 
 type JWTPayload = {
-    sub:number;
-    email:string;
-}
-
-interface PayloadWithRT extends JWTPayload {
-    refreshToken: string;
+  sub: number;
+  email: string;
+  sid: string; // Session the token was issued for
+};
+
+interface PayloadWithRT {
+  sub: number;
+  email: string;
+  session_id: string;
+  refreshToken: string;
 }
 
 @Injectable()
 export class RefreshStrategy extends PassportStrategy(Strategy, 'refresh') {
-    constructor(private configService: ConfigService) {
-        super({
-            jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
-            secretOrKey: configService.getOrThrow<string>('JWT_REFRESH_TOKEN_SECRET'),
-            passReqToCallback: true,// to pass the request object in validate method
-        });
+  constructor(private configService: ConfigService) {
+    super({
+      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
+      secretOrKey: configService.getOrThrow<string>('JWT_REFRESH_TOKEN_SECRET'),
+      passReqToCallback: true, // to pass the request object in validate method
+    });
+  }
+
+  // This method is called after the token is verified
+  validate(req: Request, payload: JWTPayload): PayloadWithRT {
+    const authHeader = req.get('Authorization');
+
+    if (!authHeader) {
+      throw new UnauthorizedException('No Authorization header');
     }
 
-    // This method is called after the token is verified
-    validate (req: Request, payload: JWTPayload): PayloadWithRT {
-        const authHeader = req.get('Authorization');
-
-        if (!authHeader) {
-            throw new UnauthorizedException('No Authorization header');
-        }
-
-        if (!authHeader.startsWith('Bearer ')) {
-            throw new UnauthorizedException('Invalid Authorization header format');
-        }
-
-        const tr = authHeader.replace('Bearer ', '').trim();
+    if (!authHeader.startsWith('Bearer ')) {
+      throw new UnauthorizedException('Invalid Authorization header format');
+    }
 
-        if (!tr) {
-            throw new UnauthorizedException('No token found');
-        }
+    const tr = authHeader.replace('Bearer ', '').trim();
 
-        return {
-            sub: payload.sub,
-            email: payload.email,
-            refreshToken: tr,
-        };
+    if (!tr) {
+      throw new UnauthorizedException('No token found');
     }
-}
\ No newline at end of file
+
+    return {
+      sub: payload.sub,
+      email: payload.email,
+      session_id: payload.sid,
+      refreshToken: tr,
+    };
+  }
+}
@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { IsNull, MoreThan, Repository } from 'typeorm';
+import { tokenPurpose, UserToken } from './entities/user-token.entity';
+
+@Injectable()
+export class UserTokensService {
+  constructor(
+    @InjectRepository(UserToken)
+    private userTokensRepository: Repository<UserToken>,
+  ) {}
+
+  private hashToken(token: string): string {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  // Creates a new token and invalidates any earlier unused one with the same purpose.
+  // Returns the plain token, which is only ever sent to the user.
+  async issue(userId: number, purpose: tokenPurpose, ttlMinutes: number) {
+    await this.userTokensRepository.update(
+      { user_id: userId, purpose, used_at: IsNull() },
+      { used_at: new Date() },
+    );
+
+    const token = randomBytes(32).toString('hex');
+    await this.userTokensRepository.save(
+      this.userTokensRepository.create({
+        user_id: userId,
+        purpose,
+        token_hash: this.hashToken(token),
+        expires_at: new Date(Date.now() + ttlMinutes * 60 * 1000),
+      }),
+    );
+    return token;
+  }
+
+  // Marks the token as used and returns its user id, or null when the token is
+  // unknown, expired or already used. The conditional update makes it single-use
+  // even when the same link is opened twice at once.
+  async consume(token: string, purpose: tokenPurpose): Promise<number | null> {
+    const tokenHash = this.hashToken(token);
+    const found = await this.userTokensRepository.findOneBy({
+      token_hash: tokenHash,
+      purpose,
+      used_at: IsNull(),
+      expires_at: MoreThan(new Date()),
+    });
+    if (!found) {
+      return null;
+    }
+
+    const result = await this.userTokensRepository.update(
+      { token_id: found.token_id, used_at: IsNull() },
+      { used_at: new Date() },
+    );
+    return result.affected === 1 ? found.user_id : null;
+  }
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { Event } from 'src/events/entities/event.entity';
+import { CalendarFeed } from './entities/calendar-feed.entity';
+import { CalendarService } from './calendar.service';
+
+// No controller of its own: event files are served under /events/:id and
+// feeds under /users/:id
+@Module({
+  imports: [DatabaseModule, TypeOrmModule.forFeature([CalendarFeed, Event])],
+  providers: [CalendarService],
+  exports: [CalendarService],
+})
+export class CalendarModule {}
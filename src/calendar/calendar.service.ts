@@ -0,0 +1,116 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { createHash, randomBytes } from 'crypto';
+import { Repository } from 'typeorm';
+import { Event, eventStatus } from 'src/events/entities/event.entity';
+import { currentStatus } from 'src/events/event-lifecycle';
+import { registrationStatus } from 'src/registrations/entities/registration.entity';
+import { CalendarFeed } from './entities/calendar-feed.entity';
+import { toICalendar } from './ical';
+
+// Feeds leave out events that ended longer ago than this
+const FEED_PAST_DAYS = 90;
+
+// Subscribers are asked to refresh this often, so edits and cancellations
+// show up within the hour
+const FEED_REFRESH_MINUTES = 60;
+
+@Injectable()
+export class CalendarService {
+  constructor(
+    @InjectRepository(CalendarFeed)
+    private feedsRepository: Repository<CalendarFeed>,
+    @InjectRepository(Event)
+    private eventsRepository: Repository<Event>,
+    private configService: ConfigService,
+  ) {}
+
+  // A single event to import, e.g. from an "Add to calendar" link
+  eventFile(event: Event) {
+    return toICalendar([event], { host: this.host() });
+  }
+
+  // Replaces the user's feed token. The plain token is only returned here.
+  async issueFeedToken(userId: number) {
+    const token = randomBytes(32).toString('hex');
+    await this.feedsRepository.upsert(
+      {
+        user_id: userId,
+        token_hash: this.hashToken(token),
+        last_fetched_at: null,
+        created_at: new Date(),
+      },
+      ['user_id'],
+    );
+    return { token, path: `/users/${userId}/calendar.ics?token=${token}` };
+  }
+
+  async revokeFeedToken(userId: number) {
+    await this.feedsRepository.delete({ user_id: userId });
+  }
+
+  // Events the user is registered for (confirmed or waitlisted) or organizes.
+  // Cancelling an event cancels its registrations, yet it stays in the feed
+  // as cancelled so calendar apps update it rather than keep a stale copy;
+  // drafts show as tentative.
+  async feed(userId: number, token: unknown) {
+    const feed = await this.feedsRepository.findOneBy({
+      user_id: userId,
+      token_hash: this.hashToken(typeof token === 'string' ? token : ''),
+    });
+    if (!feed) {
+      // Same answer for an unknown user and a wrong token
+      throw new NotFoundException('Calendar feed not found');
+    }
+    await this.feedsRepository.update(
+      { user_id: userId },
+      { last_fetched_at: new Date() },
+    );
+
+    const events = await this.eventsRepository
+      .createQueryBuilder('event')
+      .leftJoin('event.organizer', 'organizer')
+      .addSelect(['organizer.user_id', 'organizer.name', 'organizer.email'])
+      .where(
+        `(event.created_by = :userId OR event.event_id IN (
+          SELECT registration.event_id FROM registrations registration
+          WHERE registration.user_id = :userId
+            AND registration.status IN (:...statuses))
+        OR (event.status = :cancelled AND event.event_id IN (
+          SELECT registration.event_id FROM registrations registration
+          WHERE registration.user_id = :userId)))`,
+        {
+          userId,
+          cancelled: eventStatus.Cancelled,
+          statuses: [
+            registrationStatus.Confirmed,
+            registrationStatus.Waitlisted,
+          ],
+        },
+      )
+      .andWhere('event.ends_at > :since', {
+        since: new Date(Date.now() - FEED_PAST_DAYS * 86400000),
+      })
+      .orderBy('event.starts_at', 'ASC')
+      .getMany();
+    for (const event of events) {
+      event.status = currentStatus(event);
+    }
+    return toICalendar(events, {
+      host: this.host(),
+      name: 'My events',
+      refreshMinutes: FEED_REFRESH_MINUTES,
+    });
+  }
+
+  private hashToken(token: string) {
+    return createHash('sha256').update(token).digest('hex');
+  }
+
+  private host() {
+    return new URL(
+      this.configService.get<string>('FRONTEND_URL', 'http://localhost:3000'),
+    ).hostname;
+  }
+}
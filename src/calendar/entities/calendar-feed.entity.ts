@@ -0,0 +1,30 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  OneToOne,
+  PrimaryColumn,
+} from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+
+// Secret that lets calendar apps fetch a user's feed without signing in. One
+// per user; issuing a new one revokes the old. Only a SHA-256 hash is stored.
+@Entity('calendar_feeds')
+export class CalendarFeed {
+  @PrimaryColumn({ type: 'int' })
+  user_id: number;
+
+  @Column({ type: 'varchar', length: 64, unique: true })
+  token_hash: string;
+
+  @Column({ type: 'timestamp', nullable: true })
+  last_fetched_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @OneToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+}
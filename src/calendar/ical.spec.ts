@@ -0,0 +1,80 @@
+import { Event, eventStatus } from 'src/events/entities/event.entity';
+import { toICalendar } from './ical';
+
+const NOW = new Date('2025-01-02T03:04:05.678Z');
+
+const event = (overrides: Partial<Event> = {}) =>
+  ({
+    event_id: 7,
+    event_name: 'Meetup',
+    event_description: 'Talks',
+    event_location: 'Hall A',
+    starts_at: new Date('2024-12-15T08:00:00.000Z'),
+    ends_at: new Date('2024-12-15T17:30:00.000Z'),
+    status: eventStatus.Published,
+    latitude: null,
+    longitude: null,
+    sequence: 3,
+    created_at: new Date('2024-11-01T10:00:00.000Z'),
+    updated_at: new Date('2024-11-05T12:00:00.000Z'),
+    ...overrides,
+  }) as Event;
+
+const render = (overrides: Partial<Event> = {}) =>
+  toICalendar([event(overrides)], { host: 'events.example.com' }, NOW);
+
+// Content lines with their continuations joined again
+const unfolded = (calendar: string) =>
+  calendar.replace(/\r\n /g, '').split('\r\n');
+
+describe('toICalendar', () => {
+  it('ends every line with CRLF', () => {
+    const calendar = render();
+    expect(calendar.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(calendar.replace(/\r\n/g, '')).not.toMatch(/[\r\n]/);
+  });
+
+  it('writes date-times in UTC without separators or milliseconds', () => {
+    const lines = unfolded(render());
+    expect(lines).toContain('DTSTAMP:20250102T030405Z');
+    expect(lines).toContain('DTSTART:20241215T080000Z');
+    expect(lines).toContain('DTEND:20241215T173000Z');
+    expect(lines).toContain('LAST-MODIFIED:20241105T120000Z');
+  });
+
+  it('emits the stored SEQUENCE', () => {
+    expect(unfolded(render({ sequence: 12 }))).toContain('SEQUENCE:12');
+  });
+
+  it('escapes backslashes, semicolons, commas and newlines in text', () => {
+    const lines = unfolded(render({ event_description: 'a\\b;c,d\r\ne\nf' }));
+    expect(lines).toContain('DESCRIPTION:a\\\\b\\;c\\,d\\ne\\nf');
+  });
+
+  it('folds lines longer than 75 octets', () => {
+    const calendar = render({ event_description: 'x'.repeat(200) });
+    const lines = calendar.split('\r\n');
+    for (const line of lines) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+    }
+    const start = lines.findIndex((line) => line.startsWith('DESCRIPTION:'));
+    expect(lines[start]).toHaveLength(75);
+    expect(lines[start + 1].startsWith(' ')).toBe(true);
+    expect(unfolded(calendar)).toContain(`DESCRIPTION:${'x'.repeat(200)}`);
+  });
+
+  it('never splits a multi-byte character when folding', () => {
+    const calendar = render({ event_name: 'é'.repeat(60) });
+    for (const line of calendar.split('\r\n')) {
+      expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+      expect(line).not.toContain('�');
+    }
+    expect(unfolded(calendar)).toContain(`SUMMARY:${'é'.repeat(60)}`);
+  });
+
+  it('marks cancelled events', () => {
+    expect(unfolded(render({ status: eventStatus.Cancelled }))).toContain(
+      'STATUS:CANCELLED',
+    );
+  });
+});
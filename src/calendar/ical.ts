@@ -0,0 +1,115 @@
+import { Event, eventStatus } from 'src/events/entities/event.entity';
+
+// RFC 5545 iCalendar output for events
+
+export interface CalendarOptions {
+  host: string; // Makes UIDs globally unique, e.g. events.example.com
+  name?: string; // Shown by calendar apps for subscribed feeds
+  refreshMinutes?: number; // How often subscribers should fetch the feed again
+}
+
+const PRODID = '-//Event Management System//Events//EN';
+
+// Lines are at most 75 octets; longer ones continue on the next line after a
+// space, never splitting a multi-byte character
+function fold(line: string) {
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    const limit = parts.length ? 74 : 75; // Continuations start with a space
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function text(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+// UTC date-time, e.g. 20241215T080000Z
+function dateTime(value: Date) {
+  return new Date(value).toISOString().replace(/[-:]/g, '').slice(0, 15) + 'Z';
+}
+
+function status(event: Event) {
+  switch (event.status) {
+    case eventStatus.Cancelled:
+      return 'CANCELLED';
+    case eventStatus.Draft:
+      return 'TENTATIVE';
+    default:
+      return 'CONFIRMED';
+  }
+}
+
+function vevent(event: Event, options: CalendarOptions, now: Date) {
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:event-${event.event_id}@${options.host}`,
+    `DTSTAMP:${dateTime(now)}`,
+    `DTSTART:${dateTime(event.starts_at)}`,
+    `DTEND:${dateTime(event.ends_at)}`,
+    `SUMMARY:${text(event.event_name)}`,
+    `DESCRIPTION:${text(event.event_description)}`,
+    `LOCATION:${text(event.event_location)}`,
+    `STATUS:${status(event)}`,
+    `CREATED:${dateTime(event.created_at)}`,
+    `LAST-MODIFIED:${dateTime(event.updated_at)}`,
+    `SEQUENCE:${event.sequence}`,
+  ];
+  if (event.latitude !== null && event.longitude !== null) {
+    lines.push(`GEO:${event.latitude};${event.longitude}`);
+  }
+  if (event.organizer) {
+    lines.push(
+      `ORGANIZER;CN="${event.organizer.name.replace(/"/g, "'")}":mailto:${event.organizer.email}`,
+    );
+  }
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+// A VCALENDAR holding one VEVENT per event, with CRLF line endings
+export function toICalendar(
+  events: Event[],
+  options: CalendarOptions,
+  now = new Date(),
+) {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ];
+  if (options.name) {
+    lines.push(
+      `NAME:${text(options.name)}`,
+      `X-WR-CALNAME:${text(options.name)}`,
+    );
+  }
+  if (options.refreshMinutes) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshMinutes}M`,
+      `X-PUBLISHED-TTL:PT${options.refreshMinutes}M`,
+    );
+  }
+  for (const event of events) {
+    lines.push(...vevent(event, options, now));
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+}
@@ -0,0 +1,18 @@
+import { ArgumentMetadata, ValidationPipe } from '@nestjs/common';
+
+// Validates request bodies against their DTO and strips every field the DTO
+// does not declare, so a client can only set what the DTO allows. Query
+// strings are left to ListQueryPipe: running first, this pipe would strip
+// unknown parameters before ListQueryPipe could reject them.
+export class BodyValidationPipe extends ValidationPipe {
+  constructor() {
+    super({ whitelist: true, transform: true });
+  }
+
+  async transform(value: unknown, metadata: ArgumentMetadata) {
+    if (metadata.type !== 'body') {
+      return value;
+    }
+    return super.transform(value, metadata) as Promise<unknown>;
+  }
+}
@@ -0,0 +1,16 @@
+import { BadRequestException } from '@nestjs/common';
+
+// A latitude/longitude pair: both or neither
+export function coordinates(dto: {
+  latitude?: number | null;
+  longitude?: number | null;
+}) {
+  const latitude = dto.latitude ?? null;
+  const longitude = dto.longitude ?? null;
+  if ((latitude === null) !== (longitude === null)) {
+    throw new BadRequestException(
+      'latitude and longitude must be given together',
+    );
+  }
+  return { latitude, longitude };
+}
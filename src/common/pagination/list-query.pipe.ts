@@ -0,0 +1,9 @@
+import { ValidationPipe } from '@nestjs/common';
+
+// Validates and converts list query strings (page, limit, filters) into their DTO.
+// Unknown parameters are rejected so a typo in a filter does not silently return everything.
+export const ListQueryPipe = new ValidationPipe({
+  transform: true,
+  whitelist: true,
+  forbidNonWhitelisted: true,
+});
@@ -0,0 +1,186 @@
+import { BadRequestException } from '@nestjs/common';
+import { ObjectLiteral, SelectQueryBuilder } from 'typeorm';
+import { PaginationQueryDto, SortOrder } from './pagination-query.dto';
+
+// Response envelope returned by every list endpoint
+export interface Paginated<T> {
+  data: T[];
+  meta: {
+    total: number; // Rows matching the filters, ignoring pagination
+    page: number | null; // null when paging with a cursor
+    limit: number;
+    total_pages: number;
+    next_cursor: string | null;
+  };
+  links: {
+    self: string;
+    next: string | null;
+    prev: string | null;
+  };
+}
+
+export interface PaginateOptions {
+  path: string; // Route the links point to, e.g. '/events'
+  idColumn: string; // Unique column used to break ties between equal sort values
+  defaultSort?: string;
+  // Computed orderings applied ahead of the sort column, e.g. search relevance.
+  // A cursor cannot hold them, so such lists are paged by page/limit only.
+  rankBy?: { expression: string; order: SortOrder }[];
+}
+
+type ListQuery = PaginationQueryDto & { sort?: string };
+
+interface Cursor {
+  value: unknown; // Sort column value of the last row returned
+  id: unknown;
+}
+
+// Alias of the sort value as Postgres prints it. Read back as a Date, a
+// timestamp loses its microseconds and the cursor would repeat or skip rows;
+// as text it compares exactly against the column.
+const CURSOR_VALUE = 'cursor_value';
+
+const encodeCursor = (cursor: Cursor) =>
+  Buffer.from(JSON.stringify(cursor)).toString('base64url');
+
+const decodeCursor = (raw: string): Cursor => {
+  try {
+    const cursor = JSON.parse(
+      Buffer.from(raw, 'base64url').toString('utf8'),
+    ) as Cursor;
+    if (
+      cursor &&
+      typeof cursor === 'object' &&
+      'value' in cursor &&
+      'id' in cursor
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new BadRequestException('Invalid cursor');
+};
+
+// Rebuilds the request URL with the same filters and a different page or cursor
+const buildLink = (
+  path: string,
+  query: ListQuery,
+  overrides: Record<string, string | number>,
+) => {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (
+      value !== undefined &&
+      value !== null &&
+      key !== 'page' &&
+      key !== 'cursor'
+    ) {
+      params.set(key, String(value));
+    }
+  }
+  for (const [key, value] of Object.entries(overrides)) {
+    params.set(key, String(value));
+  }
+  return `${path}?${params.toString()}`;
+};
+
+// Applies sorting and page/limit or cursor (keyset) pagination to a query whose
+// filters have already been added, and wraps the rows in the list envelope.
+// Sort columns are whitelisted by the query DTO, never taken from the request as is.
+export async function paginate<T extends ObjectLiteral>(
+  qb: SelectQueryBuilder<T>,
+  query: ListQuery,
+  options: PaginateOptions,
+): Promise<Paginated<T>> {
+  const alias = qb.alias;
+  const sort = query.sort ?? options.defaultSort ?? options.idColumn;
+  const { limit, order } = query;
+
+  if (query.cursor && options.rankBy?.length) {
+    throw new BadRequestException(
+      'Ranked results cannot be paged with a cursor; use page instead',
+    );
+  }
+
+  // Counted before the cursor condition so total always covers the whole result
+  const total = await qb.getCount();
+
+  qb.orderBy();
+  for (const rank of options.rankBy ?? []) {
+    qb.addOrderBy(rank.expression, rank.order);
+  }
+  qb.addOrderBy(`${alias}.${sort}`, order).addOrderBy(
+    `${alias}.${options.idColumn}`,
+    order,
+  );
+
+  let page: number | null = query.page;
+  if (query.cursor) {
+    const cursor = decodeCursor(query.cursor);
+    page = null;
+    const op = order === 'ASC' ? '>' : '<';
+    qb.andWhere(
+      `(${alias}.${sort} ${op} :cursorValue OR (${alias}.${sort} = :cursorValue AND ${alias}.${options.idColumn} ${op} :cursorId))`,
+      { cursorValue: cursor.value, cursorId: cursor.id },
+    );
+  } else {
+    qb.skip((query.page - 1) * limit);
+  }
+
+  // One extra row tells whether there is a next page
+  const { entities: rows, raw } = await qb
+    .addSelect(`${alias}.${sort}::text`, CURSOR_VALUE)
+    .take(limit + 1)
+    .getRawAndEntities<Record<string, unknown>>();
+  const hasNext = rows.length > limit;
+  const data = rows.slice(0, limit);
+
+  const last = data[data.length - 1];
+  // Joins can give a row several raw rows; any of them has the sort value
+  const lastRaw = last
+    ? raw.find(
+        (row) =>
+          String(row[`${alias}_${options.idColumn}`]) ===
+          String(last[options.idColumn]),
+      )
+    : undefined;
+  const nextCursor =
+    hasNext && lastRaw
+      ? encodeCursor({
+          value: lastRaw[CURSOR_VALUE],
+          id: last[options.idColumn],
+        })
+      : null;
+
+  let next: string | null = null;
+  let prev: string | null = null;
+  if (page === null) {
+    next = nextCursor
+      ? buildLink(options.path, query, { cursor: nextCursor })
+      : null;
+  } else {
+    next = hasNext ? buildLink(options.path, query, { page: page + 1 }) : null;
+    prev = page > 1 ? buildLink(options.path, query, { page: page - 1 }) : null;
+  }
+
+  return {
+    data,
+    meta: {
+      total,
+      page,
+      limit,
+      total_pages: Math.ceil(total / limit),
+      next_cursor: nextCursor,
+    },
+    links: {
+      self: buildLink(
+        options.path,
+        query,
+        query.cursor ? { cursor: query.cursor } : { page: query.page },
+      ),
+      next,
+      prev,
+    },
+  };
+}
@@ -0,0 +1,7 @@
+// Standalone data source for the TypeORM CLI (migration:generate/run/revert)
+import 'dotenv/config';
+import { ConfigService } from '@nestjs/config';
+import { DataSource } from 'typeorm';
+import { createTypeOrmOptions } from './typeorm.config';
+
+export default new DataSource(createTypeOrmOptions(new ConfigService()));
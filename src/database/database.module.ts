@@ -1,26 +1,17 @@
 import { Module } from '@nestjs/common';
 import { TypeOrmModule } from '@nestjs/typeorm';
-import {ConfigModule, ConfigService} from "@nestjs/config";
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { createTypeOrmOptions } from './typeorm.config';
 
 @Module({
-    imports: [
-        ConfigModule,
-        TypeOrmModule.forRootAsync({
-            imports: [ConfigModule],
-            useFactory: (configService: ConfigService) => ({
-                type: 'postgres',
-                host: configService.getOrThrow<string>('DB_HOST'),
-                port: configService.getOrThrow<number>('DB_PORT'),
-                username: configService.getOrThrow<string>('DB_USERNAME'),
-                password: configService.getOrThrow<string>('DB_PASSWORD'),
-                database: configService.getOrThrow<string>('DB_NAME'),
-                entities: [__dirname + '/../**/*.entity{.ts,.js}'],
-                synchronize: configService.getOrThrow<boolean>('DB_SYNC', true),
-                logging: configService.getOrThrow<boolean>('DB_LOGGING', false),   
-                migrations: [__dirname + '/../migrations/**/*{.ts,.js}'],
-         }),
-         inject: [ConfigService] // Inject ConfigService to access configuration values
-        })
-    ],
+  imports: [
+    ConfigModule,
+    TypeOrmModule.forRootAsync({
+      imports: [ConfigModule],
+      useFactory: (configService: ConfigService) =>
+        createTypeOrmOptions(configService),
+      inject: [ConfigService], // Inject ConfigService to access configuration values
+    }),
+  ],
 })
-export class DatabaseModule {}
\ No newline at end of file
+export class DatabaseModule {}
@@ -0,0 +1,30 @@
+import { ConfigService } from '@nestjs/config';
+import { DataSourceOptions } from 'typeorm';
+
+// Shared by DatabaseModule and the standalone data source used by the TypeORM CLI,
+// so both read the same DB_* keys
+export const createTypeOrmOptions = (
+  configService: ConfigService,
+): DataSourceOptions => {
+  // Environment variables are strings, so 'false' has to be compared explicitly
+  const synchronize = configService.get<string>('DB_SYNC', 'false') === 'true';
+
+  if (synchronize && configService.get<string>('NODE_ENV') === 'production') {
+    throw new Error(
+      'DB_SYNC must not be enabled when NODE_ENV=production, run migrations instead',
+    );
+  }
+
+  return {
+    type: 'postgres',
+    host: configService.getOrThrow<string>('DB_HOST'),
+    port: Number(configService.getOrThrow<string>('DB_PORT')),
+    username: configService.getOrThrow<string>('DB_USERNAME'),
+    password: configService.getOrThrow<string>('DB_PASSWORD'),
+    database: configService.getOrThrow<string>('DB_NAME'),
+    entities: [__dirname + '/../**/*.entity{.ts,.js}'],
+    synchronize,
+    logging: configService.get<string>('DB_LOGGING', 'false') === 'true',
+    migrations: [__dirname + '/../migrations/**/*{.ts,.js}'],
+  };
+};
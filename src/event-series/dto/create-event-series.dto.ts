@@ -0,0 +1,119 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class CreateEventSeriesDto {
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsString()
+  event_name: string;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsString()
+  event_location: string;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsString()
+  event_description: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Per occurrence; leave empty for unlimited capacity',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  capacity?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Room every occurrence books; refused with 409 when taken',
+  })
+  @IsOptional()
+  @IsInt()
+  room_id?: number;
+
+  @ApiProperty({ required: false, default: 7 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  refund_full_days_before?: number;
+
+  @ApiProperty({ required: false, default: 50 })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  refund_partial_percent?: number;
+
+  @ApiProperty({
+    example: '2025-01-07T18:30:00+01:00',
+    description: 'First occurrence; the others start at the same local time',
+  })
+  @IsDateString()
+  starts_at: string;
+
+  @ApiProperty({ example: 120 })
+  @IsInt()
+  @Min(1)
+  duration_minutes: number;
+
+  @ApiProperty({ required: false, default: 'UTC', example: 'Europe/Berlin' })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @ApiProperty({
+    example: 'FREQ=WEEKLY;BYDAY=TU;COUNT=20',
+    description:
+      'RRULE with FREQ (DAILY, WEEKLY, MONTHLY), INTERVAL, BYDAY, BYMONTHDAY, COUNT or UNTIL',
+  })
+  @IsNotEmpty()
+  @IsString()
+  rrule: string;
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    example: ['2025-12-30'],
+    description: 'Local dates to skip',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsDateString({}, { each: true })
+  exdates?: string[];
+
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Publish occurrences as they are generated',
+  })
+  @IsOptional()
+  @IsBoolean()
+  auto_publish?: boolean;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Generate occurrences up to here; defaults to SERIES_HORIZON_DAYS ahead',
+  })
+  @IsOptional()
+  @IsDateString()
+  generate_until?: string;
+
+  @ApiProperty()
+  @IsInt()
+  created_by: number; // Organizer who owns the series
+}
@@ -0,0 +1,8 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsDateString } from 'class-validator';
+
+export class GenerateOccurrencesDto {
+  @ApiProperty({ description: 'Generate occurrences up to this instant' })
+  @IsDateString()
+  until: string;
+}
@@ -0,0 +1,25 @@
+import { ApiProperty, OmitType, PartialType } from '@nestjs/swagger';
+import { IsOptional, Matches } from 'class-validator';
+import { CreateEventSeriesDto } from './create-event-series.dto';
+
+// How far an edit made through one occurrence reaches
+export enum editScope {
+  This = 'this',
+  Following = 'following', // This occurrence and every later one
+  All = 'all',
+}
+
+// The first occurrence stays where it is; start_time moves every occurrence
+// to another local time of day
+export class UpdateEventSeriesDto extends PartialType(
+  OmitType(CreateEventSeriesDto, [
+    'starts_at',
+    'generate_until',
+    'created_by',
+  ] as const),
+) {
+  @ApiProperty({ required: false, example: '19:00' })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+  start_time?: string;
+}
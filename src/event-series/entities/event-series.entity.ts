@@ -0,0 +1,89 @@
+import {
+  Check,
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Event } from 'src/events/entities/event.entity';
+import { Room } from 'src/venues/entities/room.entity';
+
+// A recurring event. Each occurrence is a regular Event generated from this
+// template, so registrations, tickets and check-in work per occurrence.
+@Entity('event_series')
+@Check(
+  'CHK_event_series_refund_policy',
+  '"refund_full_days_before" >= 0 AND "refund_partial_percent" BETWEEN 0 AND 100',
+)
+export class EventSeries {
+  @PrimaryGeneratedColumn()
+  series_id: number;
+
+  @Column({ type: 'varchar', length: 50 })
+  event_name: string;
+
+  @Column({ type: 'varchar', length: 250 })
+  event_location: string;
+
+  @Column({ type: 'varchar', length: 250 })
+  event_description: string;
+
+  @Column({ type: 'int', nullable: true })
+  capacity: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  room_id: number | null;
+
+  @Column({ type: 'int', default: 7 })
+  refund_full_days_before: number;
+
+  @Column({ type: 'int', default: 50 })
+  refund_partial_percent: number;
+
+  // First occurrence; every occurrence starts at its local time of day
+  @Column({ type: 'timestamptz' })
+  starts_at: Date;
+
+  @Column({ type: 'int' })
+  duration_minutes: number;
+
+  @Column({ type: 'varchar', length: 64, default: 'UTC' })
+  timezone: string;
+
+  @Column({ type: 'varchar', length: 255 })
+  rrule: string; // e.g. FREQ=WEEKLY;BYDAY=TU, see recurrence.ts
+
+  @Column({ type: 'simple-array', default: '' })
+  exdates: string[]; // Local dates without an occurrence
+
+  @Column({ type: 'boolean', default: false })
+  auto_publish: boolean; // Publish occurrences as they are generated
+
+  @Column({ type: 'timestamptz', nullable: true })
+  generated_until: Date | null; // Occurrences exist up to here
+
+  @Column({ type: 'int' })
+  created_by: number; // Organizer
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'created_by' })
+  organizer: User;
+
+  @ManyToOne(() => Room, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'room_id' })
+  room: Room | null;
+
+  @OneToMany(() => Event, (event) => event.series)
+  occurrences: Event[];
+}
@@ -0,0 +1,89 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseEnumPipe,
+  Patch,
+  Post,
+  Query,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Roles } from 'src/auth/decorators/role.decorator';
+import {
+  CheckPolicy,
+  PolicyResource,
+} from 'src/auth/decorators/check-policy.decorator';
+import { ROLE_MATRIX } from 'src/auth/role-matrix';
+import { EventSeriesService } from './event-series.service';
+import { CreateEventSeriesDto } from './dto/create-event-series.dto';
+import { editScope, UpdateEventSeriesDto } from './dto/update-event-series.dto';
+import { GenerateOccurrencesDto } from './dto/generate-occurrences.dto';
+
+// Occurrences are regular events: list them with GET /events?series_id=
+@ApiBearerAuth('access-token')
+@ApiTags('Event series')
+@Controller('event-series')
+export class EventSeriesController {
+  constructor(private readonly eventSeriesService: EventSeriesService) {}
+
+  @Post()
+  @Roles(...ROLE_MATRIX.eventSeries.create)
+  @CheckPolicy(PolicyResource.EventSeries, 'create') // created_by must be the caller
+  create(@Body() createEventSeriesDto: CreateEventSeriesDto) {
+    return this.eventSeriesService.create(createEventSeriesDto);
+  }
+
+  @Get(':id')
+  @Roles(...ROLE_MATRIX.eventSeries.findOne)
+  @CheckPolicy(PolicyResource.EventSeries)
+  findOne(@Param('id') id: string) {
+    return this.eventSeriesService.findOne(+id);
+  }
+
+  @Post(':id/generate')
+  @Roles(...ROLE_MATRIX.eventSeries.update)
+  @CheckPolicy(PolicyResource.EventSeries)
+  generate(
+    @Param('id') id: string,
+    @Body() generateOccurrencesDto: GenerateOccurrencesDto,
+  ) {
+    return this.eventSeriesService.generate(+id, generateOccurrencesDto.until);
+  }
+
+  // Same as editing an occurrence with scope=all
+  @Patch(':id')
+  @Roles(...ROLE_MATRIX.eventSeries.update)
+  @CheckPolicy(PolicyResource.EventSeries)
+  update(
+    @Param('id') id: string,
+    @Body() updateEventSeriesDto: UpdateEventSeriesDto,
+  ) {
+    return this.eventSeriesService.update(+id, updateEventSeriesDto);
+  }
+
+  @Patch(':id/occurrences/:eventId')
+  @Roles(...ROLE_MATRIX.eventSeries.update)
+  @CheckPolicy(PolicyResource.EventSeries)
+  updateOccurrence(
+    @Param('id') id: string,
+    @Param('eventId') eventId: string,
+    @Query('scope', new ParseEnumPipe(editScope)) scope: editScope,
+    @Body() updateEventSeriesDto: UpdateEventSeriesDto,
+  ) {
+    return this.eventSeriesService.updateOccurrence(
+      +id,
+      +eventId,
+      scope,
+      updateEventSeriesDto,
+    );
+  }
+
+  @Delete(':id')
+  @Roles(...ROLE_MATRIX.eventSeries.remove)
+  @CheckPolicy(PolicyResource.EventSeries)
+  remove(@Param('id') id: string) {
+    return this.eventSeriesService.remove(+id);
+  }
+}
@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { Event } from 'src/events/entities/event.entity';
+import { RegistrationsModule } from 'src/registrations/registrations.module';
+import { VenuesModule } from 'src/venues/venues.module';
+import { EventSeries } from './entities/event-series.entity';
+import { EventSeriesService } from './event-series.service';
+import { EventSeriesController } from './event-series.controller';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([EventSeries, Event]),
+    VenuesModule,
+    RegistrationsModule,
+  ],
+  controllers: [EventSeriesController],
+  providers: [EventSeriesService],
+})
+export class EventSeriesModule {}
@@ -0,0 +1,506 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import {
+  DataSource,
+  EntityManager,
+  In,
+  MoreThanOrEqual,
+  Repository,
+} from 'typeorm';
+import { Event, eventStatus } from 'src/events/entities/event.entity';
+import { currentStatus, nextSequence } from 'src/events/event-lifecycle';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { RegistrationsService } from 'src/registrations/registrations.service';
+import { VenuesService } from 'src/venues/venues.service';
+import { EventSeries } from './entities/event-series.entity';
+import { CreateEventSeriesDto } from './dto/create-event-series.dto';
+import { editScope, UpdateEventSeriesDto } from './dto/update-event-series.dto';
+import {
+  formatRRule,
+  localParts,
+  occurrences,
+  parseRRule,
+  splitRRule,
+  zonedTime,
+} from './recurrence';
+
+// Upper bound on occurrences generated in one go
+const MAX_OCCURRENCES = 500;
+
+// Fields copied from the series onto every occurrence
+const TEMPLATE_FIELDS = [
+  'event_name',
+  'event_location',
+  'event_description',
+  'capacity',
+  'room_id',
+  'refund_full_days_before',
+  'refund_partial_percent',
+] as const;
+
+type Template = Partial<Pick<Event, (typeof TEMPLATE_FIELDS)[number]>>;
+
+// Fields that only make sense for the series as a whole
+const SERIES_FIELDS = ['rrule', 'exdates', 'timezone', 'auto_publish'] as const;
+
+@Injectable()
+export class EventSeriesService {
+  constructor(
+    @InjectRepository(EventSeries)
+    private seriesRepository: Repository<EventSeries>,
+    private dataSource: DataSource,
+    private configService: ConfigService,
+    private venuesService: VenuesService,
+    private registrationsService: RegistrationsService, // Checks and fills seats when the capacity changes
+  ) {}
+
+  async create(createEventSeriesDto: CreateEventSeriesDto) {
+    const startsAt = new Date(createEventSeriesDto.starts_at);
+    this.validate(createEventSeriesDto);
+    const until = createEventSeriesDto.generate_until
+      ? new Date(createEventSeriesDto.generate_until)
+      : this.defaultHorizon();
+
+    const saved = await this.dataSource.transaction(async (manager) => {
+      const series = await manager.save(
+        manager.create(EventSeries, {
+          ...this.pick(createEventSeriesDto),
+          starts_at: startsAt,
+          created_by: createEventSeriesDto.created_by,
+        }),
+      );
+      await this.sync(manager, series, until);
+      return series;
+    });
+    return this.findOne(saved.series_id);
+  }
+
+  // The series with every occurrence generated so far
+  async findOne(id: number) {
+    const series = await this.seriesRepository.findOne({
+      where: { series_id: id },
+      relations: ['occurrences'],
+      order: { occurrences: { starts_at: 'ASC' } },
+    });
+    if (!series) {
+      throw new NotFoundException(`Event series with ID ${id} not found`);
+    }
+    return series;
+  }
+
+  // Changes the whole series. Occurrences that already started, were edited
+  // on their own or are no longer open keep what they have.
+  async update(id: number, updateEventSeriesDto: UpdateEventSeriesDto) {
+    const series = await this.findSeries(id);
+    this.validate(updateEventSeriesDto);
+    this.applyChanges(series, updateEventSeriesDto);
+    await this.dataSource.transaction(async (manager) => {
+      await manager.save(series);
+      await this.sync(manager, series, this.horizonOf(series));
+    });
+    return this.findOne(id);
+  }
+
+  // Extends the series with occurrences up to the given instant
+  async generate(id: number, until: string) {
+    const series = await this.findSeries(id);
+    const horizon = new Date(until);
+    await this.dataSource.transaction((manager) =>
+      this.sync(manager, series, horizon),
+    );
+    return this.findOne(id);
+  }
+
+  // Edits one occurrence ('this'), it and every later one ('following', which
+  // splits the series in two) or the whole series ('all')
+  async updateOccurrence(
+    id: number,
+    eventId: number,
+    scope: editScope,
+    updateEventSeriesDto: UpdateEventSeriesDto,
+  ) {
+    const series = await this.findSeries(id);
+    const event = await this.seriesRepository.manager.findOneBy(Event, {
+      event_id: eventId,
+      series_id: id,
+    });
+    if (!event?.occurrence_date) {
+      throw new NotFoundException(
+        `Event ${eventId} is not an occurrence of series ${id}`,
+      );
+    }
+    this.validate(updateEventSeriesDto);
+
+    if (scope === editScope.This) {
+      return this.updateOne(event, updateEventSeriesDto);
+    }
+    const first = localParts(series.starts_at, series.timezone).date;
+    if (scope === editScope.All || event.occurrence_date <= first) {
+      return this.update(id, updateEventSeriesDto);
+    }
+    return this.split(series, event.occurrence_date, updateEventSeriesDto);
+  }
+
+  // Deletes the series and its upcoming occurrences. Occurrences anyone
+  // registered for stay as standalone events; cancel them to refund.
+  async remove(id: number) {
+    const series = await this.findOne(id);
+    return this.dataSource.transaction(async (manager) => {
+      const now = new Date();
+      const upcoming = series.occurrences.filter(
+        (occurrence) => occurrence.starts_at > now,
+      );
+      const registered = await this.withRegistrations(
+        manager,
+        upcoming.map((occurrence) => occurrence.event_id),
+      );
+      const deleted = upcoming.filter(
+        (occurrence) => !registered.has(occurrence.event_id),
+      );
+      if (deleted.length) {
+        await manager.delete(
+          Event,
+          deleted.map((occurrence) => occurrence.event_id),
+        );
+      }
+      await manager.delete(EventSeries, id);
+      return {
+        series_id: id,
+        occurrences_deleted: deleted.length,
+        occurrences_kept: series.occurrences.length - deleted.length,
+      };
+    });
+  }
+
+  private async findSeries(id: number) {
+    const series = await this.seriesRepository.findOneBy({ series_id: id });
+    if (!series) {
+      throw new NotFoundException(`Event series with ID ${id} not found`);
+    }
+    return series;
+  }
+
+  // Brings the occurrences from now up to the horizon in line with the
+  // series: missing ones are created, ones the rule no longer produces are
+  // deleted and the rest get the current template and time
+  private async sync(
+    manager: EntityManager,
+    series: EventSeries,
+    horizon: Date,
+  ) {
+    const now = new Date();
+    const wanted = occurrences(series, now, horizon, MAX_OCCURRENCES);
+    // When capped, stop at the last occurrence that was generated
+    const until =
+      wanted.length === MAX_OCCURRENCES
+        ? wanted[wanted.length - 1].starts_at
+        : horizon;
+
+    // Locked like registrations lock their event, so a new capacity is
+    // checked against settled seat counts
+    const existing = await manager.find(Event, {
+      where: {
+        series_id: series.series_id,
+        occurrence_date: MoreThanOrEqual(localParts(now, series.timezone).date),
+      },
+      lock: { mode: 'pessimistic_write' },
+    });
+    const byDate = new Map(
+      existing.map((event) => [event.occurrence_date, event]),
+    );
+    const wantedDates = new Set(wanted.map((occurrence) => occurrence.date));
+    const open = (event: Event) =>
+      !event.detached &&
+      event.starts_at > now &&
+      [eventStatus.Draft, eventStatus.Published].includes(currentStatus(event));
+
+    const stale = existing.filter(
+      (event) =>
+        open(event) &&
+        event.starts_at <= until &&
+        !wantedDates.has(event.occurrence_date!),
+    );
+    const registered = await this.withRegistrations(
+      manager,
+      stale.map((event) => event.event_id),
+    );
+    if (registered.size) {
+      const dates = stale
+        .filter((event) => registered.has(event.event_id))
+        .map((event) => event.occurrence_date);
+      throw new ConflictException(
+        `Occurrences on ${dates.join(', ')} have registrations; cancel them first`,
+      );
+    }
+    if (stale.length) {
+      await manager.delete(
+        Event,
+        stale.map((event) => event.event_id),
+      );
+    }
+
+    const template: Partial<Event> = this.templateOf(series);
+    if (series.room_id) {
+      // Every occurrence written below needs the room at its time
+      const writes = wanted.filter((occurrence) => {
+        const event = byDate.get(occurrence.date);
+        return !event || open(event);
+      });
+      const room = await this.venuesService.reserve(
+        manager,
+        series.room_id,
+        writes,
+        existing.filter(open).map((event) => event.event_id),
+      );
+      template.capacity = this.venuesService.fitCapacity(
+        room,
+        template.capacity,
+      );
+      template.latitude = room.venue.latitude;
+      template.longitude = room.venue.longitude;
+    } else {
+      template.latitude = null;
+      template.longitude = null;
+    }
+    const created: Partial<Event>[] = [];
+    for (const occurrence of wanted) {
+      const event = byDate.get(occurrence.date);
+      const schedule = {
+        ...template,
+        starts_at: occurrence.starts_at,
+        ends_at: occurrence.ends_at,
+        timezone: series.timezone,
+      };
+      if (!event) {
+        created.push({
+          ...schedule,
+          created_by: series.created_by,
+          series_id: series.series_id,
+          occurrence_date: occurrence.date,
+          status: series.auto_publish
+            ? eventStatus.Published
+            : eventStatus.Draft,
+          published_at: series.auto_publish ? now : null,
+        });
+      } else if (open(event)) {
+        await manager.update(
+          Event,
+          { event_id: event.event_id },
+          { ...schedule, sequence: nextSequence(event, schedule) },
+        );
+        if (schedule.capacity !== event.capacity) {
+          await this.registrationsService.fitToCapacity(
+            manager,
+            event.event_id,
+          );
+        }
+      }
+    }
+    if (created.length) {
+      await manager.insert(Event, created);
+    }
+
+    if (!series.generated_until || series.generated_until < until) {
+      series.generated_until = until;
+      await manager.update(
+        EventSeries,
+        { series_id: series.series_id },
+        { generated_until: until },
+      );
+    }
+  }
+
+  // 'this': only the one occurrence, which from then on ignores series edits
+  private async updateOne(event: Event, dto: UpdateEventSeriesDto) {
+    for (const field of SERIES_FIELDS) {
+      if (dto[field] !== undefined) {
+        throw new BadRequestException(
+          `${field} applies to the whole series; use scope=following or scope=all`,
+        );
+      }
+    }
+    const status = currentStatus(event);
+    if (status === eventStatus.Cancelled || status === eventStatus.Completed) {
+      throw new ConflictException(
+        `Event ${event.event_id} is ${status} and can no longer be changed`,
+      );
+    }
+    const changes: Partial<Event> = { ...this.templateOf(dto), detached: true };
+    if (dto.start_time !== undefined || dto.duration_minutes !== undefined) {
+      const { date } = localParts(event.starts_at, event.timezone);
+      const startsAt = dto.start_time
+        ? zonedTime(date, dto.start_time, event.timezone)
+        : event.starts_at;
+      const duration =
+        dto.duration_minutes ??
+        (event.ends_at.getTime() - event.starts_at.getTime()) / 60000;
+      changes.starts_at = startsAt;
+      changes.ends_at = new Date(startsAt.getTime() + duration * 60000);
+    }
+    const roomId =
+      changes.room_id !== undefined ? changes.room_id : event.room_id;
+    await this.dataSource.transaction(async (manager) => {
+      // Locked, so the seat counts and SEQUENCE below start from the current row
+      const locked = await manager.findOneOrFail(Event, {
+        where: { event_id: event.event_id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (roomId) {
+        const room = await this.venuesService.reserve(
+          manager,
+          roomId,
+          [
+            {
+              starts_at: changes.starts_at ?? event.starts_at,
+              ends_at: changes.ends_at ?? event.ends_at,
+            },
+          ],
+          [event.event_id],
+        );
+        if (roomId !== event.room_id) {
+          changes.event_location ??= this.venuesService.locationOf(room);
+          changes.latitude = room.venue.latitude;
+          changes.longitude = room.venue.longitude;
+        }
+        changes.capacity = this.venuesService.fitCapacity(
+          room,
+          changes.capacity !== undefined ? changes.capacity : event.capacity,
+        );
+      }
+      changes.sequence = nextSequence(locked, changes);
+      await manager.update(Event, { event_id: event.event_id }, changes);
+      if (
+        changes.capacity !== undefined &&
+        changes.capacity !== event.capacity
+      ) {
+        await this.registrationsService.fitToCapacity(manager, event.event_id);
+      }
+    });
+    return this.seriesRepository.manager.findOneBy(Event, {
+      event_id: event.event_id,
+    });
+  }
+
+  // 'following': the series ends before the given occurrence and a new one,
+  // with the changes, takes over from there. A COUNT carries over what is left.
+  private async split(
+    series: EventSeries,
+    date: string,
+    dto: UpdateEventSeriesDto,
+  ) {
+    const { time } = localParts(series.starts_at, series.timezone);
+    const splitAt = zonedTime(date, time, series.timezone);
+    const rules = splitRRule(series, date, splitAt);
+
+    const next = await this.dataSource.transaction(async (manager) => {
+      const next = manager.create(EventSeries, {
+        ...this.templateOf(series),
+        starts_at: splitAt,
+        duration_minutes: series.duration_minutes,
+        timezone: series.timezone,
+        rrule: rules.tail,
+        exdates: series.exdates.filter((exdate) => exdate >= date),
+        auto_publish: series.auto_publish,
+        created_by: series.created_by,
+        generated_until: series.generated_until,
+      });
+      this.applyChanges(next, dto);
+      await manager.save(next);
+
+      await manager.update(
+        EventSeries,
+        { series_id: series.series_id },
+        {
+          rrule: rules.head,
+          exdates: series.exdates.filter((exdate) => exdate < date),
+        },
+      );
+      await manager.update(
+        Event,
+        {
+          series_id: series.series_id,
+          occurrence_date: MoreThanOrEqual(date),
+        },
+        { series_id: next.series_id },
+      );
+      await this.sync(manager, next, this.horizonOf(next));
+      return next;
+    });
+    return this.findOne(next.series_id);
+  }
+
+  // Applies an update to a series in memory; start_time and timezone keep
+  // the first occurrence on its local date
+  private applyChanges(series: EventSeries, dto: UpdateEventSeriesDto) {
+    const { date, time } = localParts(series.starts_at, series.timezone);
+    Object.assign(series, this.pick(dto));
+    if (dto.start_time !== undefined || dto.timezone !== undefined) {
+      series.starts_at = zonedTime(
+        date,
+        dto.start_time ?? time,
+        series.timezone,
+      );
+    }
+  }
+
+  // Event ids among the given that have registrations, cancelled or not
+  private async withRegistrations(manager: EntityManager, eventIds: number[]) {
+    if (!eventIds.length) {
+      return new Set<number>();
+    }
+    const rows = await manager
+      .createQueryBuilder(Registration, 'registration')
+      .select('DISTINCT registration.event_id', 'event_id')
+      .where({ event_id: In(eventIds) })
+      .getRawMany<{ event_id: number }>();
+    return new Set(rows.map((row) => Number(row.event_id)));
+  }
+
+  // The DTO checks the fields; the RRULE must also use only supported parts
+  private validate(dto: UpdateEventSeriesDto) {
+    if (dto.rrule !== undefined) {
+      parseRRule(dto.rrule);
+    }
+  }
+
+  private pick(dto: UpdateEventSeriesDto) {
+    const { duration_minutes, timezone, rrule, exdates, auto_publish } = dto;
+    return Object.fromEntries(
+      Object.entries({
+        ...this.templateOf(dto),
+        duration_minutes,
+        timezone,
+        rrule: rrule && formatRRule(parseRRule(rrule)),
+        exdates: exdates && [
+          ...new Set(exdates.map((exdate) => exdate.slice(0, 10))),
+        ],
+        auto_publish,
+      }).filter(([, value]) => value !== undefined),
+    ) as Partial<EventSeries>;
+  }
+
+  private templateOf(source: Template) {
+    return Object.fromEntries(
+      TEMPLATE_FIELDS.map((field) => [field, source[field]]).filter(
+        ([, value]) => value !== undefined,
+      ),
+    ) as Template;
+  }
+
+  private horizonOf(series: EventSeries) {
+    return series.generated_until ?? this.defaultHorizon();
+  }
+
+  private defaultHorizon() {
+    const days = Number(
+      this.configService.get<string>('SERIES_HORIZON_DAYS', '90'),
+    );
+    return new Date(Date.now() + days * 86400000);
+  }
+}
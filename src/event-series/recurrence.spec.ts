@@ -0,0 +1,198 @@
+import {
+  countBefore,
+  formatRRule,
+  occurrences,
+  parseRRule,
+  Schedule,
+  splitRRule,
+  zonedTime,
+} from './recurrence';
+
+// A schedule starting at the given instant; one hour long unless overridden
+const schedule = (
+  startsAt: string,
+  rrule: string,
+  overrides: Partial<Schedule> = {},
+): Schedule => ({
+  starts_at: new Date(startsAt),
+  timezone: 'UTC',
+  duration_minutes: 60,
+  rrule,
+  exdates: [],
+  ...overrides,
+});
+
+const FROM = new Date('2000-01-01T00:00:00Z');
+const UNTIL = new Date('2030-01-01T00:00:00Z');
+
+const dates = (series: Schedule, limit = 50) =>
+  occurrences(series, FROM, UNTIL, limit).map((occurrence) => occurrence.date);
+
+describe('occurrences', () => {
+  it('repeats on the weekdays of a weekly BYDAY', () => {
+    const series = schedule(
+      '2025-01-07T17:30:00Z', // Tuesday 18:30 in Berlin
+      'FREQ=WEEKLY;BYDAY=TU,TH;COUNT=4',
+      { timezone: 'Europe/Berlin' },
+    );
+    const result = occurrences(series, FROM, UNTIL, 50);
+    expect(result.map((occurrence) => occurrence.date)).toEqual([
+      '2025-01-07',
+      '2025-01-09',
+      '2025-01-14',
+      '2025-01-16',
+    ]);
+    expect(result[1].starts_at.toISOString()).toBe('2025-01-09T17:30:00.000Z');
+    expect(result[1].ends_at.toISOString()).toBe('2025-01-09T18:30:00.000Z');
+  });
+
+  it('takes the last Friday of each month for BYDAY=-1FR', () => {
+    const series = schedule(
+      '2025-01-31T19:00:00Z',
+      'FREQ=MONTHLY;BYDAY=-1FR;COUNT=4',
+    );
+    expect(dates(series)).toEqual([
+      '2025-01-31',
+      '2025-02-28',
+      '2025-03-28',
+      '2025-04-25',
+    ]);
+  });
+
+  it('skips months without the day of a BYMONTHDAY=31', () => {
+    const series = schedule(
+      '2025-01-31T09:00:00Z',
+      'FREQ=MONTHLY;BYMONTHDAY=31;COUNT=4',
+    );
+    expect(dates(series)).toEqual([
+      '2025-01-31',
+      '2025-03-31',
+      '2025-05-31',
+      '2025-07-31',
+    ]);
+  });
+
+  it('counts exception dates towards COUNT', () => {
+    const series = schedule('2025-03-03T10:00:00Z', 'FREQ=DAILY;COUNT=5', {
+      exdates: ['2025-03-04'],
+    });
+    expect(dates(series)).toEqual([
+      '2025-03-03',
+      '2025-03-05',
+      '2025-03-06',
+      '2025-03-07',
+    ]);
+  });
+
+  it('stops after UNTIL, which is inclusive', () => {
+    expect(
+      dates(
+        schedule('2025-03-03T10:00:00Z', 'FREQ=DAILY;UNTIL=20250305T100000Z'),
+      ),
+    ).toEqual(['2025-03-03', '2025-03-04', '2025-03-05']);
+    expect(
+      dates(
+        schedule('2025-03-03T10:00:00Z', 'FREQ=DAILY;UNTIL=20250305T095959Z'),
+      ),
+    ).toEqual(['2025-03-03', '2025-03-04']);
+  });
+
+  it('keeps the local time of day across DST changes', () => {
+    const series = schedule(
+      '2025-03-22T17:00:00Z', // Saturday 18:00 CET
+      'FREQ=WEEKLY;COUNT=3',
+      { timezone: 'Europe/Berlin' },
+    );
+    expect(
+      occurrences(series, FROM, UNTIL, 50).map((occurrence) =>
+        occurrence.starts_at.toISOString(),
+      ),
+    ).toEqual([
+      '2025-03-22T17:00:00.000Z',
+      '2025-03-29T17:00:00.000Z',
+      '2025-04-05T16:00:00.000Z', // 18:00 CEST
+    ]);
+
+    const autumn = schedule(
+      '2025-10-18T16:00:00Z', // Saturday 18:00 CEST
+      'FREQ=WEEKLY;COUNT=2',
+      { timezone: 'Europe/Berlin' },
+    );
+    expect(
+      occurrences(autumn, FROM, UNTIL, 50).map((occurrence) =>
+        occurrence.starts_at.toISOString(),
+      ),
+    ).toEqual(['2025-10-18T16:00:00.000Z', '2025-10-25T16:00:00.000Z']);
+  });
+
+  it('moves a time skipped by DST forward by the gap', () => {
+    // 02:30 does not exist in Berlin on 2025-03-30; it becomes 03:30 CEST
+    expect(
+      zonedTime('2025-03-30', '02:30', 'Europe/Berlin').toISOString(),
+    ).toBe('2025-03-30T01:30:00.000Z');
+  });
+
+  it('leaves out occurrences before from and stops at the limit', () => {
+    const series = schedule('2025-03-03T10:00:00Z', 'FREQ=DAILY;COUNT=10');
+    expect(
+      occurrences(series, new Date('2025-03-05T00:00:00Z'), UNTIL, 2).map(
+        (occurrence) => occurrence.date,
+      ),
+    ).toEqual(['2025-03-05', '2025-03-06']);
+  });
+});
+
+describe('splitRRule', () => {
+  it('carries over what is left of COUNT, exception dates included', () => {
+    const series = schedule(
+      '2025-01-07T10:00:00Z',
+      'FREQ=WEEKLY;BYDAY=TU;COUNT=6',
+      { exdates: ['2025-01-14'] },
+    );
+    const date = '2025-01-28';
+    const splitAt = new Date('2025-01-28T10:00:00Z');
+    expect(countBefore(series, date)).toBe(3);
+
+    const { head, tail } = splitRRule(series, date, splitAt);
+    expect(tail).toBe('FREQ=WEEKLY;BYDAY=TU;COUNT=3');
+    // As the service splits the exception dates
+    const before = dates({
+      ...series,
+      rrule: head,
+      exdates: series.exdates.filter((exdate) => exdate < date),
+    });
+    const after = dates({
+      ...series,
+      starts_at: splitAt,
+      rrule: tail,
+      exdates: series.exdates.filter((exdate) => exdate >= date),
+    });
+    expect(before).toEqual(['2025-01-07', '2025-01-21']);
+    expect(after).toEqual(['2025-01-28', '2025-02-04', '2025-02-11']);
+    expect([...before, ...after]).toEqual(dates(series));
+  });
+
+  it('ends the first part just before the split', () => {
+    const series = schedule('2025-03-03T10:00:00Z', 'FREQ=DAILY');
+    const { head, tail } = splitRRule(
+      series,
+      '2025-03-05',
+      new Date('2025-03-05T10:00:00Z'),
+    );
+    expect(head).toBe('FREQ=DAILY;UNTIL=20250305T095959Z');
+    expect(tail).toBe('FREQ=DAILY');
+  });
+});
+
+describe('parseRRule', () => {
+  it('round-trips through formatRRule', () => {
+    const rule = 'FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR;UNTIL=20251231T235959Z';
+    expect(formatRRule(parseRRule(rule))).toBe(rule);
+  });
+
+  it('refuses COUNT together with UNTIL', () => {
+    expect(() =>
+      parseRRule('FREQ=DAILY;COUNT=3;UNTIL=20251231T235959Z'),
+    ).toThrow('RRULE cannot have both COUNT and UNTIL');
+  });
+});
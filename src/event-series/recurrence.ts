@@ -0,0 +1,379 @@
+import { BadRequestException } from '@nestjs/common';
+
+// The subset of RFC 5545 RRULE that series understand, e.g.
+// FREQ=WEEKLY;BYDAY=TU,TH;COUNT=10 or FREQ=MONTHLY;BYDAY=-1FR;UNTIL=20251231T235959Z
+export interface Recurrence {
+  freq: 'DAILY' | 'WEEKLY' | 'MONTHLY';
+  interval: number;
+  byDay: { weekday: number; ordinal: number | null }[]; // 0 is Monday; ordinal as in 2TU or -1FR
+  byMonthDay: number[]; // Negative counts from the end of the month
+  count: number | null;
+  until: Date | null;
+}
+
+// What expansion needs from a series
+export interface Schedule {
+  starts_at: Date; // First occurrence; its local time of day is kept for all
+  timezone: string;
+  duration_minutes: number;
+  rrule: string;
+  exdates: string[]; // Local dates (YYYY-MM-DD) left out of the series
+}
+
+export interface Occurrence {
+  date: string; // Local date in the series timezone
+  starts_at: Date;
+  ends_at: Date;
+}
+
+const WEEKDAYS = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const DAY_MS = 86400000;
+
+export function parseRRule(rule: string): Recurrence {
+  const recurrence: Recurrence = {
+    freq: 'WEEKLY',
+    interval: 1,
+    byDay: [],
+    byMonthDay: [],
+    count: null,
+    until: null,
+  };
+  let freq: string | undefined;
+  const parts = rule
+    .trim()
+    .replace(/^RRULE:/i, '')
+    .split(';');
+  for (const part of parts) {
+    const [key, value = ''] = part.split('=');
+    switch (key.toUpperCase()) {
+      case 'FREQ':
+        freq = value.toUpperCase();
+        break;
+      case 'INTERVAL':
+        recurrence.interval = positiveInt(value, 'INTERVAL');
+        break;
+      case 'COUNT':
+        recurrence.count = positiveInt(value, 'COUNT');
+        break;
+      case 'UNTIL':
+        recurrence.until = parseUntil(value);
+        break;
+      case 'BYDAY':
+        recurrence.byDay = value.split(',').map(parseByDay);
+        break;
+      case 'BYMONTHDAY':
+        recurrence.byMonthDay = value.split(',').map((day) => {
+          const n = Number(day);
+          if (!Number.isInteger(n) || n === 0 || Math.abs(n) > 31) {
+            throw new BadRequestException(`Invalid BYMONTHDAY ${day}`);
+          }
+          return n;
+        });
+        break;
+      default:
+        throw new BadRequestException(
+          `Unsupported RRULE part ${part}; use FREQ, INTERVAL, BYDAY, BYMONTHDAY, COUNT and UNTIL`,
+        );
+    }
+  }
+  if (freq !== 'DAILY' && freq !== 'WEEKLY' && freq !== 'MONTHLY') {
+    throw new BadRequestException('RRULE needs FREQ=DAILY, WEEKLY or MONTHLY');
+  }
+  recurrence.freq = freq;
+  if (recurrence.count !== null && recurrence.until !== null) {
+    throw new BadRequestException('RRULE cannot have both COUNT and UNTIL');
+  }
+  if (freq !== 'MONTHLY') {
+    if (recurrence.byMonthDay.length) {
+      throw new BadRequestException('BYMONTHDAY needs FREQ=MONTHLY');
+    }
+    if (recurrence.byDay.some((day) => day.ordinal !== null)) {
+      throw new BadRequestException('Numbered BYDAY needs FREQ=MONTHLY');
+    }
+  }
+  if (recurrence.byDay.length && recurrence.byMonthDay.length) {
+    throw new BadRequestException('Use either BYDAY or BYMONTHDAY, not both');
+  }
+  if (freq === 'DAILY' && recurrence.byDay.length) {
+    throw new BadRequestException('BYDAY needs FREQ=WEEKLY or MONTHLY');
+  }
+  return recurrence;
+}
+
+export function formatRRule(recurrence: Recurrence) {
+  const parts = [`FREQ=${recurrence.freq}`];
+  if (recurrence.interval !== 1) {
+    parts.push(`INTERVAL=${recurrence.interval}`);
+  }
+  if (recurrence.byDay.length) {
+    const days = recurrence.byDay.map(
+      (day) => `${day.ordinal ?? ''}${WEEKDAYS[day.weekday]}`,
+    );
+    parts.push(`BYDAY=${days.join(',')}`);
+  }
+  if (recurrence.byMonthDay.length) {
+    parts.push(`BYMONTHDAY=${recurrence.byMonthDay.join(',')}`);
+  }
+  if (recurrence.count !== null) {
+    parts.push(`COUNT=${recurrence.count}`);
+  }
+  if (recurrence.until !== null) {
+    const iso = recurrence.until.toISOString();
+    parts.push(`UNTIL=${iso.slice(0, 19).replace(/[-:]/g, '')}Z`);
+  }
+  return parts.join(';');
+}
+
+// Occurrences starting in [from, until], at most limit of them, without the
+// exception dates
+export function occurrences(
+  schedule: Schedule,
+  from: Date,
+  until: Date,
+  limit: number,
+) {
+  const excluded = new Set(schedule.exdates);
+  const result: Occurrence[] = [];
+  for (const occurrence of expand(schedule, until)) {
+    if (result.length >= limit) {
+      break;
+    }
+    if (occurrence.starts_at >= from && !excluded.has(occurrence.date)) {
+      result.push(occurrence);
+    }
+  }
+  return result;
+}
+
+// How many occurrences the rule produced before the given local date,
+// exception dates included, as COUNT counts them
+export function countBefore(schedule: Schedule, date: string) {
+  let count = 0;
+  for (const occurrence of expand(schedule, null)) {
+    if (occurrence.date >= date) {
+      break;
+    }
+    count++;
+  }
+  return count;
+}
+
+// The rules of a series split at a local date: the first part ends just
+// before splitAt, the second starts there with what is left of a COUNT
+export function splitRRule(schedule: Schedule, date: string, splitAt: Date) {
+  const rule = parseRRule(schedule.rrule);
+  const before = countBefore(schedule, date);
+  return {
+    head: formatRRule({
+      ...rule,
+      count: null,
+      until: new Date(splitAt.getTime() - 1000),
+    }),
+    tail: formatRRule({
+      ...rule,
+      count: rule.count === null ? null : rule.count - before,
+    }),
+  };
+}
+
+// Wall-clock date and time of an instant in a timezone
+export function localParts(instant: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+      .formatToParts(instant)
+      .map((part) => [part.type, part.value]),
+  );
+  return {
+    date: `${parts.year}-${parts.month}-${parts.day}`,
+    time: `${parts.hour}:${parts.minute}:${parts.second}`,
+  };
+}
+
+// The instant a wall-clock date and time happen in a timezone. Times skipped
+// by a DST change move forward by the size of the gap.
+export function zonedTime(date: string, time: string, timeZone: string) {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute, second = 0] = time.split(':').map(Number);
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second);
+  const offsetAt = (instant: number) => {
+    const local = localParts(new Date(instant), timeZone);
+    const [y, mo, d] = local.date.split('-').map(Number);
+    const [h, mi, s] = local.time.split(':').map(Number);
+    return Date.UTC(y, mo - 1, d, h, mi, s) - instant;
+  };
+  // The offset at the first guess may be on the other side of a DST change
+  const guess = wall - offsetAt(wall);
+  return new Date(wall - offsetAt(guess));
+}
+
+// Every occurrence of the rule in order, up to the rule's own end and, if
+// given, the horizon
+function* expand(schedule: Schedule, horizon: Date | null) {
+  const rule = parseRRule(schedule.rrule);
+  const start = localParts(schedule.starts_at, schedule.timezone);
+  const firstDay = toDayNumber(start.date);
+  const durationMs = schedule.duration_minutes * 60000;
+  let produced = 0;
+  for (let period = 0; ; period++) {
+    const days = periodDays(rule, firstDay, period);
+    if (days.periodStart === null) {
+      return;
+    }
+    // Periods only move forward, so stop once one begins past the horizon
+    const periodStart = zonedTime(
+      fromDayNumber(days.periodStart),
+      '00:00',
+      schedule.timezone,
+    );
+    if (horizon && periodStart > horizon) {
+      return;
+    }
+    for (const day of days.days) {
+      if (day < firstDay) {
+        continue;
+      }
+      const date = fromDayNumber(day);
+      const startsAt = zonedTime(date, start.time, schedule.timezone);
+      if (
+        (rule.count !== null && produced >= rule.count) ||
+        (rule.until && startsAt > rule.until) ||
+        (horizon && startsAt > horizon)
+      ) {
+        return;
+      }
+      produced++;
+      yield {
+        date,
+        starts_at: startsAt,
+        ends_at: new Date(startsAt.getTime() + durationMs),
+      } as Occurrence;
+    }
+  }
+}
+
+// Days (as day numbers) the rule picks in its nth period, in order
+function periodDays(rule: Recurrence, firstDay: number, period: number) {
+  if (rule.freq === 'DAILY') {
+    const day = firstDay + period * rule.interval;
+    return { periodStart: day, days: [day] };
+  }
+  if (rule.freq === 'WEEKLY') {
+    const weekStart = firstDay - weekday(firstDay) + period * 7 * rule.interval;
+    const weekdays = rule.byDay.length
+      ? rule.byDay.map((day) => day.weekday)
+      : [weekday(firstDay)];
+    return {
+      periodStart: weekStart,
+      days: [...new Set(weekdays)]
+        .sort((a, b) => a - b)
+        .map((day) => weekStart + day),
+    };
+  }
+
+  const first = new Date(firstDay * DAY_MS);
+  const monthIndex =
+    first.getUTCFullYear() * 12 + first.getUTCMonth() + period * rule.interval;
+  const year = Math.floor(monthIndex / 12);
+  const month = monthIndex % 12;
+  if (year > 9999) {
+    return { periodStart: null, days: [] };
+  }
+  const monthStart = Math.floor(Date.UTC(year, month, 1) / DAY_MS);
+  const length = Math.floor(Date.UTC(year, month + 1, 1) / DAY_MS) - monthStart;
+  const days = new Set<number>();
+  for (const { weekday: wanted, ordinal } of rule.byDay) {
+    const matching: number[] = [];
+    for (let day = monthStart; day < monthStart + length; day++) {
+      if (weekday(day) === wanted) {
+        matching.push(day);
+      }
+    }
+    if (ordinal === null) {
+      matching.forEach((day) => days.add(day));
+    } else {
+      const day = matching.at(ordinal > 0 ? ordinal - 1 : ordinal);
+      if (day !== undefined) {
+        days.add(day);
+      }
+    }
+  }
+  const monthDays = rule.byMonthDay.length
+    ? rule.byMonthDay
+    : rule.byDay.length
+      ? []
+      : [first.getUTCDate()];
+  for (const monthDay of monthDays) {
+    const offset = monthDay > 0 ? monthDay - 1 : length + monthDay;
+    if (offset >= 0 && offset < length) {
+      days.add(monthStart + offset);
+    }
+  }
+  return {
+    periodStart: monthStart,
+    days: [...days].sort((a, b) => a - b),
+  };
+}
+
+function parseByDay(value: string) {
+  const match = /^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/i.exec(value.trim());
+  const ordinal = match?.[1] ? Number(match[1]) : null;
+  if (!match || ordinal === 0 || (ordinal !== null && Math.abs(ordinal) > 5)) {
+    throw new BadRequestException(`Invalid BYDAY ${value}`);
+  }
+  return { weekday: WEEKDAYS.indexOf(match[2].toUpperCase()), ordinal };
+}
+
+function parseUntil(value: string) {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/.exec(
+    value,
+  );
+  const until = match
+    ? new Date(
+        Date.UTC(
+          Number(match[1]),
+          Number(match[2]) - 1,
+          Number(match[3]),
+          Number(match[4] ?? 23),
+          Number(match[5] ?? 59),
+          Number(match[6] ?? 59),
+        ),
+      )
+    : new Date(NaN);
+  if (Number.isNaN(until.getTime())) {
+    throw new BadRequestException(
+      `Invalid UNTIL ${value}; use YYYYMMDD or YYYYMMDDTHHMMSSZ`,
+    );
+  }
+  return until;
+}
+
+function positiveInt(value: string, field: string) {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) {
+    throw new BadRequestException(`${field} must be a positive integer`);
+  }
+  return n;
+}
+
+function toDayNumber(date: string) {
+  const [year, month, day] = date.split('-').map(Number);
+  return Math.floor(Date.UTC(year, month - 1, day) / DAY_MS);
+}
+
+function fromDayNumber(day: number) {
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+// 0 is Monday; day 0 (1970-01-01) was a Thursday
+function weekday(day: number) {
+  return (((day + 3) % 7) + 7) % 7;
+}
@@ -1,31 +1,112 @@
-import { ApiProperty } from "@nestjs/swagger";
-import { IsNotEmpty, IsString } from "class-validator";
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsDateString,
+  IsInt,
+  IsLatitude,
+  IsLongitude,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsTimeZone,
+  Max,
+  Min,
+} from 'class-validator';
 
 export class CreateEventDto {
-    @ApiProperty()
-    @IsNotEmpty()
-    @IsString()
-    event_name: string;
-
-    @ApiProperty()
-    @IsNotEmpty()
-    @IsString()
-    event_date: string;
-
-    @ApiProperty()
-    @IsNotEmpty()
-    @IsString()
-    event_location: string;
-
-    @ApiProperty()
-    @IsNotEmpty()
-    @IsString()
-    event_description: string;
-
-    @ApiProperty()
-    @IsNotEmpty()
-    created_by: number; // Reference to userstable (organizer)
-
-    created_at: string;
-    updated_at: string;
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsString()
+  event_name: string;
+
+  @ApiProperty({
+    example: '2024-12-15T09:00:00+01:00',
+    description: 'ISO 8601 with an offset or Z',
+  })
+  @IsDateString()
+  starts_at: string;
+
+  @ApiProperty({
+    example: '2024-12-15T18:00:00+01:00',
+    description: 'Must be after starts_at',
+  })
+  @IsDateString()
+  ends_at: string;
+
+  @ApiProperty({ required: false, default: 'UTC', example: 'Europe/Berlin' })
+  @IsOptional()
+  @IsTimeZone()
+  timezone?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Defaults to the room and venue when room_id is given',
+  })
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  event_location: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Room to book; refused with 409 when it is taken at that time',
+  })
+  @IsOptional()
+  @IsInt()
+  room_id?: number;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsString()
+  event_description: string;
+
+  @ApiProperty({
+    required: false,
+    example: 52.52,
+    description: 'Coordinates make the event findable by distance; give both',
+  })
+  @IsOptional()
+  @IsLatitude()
+  latitude?: number;
+
+  @ApiProperty({ required: false, example: 13.405 })
+  @IsOptional()
+  @IsLongitude()
+  longitude?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Leave empty for unlimited capacity',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  capacity?: number;
+
+  @ApiProperty({
+    required: false,
+    default: 7,
+    description:
+      'Full refund when cancelling at least this many days before the event',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  refund_full_days_before?: number;
+
+  @ApiProperty({
+    required: false,
+    default: 50,
+    description:
+      'Percentage refunded when cancelling later, until the event starts',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(100)
+  refund_partial_percent?: number;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsInt()
+  created_by: number; // Reference to userstable (organizer)
 }
@@ -0,0 +1,72 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsDateString,
+  IsEnum,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+} from 'class-validator';
+import { PaginationQueryDto } from 'src/common/pagination/pagination-query.dto';
+import { eventStatus } from '../entities/event.entity';
+
+export const EVENT_SORT_FIELDS = [
+  'event_id',
+  'event_name',
+  'starts_at',
+  'ends_at',
+  'created_at',
+] as const;
+
+// Relative to the moment of the request, whatever the event's timezone
+export enum eventTiming {
+  Upcoming = 'upcoming', // Not started yet
+  Ongoing = 'ongoing', // Started and not ended
+  Past = 'past', // Ended
+}
+
+export class EventQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: EVENT_SORT_FIELDS, default: 'event_id' })
+  @IsOptional()
+  @IsIn(EVENT_SORT_FIELDS)
+  sort?: (typeof EVENT_SORT_FIELDS)[number];
+
+  @ApiPropertyOptional({ enum: eventStatus })
+  @IsOptional()
+  @IsEnum(eventStatus)
+  status?: eventStatus;
+
+  @ApiPropertyOptional({ enum: eventTiming })
+  @IsOptional()
+  @IsEnum(eventTiming)
+  when?: eventTiming;
+
+  // A date without a time is a calendar day in each event's own timezone
+  @ApiPropertyOptional({
+    description: 'Events still running on or after this date or instant',
+  })
+  @IsOptional()
+  @IsDateString()
+  from?: string;
+
+  @ApiPropertyOptional({
+    description: 'Events starting on or before this date or instant',
+  })
+  @IsOptional()
+  @IsDateString()
+  to?: string;
+
+  @ApiPropertyOptional({ description: 'Occurrences of this event series' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  series_id?: number;
+
+  @ApiPropertyOptional({
+    description: 'Case-insensitive match on part of the location',
+  })
+  @IsOptional()
+  @IsString()
+  location?: string;
+}
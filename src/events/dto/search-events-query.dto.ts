@@ -0,0 +1,47 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsLatitude,
+  IsLongitude,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { EventQueryDto } from './event-query.dto';
+
+// Every filter of GET /events applies to search results as well. Without an
+// explicit sort, results come best match first, then nearest first.
+export class SearchEventsQueryDto extends EventQueryDto {
+  @ApiPropertyOptional({
+    example: 'jazz "open air" -indoor',
+    description:
+      'Words to find in the name, location or description; supports quoted phrases, OR and -word',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  q?: string;
+
+  @ApiPropertyOptional({ example: 52.52, description: 'Requires lng' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsLatitude()
+  lat?: number;
+
+  @ApiPropertyOptional({ example: 13.405, description: 'Requires lat' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsLongitude()
+  lng?: number;
+
+  @ApiPropertyOptional({ default: 25, maximum: 500 })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  @Min(0.1)
+  @Max(500)
+  radius_km?: number;
+}
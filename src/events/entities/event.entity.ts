@@ -1,6 +1,42 @@
-import { Column, Entity, PrimaryGeneratedColumn } from 'typeorm';
+import {
+  Check,
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { Feedback } from 'src/feedback/entities/feedback.entity';
+import { TicketType } from 'src/ticket-types/entities/ticket-type.entity';
+import { EventSeries } from 'src/event-series/entities/event-series.entity';
+import { Room } from 'src/venues/entities/room.entity';
+
+// Lifecycle of an event, see event-lifecycle.ts for the allowed transitions
+export enum eventStatus {
+  Draft = 'Draft', // Only visible to its organizer
+  Published = 'Published', // Open for registration until it starts
+  Cancelled = 'Cancelled',
+  Completed = 'Completed', // Ended; feedback is accepted from now on
+}
 
 @Entity('events')
+@Check('CHK_events_ends_after_starts', '"ends_at" > "starts_at"')
+@Check(
+  'CHK_events_refund_policy',
+  '"refund_full_days_before" >= 0 AND "refund_partial_percent" BETWEEN 0 AND 100',
+)
+@Index(['series_id', 'occurrence_date'], { unique: true })
+@Index(['latitude', 'longitude'])
+@Index(['room_id', 'starts_at'])
+// GIN index on the full-text document of event-search.ts; created by migration
+// only, since TypeORM cannot describe expression indexes
+@Index('IDX_events_search', { synchronize: false })
 export class Event {
   @PrimaryGeneratedColumn()
   event_id: number;
@@ -8,8 +44,17 @@ export class Event {
   @Column({ type: 'varchar', length: 50 })
   event_name: string;
 
-  @Column({ type: 'varchar', length: 250 })
-  event_date: string;
+  // Absolute instants; timezone says where the event happens, for display
+  // and for interpreting date-only filters
+  @Index()
+  @Column({ type: 'timestamptz' })
+  starts_at: Date;
+
+  @Column({ type: 'timestamptz' })
+  ends_at: Date;
+
+  @Column({ type: 'varchar', length: 64, default: 'UTC' })
+  timezone: string; // IANA name, e.g. Europe/Berlin
 
   @Column({ type: 'varchar', length: 250 })
   event_location: string;
@@ -17,12 +62,96 @@ export class Event {
   @Column({ type: 'varchar', length: 250 })
   event_description: string;
 
-  @Column({ type: 'varchar', length: 250 })
+  // Booked room, if any; no two events that are not cancelled may overlap in it
+  @Column({ type: 'int', nullable: true })
+  room_id: number | null;
+
+  // Where the event takes place, for searching by distance; both or neither
+  @Column({ type: 'double precision', nullable: true })
+  latitude: number | null;
+
+  @Column({ type: 'double precision', nullable: true })
+  longitude: number | null;
+
+  @Column({ type: 'int', nullable: true })
+  capacity: number | null; // Maximum confirmed registrations, null means unlimited
+
+  // Cancellation policy: a full refund up to this many days before the event,
+  // refund_partial_percent after that, and nothing once it has started
+  @Column({ type: 'int', default: 7 })
+  refund_full_days_before: number;
+
+  @Column({ type: 'int', default: 50 })
+  refund_partial_percent: number;
+
+  @Column({
+    type: 'enum',
+    enum: eventStatus,
+    default: eventStatus.Draft,
+  })
+  status: eventStatus;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  published_at: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  cancelled_at: Date | null; // Set when the organizer cancels the whole event
+
+  @Column({ type: 'int' })
   created_by: number; // Reference to userstable (organizer)
 
-  @Column()
+  // Occurrences of a series: the local date the rule put them on, and whether
+  // they were edited on their own, in which case series edits leave them be
+  @Column({ type: 'int', nullable: true })
+  series_id: number | null;
+
+  @Column({ type: 'date', nullable: true })
+  occurrence_date: string | null;
+
+  @Column({ type: 'boolean', default: false })
+  detached: boolean;
+
+  @Column({ type: 'int', default: 0 })
+  sequence: number; // iCalendar SEQUENCE, see nextSequence()
+
+  @CreateDateColumn()
   created_at: Date;
 
-  @Column()
+  @UpdateDateColumn()
   updated_at: Date;
+
+  // An organizer cannot be deleted while they have events
+  @ManyToOne(() => User, (user) => user.events, { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'created_by' })
+  organizer: User;
+
+  // The event stays when its series is deleted
+  @ManyToOne(() => EventSeries, (series) => series.occurrences, {
+    onDelete: 'SET NULL',
+  })
+  @JoinColumn({ name: 'series_id' })
+  series: EventSeries | null;
+
+  // Past events keep their location when the room is removed
+  @ManyToOne(() => Room, (room) => room.events, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'room_id' })
+  room: Room | null;
+
+  @OneToMany(() => Registration, (registration) => registration.event)
+  registrations: Registration[];
+
+  @OneToMany(() => Feedback, (feedback) => feedback.event)
+  feedbacks: Feedback[];
+
+  @OneToMany(() => TicketType, (ticketType) => ticketType.event)
+  ticket_types: TicketType[];
+
+  // Computed on read: number of confirmed registrations
+  registration_count?: number;
+
+  // Computed by search: relevance to the text query, distance from the
+  // searched point, and the matched words highlighted
+  rank?: number;
+  distance_km?: number;
+  highlights?: { event_name: string; event_description: string };
 }
@@ -0,0 +1,66 @@
+import { ConflictException } from '@nestjs/common';
+import { Event, eventStatus } from './entities/event.entity';
+
+type Lifecycle = Pick<Event, 'event_id' | 'status' | 'ends_at'>;
+
+type Revision = Pick<Event, 'starts_at' | 'ends_at' | 'status'>;
+
+// Where each status may go next; Cancelled and Completed are final
+const TRANSITIONS: Record<eventStatus, eventStatus[]> = {
+  [eventStatus.Draft]: [eventStatus.Published, eventStatus.Cancelled],
+  [eventStatus.Published]: [eventStatus.Completed, eventStatus.Cancelled],
+  [eventStatus.Cancelled]: [],
+  [eventStatus.Completed]: [],
+};
+
+// A published event completes by itself once it ends, so the status is read
+// through here rather than straight from the column
+export function currentStatus(event: Lifecycle, now = new Date()) {
+  return event.status === eventStatus.Published &&
+    new Date(event.ends_at) <= now
+    ? eventStatus.Completed
+    : event.status;
+}
+
+// SQL counterpart of currentStatus() for filtering; expects :now to be bound
+export function statusCondition(alias: string, status: eventStatus) {
+  const ended = `${alias}.ends_at <= :now`;
+  switch (status) {
+    case eventStatus.Published:
+      return `(${alias}.status = '${eventStatus.Published}' AND NOT ${ended})`;
+    case eventStatus.Completed:
+      return `(${alias}.status = '${eventStatus.Completed}' OR (${alias}.status = '${eventStatus.Published}' AND ${ended}))`;
+    default:
+      return `${alias}.status = '${status}'`;
+  }
+}
+
+// The iCalendar SEQUENCE of an event after the given changes. Calendar apps
+// only take a copy with a higher SEQUENCE as newer, so it goes up whenever
+// the time or the status changes.
+export function nextSequence(
+  event: Revision & Pick<Event, 'sequence'>,
+  changes: Partial<Revision>,
+) {
+  const moved = (['starts_at', 'ends_at'] as const).some(
+    (field) =>
+      changes[field] !== undefined &&
+      new Date(changes[field]).getTime() !== new Date(event[field]).getTime(),
+  );
+  const restated =
+    changes.status !== undefined && changes.status !== event.status;
+  return moved || restated ? event.sequence + 1 : event.sequence;
+}
+
+export function assertTransition(
+  event: Lifecycle,
+  to: eventStatus,
+  now = new Date(),
+) {
+  const from = currentStatus(event, now);
+  if (!TRANSITIONS[from].includes(to)) {
+    throw new ConflictException(
+      `Event ${event.event_id} is ${from} and cannot become ${to}`,
+    );
+  }
+}
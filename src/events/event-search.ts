@@ -0,0 +1,62 @@
+// SQL building blocks for GET /events/search
+
+const CONFIG = 'english';
+
+// Weighted document searched by full text: name over location over description.
+// Must stay identical to the expression of IDX_events_search (see the
+// EventSearch migration), or Postgres cannot use the index.
+export function searchDocument(alias: string) {
+  return (
+    `setweight(to_tsvector('${CONFIG}', ${alias}.event_name), 'A') || ` +
+    `setweight(to_tsvector('${CONFIG}', ${alias}.event_location), 'B') || ` +
+    `setweight(to_tsvector('${CONFIG}', ${alias}.event_description), 'C')`
+  );
+}
+
+// Web-search syntax: quoted phrases, OR and -exclusions; expects :q to be bound
+export const SEARCH_QUERY = `websearch_to_tsquery('${CONFIG}', :q)`;
+
+export function searchRank(alias: string) {
+  return `ts_rank(${searchDocument(alias)}, ${SEARCH_QUERY})`;
+}
+
+// Matched words wrapped in <mark>; the name is kept whole, the description cut
+// down to the fragment around the matches
+export function searchHeadline(alias: string, column: string) {
+  const options =
+    column === 'event_description'
+      ? 'StartSel=<mark>, StopSel=</mark>, MinWords=15, MaxWords=35'
+      : 'StartSel=<mark>, StopSel=</mark>, HighlightAll=true';
+  return `ts_headline('${CONFIG}', ${alias}.${column}, ${SEARCH_QUERY}, '${options}')`;
+}
+
+const EARTH_RADIUS_KM = 6371;
+const KM_PER_DEGREE = 111.045;
+
+// Great-circle (haversine) distance in km; expects :lat and :lng to be bound.
+// least() keeps rounding errors from pushing asin() out of its domain.
+export function distanceKm(alias: string) {
+  return (
+    `${EARTH_RADIUS_KM} * 2 * asin(least(1, sqrt(` +
+    `power(sin(radians(${alias}.latitude - :lat) / 2), 2) + ` +
+    `cos(radians(:lat)) * cos(radians(${alias}.latitude)) * ` +
+    `power(sin(radians(${alias}.longitude - :lng) / 2), 2))))`
+  );
+}
+
+// Coordinates box around the point that contains the whole radius, so the
+// index on (latitude, longitude) narrows rows before distances are computed.
+// Near the poles or across the antimeridian it spans every longitude.
+export function boundingBox(lat: number, lng: number, radiusKm: number) {
+  const latDelta = radiusKm / KM_PER_DEGREE;
+  const cosLat = Math.cos((lat * Math.PI) / 180);
+  const lngDelta =
+    cosLat > 0.01 ? radiusKm / (KM_PER_DEGREE * cosLat) : Infinity;
+  const wraps = lng - lngDelta < -180 || lng + lngDelta > 180;
+  return {
+    minLat: lat - latDelta,
+    maxLat: lat + latDelta,
+    minLng: wraps ? -180 : lng - lngDelta,
+    maxLng: wraps ? 180 : lng + lngDelta,
+  };
+}
@@ -1,33 +1,172 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  HttpCode,
+  Req,
+  StreamableFile,
+} from '@nestjs/common';
 import { EventsService } from './events.service';
 import { CreateEventDto } from './dto/create-event.dto';
 import { UpdateEventDto } from './dto/update-event.dto';
+import { RegistrationsService } from 'src/registrations/registrations.service';
+import { Roles } from 'src/auth/decorators/role.decorator';
+import {
+  CheckPolicy,
+  PolicyResource,
+} from 'src/auth/decorators/check-policy.decorator';
+import { ROLE_MATRIX } from 'src/auth/role-matrix';
+import { ListQueryPipe } from 'src/common/pagination/list-query.pipe';
+import { EventQueryDto } from './dto/event-query.dto';
+import { SearchEventsQueryDto } from './dto/search-events-query.dto';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import type { RequestWithSession } from 'src/auth/interfaces/request-with-user.interface';
+import { TicketsService } from 'src/tickets/tickets.service';
+import { CheckInDto } from 'src/tickets/dto/check-in.dto';
+import { CalendarService } from 'src/calendar/calendar.service';
+import { FeedbackService } from 'src/feedback/feedback.service';
+import { StatsService } from 'src/stats/stats.service';
+import { StatsQueryDto } from 'src/stats/dto/stats-query.dto';
 
+@ApiBearerAuth('access-token')
+@ApiTags('Events')
 @Controller('events')
 export class EventsController {
-  constructor(private readonly eventsService: EventsService) {}
+  constructor(
+    private readonly eventsService: EventsService,
+    private readonly registrationsService: RegistrationsService,
+    private readonly ticketsService: TicketsService,
+    private readonly calendarService: CalendarService,
+    private readonly feedbackService: FeedbackService,
+    private readonly statsService: StatsService,
+  ) {}
 
   @Post()
+  @Roles(...ROLE_MATRIX.events.create)
+  @CheckPolicy(PolicyResource.Event, 'create') // created_by must be the caller
   create(@Body() createEventDto: CreateEventDto) {
     return this.eventsService.create(createEventDto);
   }
 
   @Get()
-  findAll() {
-    return this.eventsService.findAll();
+  @Roles(...ROLE_MATRIX.events.findAll)
+  findAll(
+    @Query(ListQueryPipe) query: EventQueryDto,
+    @Req() req: RequestWithSession,
+  ) {
+    return this.eventsService.findAll(query, req.user);
+  }
+
+  // Declared before :id so "search" is not taken for an event ID
+  @Get('search')
+  @Roles(...ROLE_MATRIX.events.search)
+  search(
+    @Query(ListQueryPipe) query: SearchEventsQueryDto,
+    @Req() req: RequestWithSession,
+  ) {
+    return this.eventsService.search(query, req.user);
+  }
+
+  // Also before :id, which would take "5.ics" for an ID
+  @Get(':id.ics')
+  @Roles(...ROLE_MATRIX.events.findOne)
+  async getCalendarFile(
+    @Param('id') id: string,
+    @Req() req: RequestWithSession,
+  ) {
+    const event = await this.eventsService.findOne(+id, req.user);
+    return new StreamableFile(
+      Buffer.from(this.calendarService.eventFile(event)),
+      {
+        type: 'text/calendar; charset=utf-8',
+        disposition: `attachment; filename="event-${event.event_id}.ics"`,
+      },
+    );
   }
 
   @Get(':id')
-  findOne(@Param('id') id: string) {
-    return this.eventsService.findOne(+id);
+  @Roles(...ROLE_MATRIX.events.findOne)
+  findOne(@Param('id') id: string, @Req() req: RequestWithSession) {
+    return this.eventsService.findOne(+id, req.user);
+  }
+
+  // Drafts become visible and open for registration
+  @Post(':id/publish')
+  @Roles(...ROLE_MATRIX.events.publish)
+  @CheckPolicy(PolicyResource.Event) // Only the organizer of the event
+  publish(@Param('id') id: string) {
+    return this.eventsService.publish(+id);
+  }
+
+  @Get(':id/waitlist')
+  @Roles(...ROLE_MATRIX.events.waitlist) // Only organizers and admins can see who is waiting for a seat
+  @CheckPolicy(PolicyResource.Event)
+  getWaitlist(@Param('id') id: string) {
+    return this.registrationsService.getWaitlist(+id);
+  }
+
+  // Cancels every registration and refunds it in full
+  @Post(':id/cancel')
+  @Roles(...ROLE_MATRIX.events.cancel)
+  @CheckPolicy(PolicyResource.Event) // Only the organizer of the event
+  cancel(@Param('id') id: string) {
+    return this.registrationsService.cancelEvent(+id);
+  }
+
+  // Staff scan the QR code at the door; each ticket gets in once
+  @Post(':id/check-in')
+  @HttpCode(200)
+  @Roles(...ROLE_MATRIX.events.checkIn)
+  @CheckPolicy(PolicyResource.Event) // Only the organizer of the event
+  checkIn(
+    @Param('id') id: string,
+    @Body() checkInDto: CheckInDto,
+    @Req() req: RequestWithSession,
+  ) {
+    return this.ticketsService.checkIn(+id, checkInDto.token, req.user.user_id);
+  }
+
+  @Get(':id/attendance')
+  @Roles(...ROLE_MATRIX.events.attendance)
+  @CheckPolicy(PolicyResource.Event)
+  getAttendance(@Param('id') id: string) {
+    return this.ticketsService.attendance(+id);
+  }
+
+  // Registrations, payments, check-in and feedback figures for the organizer
+  @Get(':id/stats')
+  @Roles(...ROLE_MATRIX.stats.event)
+  @CheckPolicy(PolicyResource.Event)
+  getStats(
+    @Param('id') id: string,
+    @Query(ListQueryPipe) query: StatsQueryDto,
+  ) {
+    return this.statsService.forEvent(+id, query);
+  }
+
+  // Average, count and histogram of the event's ratings
+  @Get(':id/ratings')
+  @Roles(...ROLE_MATRIX.feedback.ratings)
+  async getRatings(@Param('id') id: string, @Req() req: RequestWithSession) {
+    await this.eventsService.findOne(+id, req.user); // Drafts stay hidden
+    return this.feedbackService.ratings(+id);
   }
 
   @Patch(':id')
+  @Roles(...ROLE_MATRIX.events.update)
+  @CheckPolicy(PolicyResource.Event) // Only the organizer of the event
   update(@Param('id') id: string, @Body() updateEventDto: UpdateEventDto) {
     return this.eventsService.update(+id, updateEventDto);
   }
 
   @Delete(':id')
+  @Roles(...ROLE_MATRIX.events.remove)
+  @CheckPolicy(PolicyResource.Event)
   remove(@Param('id') id: string) {
     return this.eventsService.remove(+id);
   }
@@ -4,12 +4,28 @@ import { EventsController } from './events.controller';
 import { Event } from './entities/event.entity';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { DatabaseModule } from 'src/database/database.module';
+import { RegistrationsModule } from 'src/registrations/registrations.module';
+import { User } from 'src/users/entities/user.entity';
+import { TicketsModule } from 'src/tickets/tickets.module';
+import { EventSeries } from 'src/event-series/entities/event-series.entity';
+import { VenuesModule } from 'src/venues/venues.module';
+import { CalendarModule } from 'src/calendar/calendar.module';
+import { FeedbackModule } from 'src/feedback/feedback.module';
+import { StatsModule } from 'src/stats/stats.module';
 
 @Module({
-  imports: [DatabaseModule, TypeOrmModule.forFeature([Event])],
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([Event, User, EventSeries]),
+    RegistrationsModule,
+    TicketsModule,
+    VenuesModule,
+    CalendarModule,
+    FeedbackModule,
+    StatsModule,
+  ],
   controllers: [EventsController],
   providers: [EventsService],
   exports: [EventsService],
 })
-
 export class EventsModule {}
@@ -1,35 +1,455 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { CreateEventDto } from './dto/create-event.dto';
 import { UpdateEventDto } from './dto/update-event.dto';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
-import { Event } from './entities/event.entity';
+import { DataSource, Repository } from 'typeorm';
+import { Event, eventStatus } from './entities/event.entity';
+import { EventSeries } from 'src/event-series/entities/event-series.entity';
+import { Room } from 'src/venues/entities/room.entity';
+import { VenuesService } from 'src/venues/venues.service';
+import { RegistrationsService } from 'src/registrations/registrations.service';
+import { User, UserRole } from 'src/users/entities/user.entity';
+import {
+  Registration,
+  registrationStatus,
+} from 'src/registrations/entities/registration.entity';
+import type { RequestWithSession } from 'src/auth/interfaces/request-with-user.interface';
+import { coordinates } from 'src/common/coordinates';
+import { paginate, PaginateOptions } from 'src/common/pagination/paginate';
+import { EventQueryDto, eventTiming } from './dto/event-query.dto';
+import { SearchEventsQueryDto } from './dto/search-events-query.dto';
+import {
+  assertTransition,
+  currentStatus,
+  nextSequence,
+  statusCondition,
+} from './event-lifecycle';
+import {
+  boundingBox,
+  distanceKm,
+  SEARCH_QUERY,
+  searchDocument,
+  searchHeadline,
+  searchRank,
+} from './event-search';
+
+type Caller = RequestWithSession['user'];
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
 
 @Injectable()
 export class EventsService {
   constructor(
     @InjectRepository(Event)
     private eventsRepository: Repository<Event>,
+    @InjectRepository(User)
+    private usersRepository: Repository<User>,
+    @InjectRepository(EventSeries)
+    private seriesRepository: Repository<EventSeries>,
+    private dataSource: DataSource,
+    private venuesService: VenuesService,
+    private registrationsService: RegistrationsService, // Checks and fills seats when the capacity changes
   ) {}
 
-  create(createEventDto: CreateEventDto) {
-    const event = this.eventsRepository.create(createEventDto);
-    return this.eventsRepository.save(event);
+  async create(createEventDto: CreateEventDto) {
+    await this.ensureOrganizerExists(createEventDto.created_by);
+    if (!createEventDto.event_location && !createEventDto.room_id) {
+      throw new BadRequestException('event_location or room_id is required');
+    }
+    const event = this.eventsRepository.create({
+      ...createEventDto,
+      ...this.schedule(createEventDto),
+      ...coordinates(createEventDto),
+    });
+    if (event.room_id === undefined || event.room_id === null) {
+      return this.eventsRepository.save(event);
+    }
+    const roomId = event.room_id;
+    return this.dataSource.transaction(async (manager) => {
+      const room = await this.venuesService.reserve(manager, roomId, [event]);
+      Object.assign(event, this.roomDefaults(room, createEventDto));
+      event.capacity = this.venuesService.fitCapacity(room, event.capacity);
+      return manager.save(event);
+    });
+  }
+
+  // Drafts are listed for their organizer and Admins only
+  async findAll(query: EventQueryDto, caller: Caller) {
+    const now = new Date();
+    const qb = this.filtered(query, caller, now);
+    const page = await paginate(qb, query, {
+      path: '/events',
+      idColumn: 'event_id',
+      // Timing filters read best in chronological order
+      defaultSort: query.when ? 'starts_at' : undefined,
+    });
+    for (const event of page.data) {
+      event.status = currentStatus(event, now);
+    }
+    return page;
   }
 
-  findAll() {
-    return this.eventsRepository.find();
+  // Full-text search over name, location and description, by distance from a
+  // point, or both, on top of the findAll filters. Events without coordinates
+  // never match a distance search.
+  async search(query: SearchEventsQueryDto, caller: Caller) {
+    const text = query.q?.trim() || undefined;
+    if ((query.lat === undefined) !== (query.lng === undefined)) {
+      throw new BadRequestException('lat and lng must be given together');
+    }
+    const near =
+      query.lat !== undefined && query.lng !== undefined
+        ? { lat: query.lat, lng: query.lng, radius: query.radius_km ?? 25 }
+        : undefined;
+    if (!text && !near) {
+      throw new BadRequestException('Search needs q, or lat and lng');
+    }
+
+    const now = new Date();
+    const qb = this.filtered(query, caller, now);
+    const rankBy: PaginateOptions['rankBy'] = [];
+    if (text) {
+      qb.andWhere(`${searchDocument('event')} @@ ${SEARCH_QUERY}`, { q: text });
+      rankBy.push({ expression: searchRank('event'), order: 'DESC' });
+    }
+    if (near) {
+      const box = boundingBox(near.lat, near.lng, near.radius);
+      qb.andWhere('event.latitude BETWEEN :minLat AND :maxLat', box)
+        .andWhere('event.longitude BETWEEN :minLng AND :maxLng', box)
+        .andWhere(`${distanceKm('event')} <= :radius`, {
+          lat: near.lat,
+          lng: near.lng,
+          radius: near.radius,
+        });
+      rankBy.push({ expression: distanceKm('event'), order: 'ASC' });
+    }
+    const page = await paginate(qb, query, {
+      path: '/events/search',
+      idColumn: 'event_id',
+      defaultSort: 'starts_at',
+      // An explicit sort replaces relevance and distance
+      rankBy: query.sort ? undefined : rankBy,
+    });
+    if (page.data.length === 0) {
+      return page;
+    }
+
+    // Scores and highlights for the rows of this page only
+    const scores = this.eventsRepository
+      .createQueryBuilder('event')
+      .select('event.event_id', 'event_id')
+      .where('event.event_id IN (:...ids)', {
+        ids: page.data.map((event) => event.event_id),
+      });
+    if (text) {
+      scores
+        .addSelect(searchRank('event'), 'rank')
+        .addSelect(searchHeadline('event', 'event_name'), 'name_headline')
+        .addSelect(
+          searchHeadline('event', 'event_description'),
+          'description_headline',
+        )
+        .setParameter('q', text);
+    }
+    if (near) {
+      scores
+        .addSelect(distanceKm('event'), 'distance_km')
+        .setParameters({ lat: near.lat, lng: near.lng });
+    }
+    const rows = await scores.getRawMany<{
+      event_id: number;
+      rank?: number;
+      name_headline?: string;
+      description_headline?: string;
+      distance_km?: number;
+    }>();
+    const byId = new Map(rows.map((row) => [row.event_id, row]));
+    for (const event of page.data) {
+      event.status = currentStatus(event, now);
+      const row = byId.get(event.event_id);
+      if (row && text) {
+        event.rank = Number(row.rank);
+        event.highlights = {
+          event_name: row.name_headline ?? event.event_name,
+          event_description:
+            row.description_headline ?? event.event_description,
+        };
+      }
+      if (row && near) {
+        event.distance_km = Math.round(Number(row.distance_km) * 100) / 100;
+      }
+    }
+    return page;
   }
 
-  findOne(id: number) {
-    return this.eventsRepository.findOneBy({ event_id: id });
+  // Loads the event with its organizer and the number of confirmed registrations.
+  // A draft looks like it does not exist to anyone but its organizer and Admins.
+  async findOne(id: number, caller: Caller) {
+    const event = await this.eventsRepository
+      .createQueryBuilder('event')
+      .leftJoin('event.organizer', 'organizer')
+      .addSelect(['organizer.user_id', 'organizer.name', 'organizer.email'])
+      .loadRelationCountAndMap(
+        'event.registration_count',
+        'event.registrations',
+        'registration',
+        (qb) =>
+          qb.andWhere('registration.status = :status', {
+            status: registrationStatus.Confirmed,
+          }),
+      )
+      .where('event.event_id = :id', { id })
+      .getOne();
+    if (
+      !event ||
+      (event.status === eventStatus.Draft &&
+        caller.role !== UserRole.Admin &&
+        event.created_by !== caller.user_id)
+    ) {
+      throw new NotFoundException(`Event with ID ${id} not found`);
+    }
+    event.status = currentStatus(event);
+    return event;
+  }
+
+  // Opens a draft for registration; it must not have started yet
+  async publish(id: number) {
+    const event = await this.findEvent(id);
+    assertTransition(event, eventStatus.Published);
+    if (event.starts_at <= new Date()) {
+      throw new BadRequestException(
+        `Event ${id} has already started and cannot be published`,
+      );
+    }
+    event.sequence = nextSequence(event, { status: eventStatus.Published });
+    event.status = eventStatus.Published;
+    event.published_at = new Date();
+    return this.eventsRepository.save(event);
   }
 
-  update(id: number, updateEventDto: UpdateEventDto) {
-    return this.eventsRepository.update(id, updateEventDto);
+  // A capacity change is refused below the confirmed registrations, and seats
+  // it adds go to the waitlist
+  async update(id: number, updateEventDto: UpdateEventDto) {
+    if (updateEventDto.created_by !== undefined) {
+      await this.ensureOrganizerExists(updateEventDto.created_by);
+    }
+    return this.dataSource.transaction(async (manager) => {
+      // The lock registrations take, so seats are counted against one capacity
+      const event = await manager.findOne(Event, {
+        where: { event_id: id },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!event) {
+        throw new NotFoundException(`Event with ID ${id} not found`);
+      }
+      const status = currentStatus(event);
+      if (
+        status === eventStatus.Cancelled ||
+        status === eventStatus.Completed
+      ) {
+        throw new ConflictException(
+          `Event ${id} is ${status} and can no longer be changed`,
+        );
+      }
+      const changes = { ...updateEventDto } as Partial<Event>;
+      if (
+        updateEventDto.starts_at !== undefined ||
+        updateEventDto.ends_at !== undefined ||
+        updateEventDto.timezone !== undefined
+      ) {
+        Object.assign(
+          changes,
+          this.schedule({
+            starts_at: updateEventDto.starts_at ?? event.starts_at,
+            ends_at: updateEventDto.ends_at ?? event.ends_at,
+            timezone: updateEventDto.timezone ?? event.timezone,
+          }),
+        );
+      }
+      if (
+        updateEventDto.latitude !== undefined ||
+        updateEventDto.longitude !== undefined
+      ) {
+        Object.assign(
+          changes,
+          coordinates({
+            latitude:
+              updateEventDto.latitude !== undefined
+                ? updateEventDto.latitude
+                : event.latitude,
+            longitude:
+              updateEventDto.longitude !== undefined
+                ? updateEventDto.longitude
+                : event.longitude,
+          }),
+        );
+      }
+      // An occurrence edited on its own no longer follows its series
+      if (event.series_id !== null) {
+        changes.detached = true;
+      }
+      const roomId =
+        updateEventDto.room_id !== undefined
+          ? updateEventDto.room_id
+          : event.room_id;
+      // Still booked into a room: it must be free at the (new) time
+      if (roomId !== null) {
+        const room = await this.venuesService.reserve(
+          manager,
+          roomId,
+          [
+            {
+              starts_at: changes.starts_at ?? event.starts_at,
+              ends_at: changes.ends_at ?? event.ends_at,
+            },
+          ],
+          [id],
+        );
+        if (roomId !== event.room_id) {
+          Object.assign(changes, this.roomDefaults(room, updateEventDto));
+        }
+        changes.capacity = this.venuesService.fitCapacity(
+          room,
+          changes.capacity !== undefined ? changes.capacity : event.capacity,
+        );
+      }
+      changes.sequence = nextSequence(event, changes);
+      const result = await manager.update(Event, id, changes);
+      if (
+        changes.capacity !== undefined &&
+        changes.capacity !== event.capacity
+      ) {
+        await this.registrationsService.fitToCapacity(manager, id);
+      }
+      return result;
+    });
   }
 
-  remove(id: number) {
+  // Registrations and their payments are kept, so an event anyone registered
+  // for is cancelled (which refunds them) rather than deleted
+  async remove(id: number) {
+    const event = await this.eventsRepository.findOneBy({ event_id: id });
+    if (
+      event &&
+      (await this.eventsRepository.manager.existsBy(Registration, {
+        event_id: id,
+      }))
+    ) {
+      throw new ConflictException(
+        `Event ${id} has registrations; cancel it instead`,
+      );
+    }
+    // Record a deleted occurrence as an exception, so the series does not
+    // generate it again
+    if (event?.series_id && event.occurrence_date) {
+      const series = await this.seriesRepository.findOneBy({
+        series_id: event.series_id,
+      });
+      if (series && !series.exdates.includes(event.occurrence_date)) {
+        series.exdates = [...series.exdates, event.occurrence_date];
+        await this.seriesRepository.save(series);
+      }
+    }
     return this.eventsRepository.delete(id);
   }
+
+  // Filters shared by listing and searching; drafts of others stay hidden
+  // from everyone but Admins
+  private filtered(query: EventQueryDto, caller: Caller, now: Date) {
+    const qb = this.eventsRepository.createQueryBuilder('event');
+    if (caller.role !== UserRole.Admin) {
+      qb.andWhere('(event.status != :draft OR event.created_by = :userId)', {
+        draft: eventStatus.Draft,
+        userId: caller.user_id,
+      });
+    }
+    if (query.status) {
+      qb.andWhere(statusCondition('event', query.status), { now });
+    }
+    if (query.when === eventTiming.Upcoming) {
+      qb.andWhere('event.starts_at > :now', { now });
+    } else if (query.when === eventTiming.Ongoing) {
+      qb.andWhere('event.starts_at <= :now AND event.ends_at > :now', { now });
+    } else if (query.when === eventTiming.Past) {
+      qb.andWhere('event.ends_at <= :now', { now });
+    }
+    // Date-only bounds are whole days in each event's own timezone; anything
+    // with a time is an absolute instant
+    if (query.from) {
+      qb.andWhere(
+        DATE_ONLY.test(query.from)
+          ? 'event.ends_at > (CAST(:from AS timestamp) AT TIME ZONE event.timezone)'
+          : 'event.ends_at > :from',
+        { from: query.from },
+      );
+    }
+    if (query.to) {
+      qb.andWhere(
+        DATE_ONLY.test(query.to)
+          ? "event.starts_at < ((CAST(:to AS timestamp) + INTERVAL '1 day') AT TIME ZONE event.timezone)"
+          : 'event.starts_at <= :to',
+        { to: query.to },
+      );
+    }
+    if (query.series_id !== undefined) {
+      qb.andWhere('event.series_id = :seriesId', { seriesId: query.series_id });
+    }
+    if (query.location) {
+      qb.andWhere('event.event_location ILIKE :location', {
+        location: `%${query.location}%`,
+      });
+    }
+    return qb;
+  }
+
+  // Location and coordinates of a room's venue, unless the request gave its own
+  private roomDefaults(room: Room, dto: UpdateEventDto) {
+    const fields: Partial<Event> = {};
+    if (!dto.event_location) {
+      fields.event_location = this.venuesService.locationOf(room);
+    }
+    if (dto.latitude === undefined && dto.longitude === undefined) {
+      fields.latitude = room.venue.latitude;
+      fields.longitude = room.venue.longitude;
+    }
+    return fields;
+  }
+
+  private async findEvent(id: number) {
+    const event = await this.eventsRepository.findOneBy({ event_id: id });
+    if (!event) {
+      throw new NotFoundException(`Event with ID ${id} not found`);
+    }
+    return event;
+  }
+
+  // When the event happens; it must end after it starts
+  private schedule(dto: {
+    starts_at: string | Date;
+    ends_at: string | Date;
+    timezone?: string;
+  }) {
+    const startsAt = new Date(dto.starts_at);
+    const endsAt = new Date(dto.ends_at);
+    if (endsAt <= startsAt) {
+      throw new BadRequestException('ends_at must be after starts_at');
+    }
+    return {
+      starts_at: startsAt,
+      ends_at: endsAt,
+      timezone: dto.timezone ?? 'UTC',
+    };
+  }
+
+  private async ensureOrganizerExists(userId: number) {
+    const organizer = await this.usersRepository.existsBy({ user_id: userId });
+    if (!organizer) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+  }
 }
@@ -0,0 +1,93 @@
+import {
+  Controller,
+  Get,
+  Param,
+  Query,
+  Res,
+  StreamableFile,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiProduces, ApiTags } from '@nestjs/swagger';
+import type { Response } from 'express';
+import {
+  CheckPolicy,
+  PolicyResource,
+} from 'src/auth/decorators/check-policy.decorator';
+import { Roles } from 'src/auth/decorators/role.decorator';
+import { ROLE_MATRIX } from 'src/auth/role-matrix';
+import { ListQueryPipe } from 'src/common/pagination/list-query.pipe';
+import { Export, ExportsService } from './exports.service';
+import { ExportQueryDto } from './dto/export-query.dto';
+import { CONTENT_TYPES, toFile } from './tabular';
+
+// Downloads for the organizer of an event, as CSV (default) or XLSX
+@ApiBearerAuth('access-token')
+@ApiTags('Exports')
+@ApiProduces(CONTENT_TYPES.csv, CONTENT_TYPES.xlsx)
+@Controller('events/:id')
+export class ExportsController {
+  constructor(private readonly exportsService: ExportsService) {}
+
+  @Get('attendees/export')
+  @Roles(...ROLE_MATRIX.exports.attendees)
+  @CheckPolicy(PolicyResource.Event) // Only the organizer of the event
+  exportAttendees(
+    @Param('id') id: string,
+    @Query(ListQueryPipe) query: ExportQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.send(
+      this.exportsService.attendees(+id),
+      query,
+      `event-${+id}-attendees`,
+      res,
+    );
+  }
+
+  @Get('payments/export')
+  @Roles(...ROLE_MATRIX.exports.payments)
+  @CheckPolicy(PolicyResource.Event)
+  exportPayments(
+    @Param('id') id: string,
+    @Query(ListQueryPipe) query: ExportQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.send(
+      this.exportsService.payments(+id),
+      query,
+      `event-${+id}-payments`,
+      res,
+    );
+  }
+
+  @Get('feedback/export')
+  @Roles(...ROLE_MATRIX.exports.feedback)
+  @CheckPolicy(PolicyResource.Event)
+  exportFeedback(
+    @Param('id') id: string,
+    @Query(ListQueryPipe) query: ExportQueryDto,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    return this.send(
+      this.exportsService.feedback(+id),
+      query,
+      `event-${+id}-feedback`,
+      res,
+    );
+  }
+
+  private send(
+    data: Export,
+    query: ExportQueryDto,
+    name: string,
+    res: Response,
+  ) {
+    const format = query.format ?? 'csv';
+    const file = toFile(format, data.columns, data.rows, data.sheet);
+    // Stop reading from the database when the client goes away
+    res.on('close', () => file.destroy());
+    return new StreamableFile(file, {
+      type: CONTENT_TYPES[format],
+      disposition: `attachment; filename="${name}.${format}"`,
+    });
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { Payment } from 'src/payments/entities/payment.entity';
+import { Feedback } from 'src/feedback/entities/feedback.entity';
+import { ExportsService } from './exports.service';
+import { ExportsController } from './exports.controller';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([Registration, Payment, Feedback]),
+  ],
+  controllers: [ExportsController],
+  providers: [ExportsService],
+})
+export class ExportsModule {}
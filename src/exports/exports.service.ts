@@ -0,0 +1,183 @@
+import { Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ObjectLiteral, Repository, SelectQueryBuilder } from 'typeorm';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { Payment } from 'src/payments/entities/payment.entity';
+import { Feedback } from 'src/feedback/entities/feedback.entity';
+import { ExportColumn, ExportRow } from './tabular';
+
+export interface Export {
+  sheet: string; // Worksheet name in XLSX files
+  columns: ExportColumn[];
+  rows: AsyncIterable<ExportRow>;
+}
+
+// Rows read from the database per query while streaming an export
+const BATCH_SIZE = 500;
+
+const ATTENDEE_COLUMNS: ExportColumn[] = [
+  { key: 'registration_id', header: 'Registration ID', type: 'number' },
+  { key: 'user_id', header: 'User ID', type: 'number' },
+  { key: 'name', header: 'Name' },
+  { key: 'email', header: 'Email' },
+  { key: 'phone', header: 'Phone' },
+  { key: 'status', header: 'Status' },
+  { key: 'ticket_type', header: 'Ticket type' },
+  { key: 'registration_date', header: 'Registered at', type: 'date' },
+  { key: 'payment_status', header: 'Payment status' },
+  { key: 'payment_amount', header: 'Amount due', type: 'number' },
+  { key: 'discount_amount', header: 'Discount', type: 'number' },
+  { key: 'amount_paid', header: 'Amount paid', type: 'number' },
+  { key: 'currency', header: 'Currency' },
+  { key: 'checked_in_at', header: 'Checked in at', type: 'date' },
+];
+
+const PAYMENT_COLUMNS: ExportColumn[] = [
+  { key: 'payment_id', header: 'Payment ID', type: 'number' },
+  { key: 'registration_id', header: 'Registration ID', type: 'number' },
+  { key: 'user_id', header: 'User ID', type: 'number' },
+  { key: 'name', header: 'Name' },
+  { key: 'email', header: 'Email' },
+  { key: 'amount', header: 'Amount', type: 'number' },
+  { key: 'currency', header: 'Currency' },
+  { key: 'payment_method', header: 'Method' },
+  { key: 'payment_status', header: 'Status' },
+  { key: 'refund_of', header: 'Refund of payment', type: 'number' },
+  { key: 'provider', header: 'Provider' },
+  { key: 'payment_date', header: 'Payment date' },
+  { key: 'created_at', header: 'Created at', type: 'date' },
+];
+
+const FEEDBACK_COLUMNS: ExportColumn[] = [
+  { key: 'feedback_id', header: 'Feedback ID', type: 'number' },
+  { key: 'user_id', header: 'User ID', type: 'number' },
+  { key: 'name', header: 'Name' },
+  { key: 'email', header: 'Email' },
+  { key: 'rating', header: 'Rating', type: 'number' },
+  { key: 'comments', header: 'Comments' },
+  { key: 'status', header: 'Moderation status' },
+  { key: 'moderation_note', header: 'Moderation note' },
+  { key: 'created_at', header: 'Created at', type: 'date' },
+  { key: 'updated_at', header: 'Updated at', type: 'date' },
+];
+
+// Spreadsheets of an event for its organizer. Rows are read in batches as the
+// file is written, so memory use does not grow with the size of the event.
+@Injectable()
+export class ExportsService {
+  constructor(
+    @InjectRepository(Registration)
+    private registrationsRepository: Repository<Registration>,
+    @InjectRepository(Payment)
+    private paymentsRepository: Repository<Payment>,
+    @InjectRepository(Feedback)
+    private feedbackRepository: Repository<Feedback>,
+  ) {}
+
+  // Every registration, cancelled and waitlisted ones included
+  attendees(eventId: number): Export {
+    const qb = this.registrationsRepository
+      .createQueryBuilder('registration')
+      .innerJoin('registration.user', 'user')
+      .leftJoin('registration.ticket_type', 'ticket_type')
+      .select([
+        'registration.registration_id AS registration_id',
+        'user.user_id AS user_id',
+        'user.name AS name',
+        'user.email AS email',
+        'user.phone AS phone',
+        'registration.status AS status',
+        'ticket_type.name AS ticket_type',
+        'registration.registration_date AS registration_date',
+        'registration.payment_status AS payment_status',
+        'registration.payment_amount AS payment_amount',
+        'registration.discount_amount AS discount_amount',
+        'registration.amount_paid AS amount_paid',
+        'registration.currency AS currency',
+        'registration.checked_in_at AS checked_in_at',
+      ])
+      .where('registration.event_id = :eventId', { eventId });
+    return {
+      sheet: 'Attendees',
+      columns: ATTENDEE_COLUMNS,
+      rows: this.inBatches(qb, 'registration.registration_id'),
+    };
+  }
+
+  // Payments and refunds of the event's registrations
+  payments(eventId: number): Export {
+    const qb = this.paymentsRepository
+      .createQueryBuilder('payment')
+      .innerJoin('payment.registration', 'registration')
+      .innerJoin('registration.user', 'user')
+      .select([
+        'payment.payment_id AS payment_id',
+        'registration.registration_id AS registration_id',
+        'user.user_id AS user_id',
+        'user.name AS name',
+        'user.email AS email',
+        'payment.amount AS amount',
+        'registration.currency AS currency',
+        'payment.payment_method AS payment_method',
+        'payment.payment_status AS payment_status',
+        'payment.refund_of AS refund_of',
+        'payment.provider AS provider',
+        'payment.payment_date AS payment_date',
+        'payment.created_at AS created_at',
+      ])
+      .where('registration.event_id = :eventId', { eventId });
+    return {
+      sheet: 'Payments',
+      columns: PAYMENT_COLUMNS,
+      rows: this.inBatches(qb, 'payment.payment_id'),
+    };
+  }
+
+  // Hidden feedback included, with its moderation status
+  feedback(eventId: number): Export {
+    const qb = this.feedbackRepository
+      .createQueryBuilder('feedback')
+      .innerJoin('feedback.user', 'user')
+      .select([
+        'feedback.feedback_id AS feedback_id',
+        'user.user_id AS user_id',
+        'user.name AS name',
+        'user.email AS email',
+        'feedback.rating AS rating',
+        'feedback.comments AS comments',
+        'feedback.status AS status',
+        'feedback.moderation_note AS moderation_note',
+        'feedback.created_at AS created_at',
+        'feedback.updated_at AS updated_at',
+      ])
+      .where('feedback.event_id = :eventId', { eventId });
+    return {
+      sheet: 'Feedback',
+      columns: FEEDBACK_COLUMNS,
+      rows: this.inBatches(qb, 'feedback.feedback_id'),
+    };
+  }
+
+  // Pages through the query by its id column (keyset pagination), so each
+  // batch is a cheap index range scan however far into the export it is
+  private async *inBatches<T extends ObjectLiteral>(
+    qb: SelectQueryBuilder<T>,
+    idColumn: string,
+  ): AsyncGenerator<ExportRow> {
+    const idKey = idColumn.split('.')[1];
+    let after = 0;
+    for (;;) {
+      const rows = await qb
+        .clone()
+        .andWhere(`${idColumn} > :after`, { after })
+        .orderBy(idColumn, 'ASC')
+        .limit(BATCH_SIZE)
+        .getRawMany<ExportRow>();
+      yield* rows;
+      if (rows.length < BATCH_SIZE) {
+        return;
+      }
+      after = rows[rows.length - 1][idKey] as number;
+    }
+  }
+}
@@ -0,0 +1,124 @@
+import { stream as excel } from 'exceljs';
+import { once } from 'events';
+import { PassThrough, Readable } from 'stream';
+
+// Streams rows as CSV or XLSX without holding the whole result in memory
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export interface ExportColumn {
+  key: string; // Alias of the value in each row
+  header: string;
+  type?: 'number' | 'date'; // Text when omitted
+}
+
+export type ExportRow = Record<string, unknown>;
+
+export const CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: 'text/csv; charset=utf-8',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+function cell(column: ExportColumn, value: unknown) {
+  if (value === null || value === undefined) {
+    return null;
+  }
+  switch (column.type) {
+    case 'number':
+      return Number(value);
+    case 'date':
+      return new Date(value as string | Date);
+    default:
+      return String(value as string);
+  }
+}
+
+// Quotes text that needs it, and defuses text a spreadsheet would run as a
+// formula (e.g. a name of "=HYPERLINK(...)")
+function csvText(text: string) {
+  const safe = /^[=+\-@\t\r]/.test(text) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+function csvField(column: ExportColumn, value: unknown) {
+  const parsed = cell(column, value);
+  if (parsed === null) {
+    return '';
+  }
+  if (parsed instanceof Date) {
+    return parsed.toISOString();
+  }
+  return typeof parsed === 'number' ? String(parsed) : csvText(parsed);
+}
+
+async function* csvLines(
+  columns: ExportColumn[],
+  rows: AsyncIterable<ExportRow>,
+) {
+  // The byte order mark makes Excel read the file as UTF-8
+  const header = columns.map((column) => csvText(column.header));
+  yield '\uFEFF' + header.join(',') + '\r\n';
+  for await (const row of rows) {
+    const fields = columns.map((column) => csvField(column, row[column.key]));
+    yield fields.join(',') + '\r\n';
+  }
+}
+
+export function toCsv(columns: ExportColumn[], rows: AsyncIterable<ExportRow>) {
+  return Readable.from(csvLines(columns, rows));
+}
+
+// Each row is committed as soon as it is added, so only the zip buffers stay
+// in memory. Reading pauses while the client is slower than the database and
+// stops when the output is destroyed.
+export function toXlsx(
+  columns: ExportColumn[],
+  rows: AsyncIterable<ExportRow>,
+  sheetName: string,
+) {
+  const output = new PassThrough();
+  const workbook = new excel.xlsx.WorkbookWriter({
+    stream: output,
+    useStyles: true,
+    useSharedStrings: false,
+  });
+  const sheet = workbook.addWorksheet(sheetName, {
+    views: [{ state: 'frozen', ySplit: 1 }],
+  });
+  sheet.columns = columns.map((column) => ({
+    key: column.key,
+    header: column.header,
+    width: Math.max(12, column.header.length + 2),
+    style: column.type === 'date' ? { numFmt: 'yyyy-mm-dd hh:mm:ss' } : {},
+  }));
+  sheet.getRow(1).font = { bold: true };
+
+  const write = async () => {
+    for await (const row of rows) {
+      if (output.destroyed) {
+        return;
+      }
+      sheet
+        .addRow(columns.map((column) => cell(column, row[column.key])))
+        .commit();
+      if (output.writableNeedDrain) {
+        await Promise.race([once(output, 'drain'), once(output, 'close')]);
+      }
+    }
+    sheet.commit();
+    await workbook.commit();
+  };
+  write().catch((error: Error) => output.destroy(error));
+  return output;
+}
+
+export function toFile(
+  format: ExportFormat,
+  columns: ExportColumn[],
+  rows: AsyncIterable<ExportRow>,
+  sheetName: string,
+) {
+  return format === 'xlsx'
+    ? toXlsx(columns, rows, sheetName)
+    : toCsv(columns, rows);
+}
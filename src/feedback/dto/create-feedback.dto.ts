@@ -1,18 +1,15 @@
 import { ApiProperty } from '@nestjs/swagger';
 import {
-  IsDate,
+  IsInt,
   IsNotEmpty,
   IsNumber,
-  IsOptional,
   IsString,
+  Max,
+  MaxLength,
+  Min,
 } from 'class-validator';
 
 export class CreateFeedbackDto {
-  @ApiProperty()
-  @IsOptional()
-  @IsNumber()
-  feedback_id: number;
-
   @ApiProperty()
   @IsNotEmpty()
   @IsNumber()
@@ -23,17 +20,16 @@ export class CreateFeedbackDto {
   @IsNumber()
   user_id: number; // Reference to userstable
 
-  @ApiProperty()
+  @ApiProperty({ minimum: 1, maximum: 5, description: 'Whole stars' })
   @IsNotEmpty()
-  @IsNumber()
+  @IsInt()
+  @Min(1)
+  @Max(5)
   rating: number;
 
   @ApiProperty()
   @IsNotEmpty()
   @IsString()
+  @MaxLength(255)
   comments: string;
-  @ApiProperty()
-  @IsOptional()
-  @IsDate()
-  created_at: Date;
 }
@@ -0,0 +1,37 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsIn, IsInt, IsNumber, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from 'src/common/pagination/pagination-query.dto';
+
+export const FEEDBACK_SORT_FIELDS = [
+  'feedback_id',
+  'rating',
+  'created_at',
+] as const;
+
+export class FeedbackQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: FEEDBACK_SORT_FIELDS, default: 'feedback_id' })
+  @IsOptional()
+  @IsIn(FEEDBACK_SORT_FIELDS)
+  sort?: (typeof FEEDBACK_SORT_FIELDS)[number];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  event_id?: number;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  rating?: number;
+
+  @ApiPropertyOptional({
+    description: 'Only feedback rated at least this much',
+  })
+  @IsOptional()
+  @Type(() => Number)
+  @IsNumber()
+  min_rating?: number;
+}
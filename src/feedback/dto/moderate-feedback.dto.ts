@@ -0,0 +1,13 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class ModerateFeedbackDto {
+  @ApiPropertyOptional({
+    example: 'Personal details in the comment',
+    description: 'Why the feedback is flagged or hidden',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(255)
+  note?: string;
+}
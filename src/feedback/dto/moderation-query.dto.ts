@@ -0,0 +1,14 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsOptional } from 'class-validator';
+import { feedbackStatus } from '../entities/feedback.entity';
+import { FeedbackQueryDto } from './feedback-query.dto';
+
+export class ModerationQueryDto extends FeedbackQueryDto {
+  @ApiPropertyOptional({
+    enum: feedbackStatus,
+    default: feedbackStatus.Flagged,
+  })
+  @IsOptional()
+  @IsEnum(feedbackStatus)
+  status?: feedbackStatus;
+}
@@ -1,4 +1,7 @@
-import { PartialType } from '@nestjs/swagger';
+import { PartialType, PickType } from '@nestjs/swagger';
 import { CreateFeedbackDto } from './create-feedback.dto';
 
-export class UpdateFeedbackDto extends PartialType(CreateFeedbackDto) {}
+// Only the rating and comments change; the event and the author stay
+export class UpdateFeedbackDto extends PartialType(
+  PickType(CreateFeedbackDto, ['rating', 'comments'] as const),
+) {}
@@ -1,22 +1,72 @@
-import { Column, Entity, PrimaryGeneratedColumn } from "typeorm"
+import {
+  Check,
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+  Unique,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Event } from 'src/events/entities/event.entity';
+import { User } from 'src/users/entities/user.entity';
 
+// Moderation state; only Hidden feedback is kept out of listings and ratings
+export enum feedbackStatus {
+  Published = 'Published', // Not reviewed by a moderator yet
+  Flagged = 'Flagged', // Waiting in the moderation queue, still shown
+  Hidden = 'Hidden',
+  Approved = 'Approved', // Reviewed and kept
+}
+
+// One review per attendee and event; attendees edit theirs instead
 @Entity('feedbacks')
+@Unique(['event_id', 'user_id'])
+@Check('CHK_feedbacks_rating', '"rating" BETWEEN 1 AND 5')
 export class Feedback {
-    @PrimaryGeneratedColumn()
-    feedback_id: number;
-
-    @Column()
-    event_id: number;
-    
-    @Column()
-    user_id: number;	// Reference to userstable
-
-    @Column({type: 'decimal', precision: 2})
-    rating: number;
-
-    @Column({type: 'varchar', length:255})
-    comments: string;
-    
-    @Column()
-    created_at: Date
+  @PrimaryGeneratedColumn()
+  feedback_id: number;
+
+  @Column()
+  event_id: number;
+
+  @Column()
+  user_id: number; // Reference to userstable
+
+  @Column({ type: 'smallint' })
+  rating: number; // Whole stars, 1 to 5
+
+  @Column({ type: 'varchar', length: 255 })
+  comments: string;
+
+  @Column({
+    type: 'enum',
+    enum: feedbackStatus,
+    default: feedbackStatus.Published,
+  })
+  status: feedbackStatus;
+
+  @Column({ type: 'varchar', length: 255, nullable: true })
+  moderation_note: string | null; // Why it was flagged or hidden
+
+  @Column({ type: 'int', nullable: true })
+  moderated_by: number | null;
+
+  @Column({ type: 'timestamp', nullable: true })
+  moderated_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => Event, (event) => event.feedbacks, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'event_id' })
+  event: Event;
+
+  @ManyToOne(() => User, (user) => user.feedbacks, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
 }
@@ -1,33 +1,129 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  Req,
+} from '@nestjs/common';
 import { FeedbackService } from './feedback.service';
 import { CreateFeedbackDto } from './dto/create-feedback.dto';
 import { UpdateFeedbackDto } from './dto/update-feedback.dto';
+import {
+  CheckPolicy,
+  PolicyResource,
+} from 'src/auth/decorators/check-policy.decorator';
+import { Roles } from 'src/auth/decorators/role.decorator';
+import { ROLE_MATRIX } from 'src/auth/role-matrix';
+import { ListQueryPipe } from 'src/common/pagination/list-query.pipe';
+import { FeedbackQueryDto } from './dto/feedback-query.dto';
+import { ModerationQueryDto } from './dto/moderation-query.dto';
+import { ModerateFeedbackDto } from './dto/moderate-feedback.dto';
+import { feedbackStatus } from './entities/feedback.entity';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import type { RequestWithSession } from 'src/auth/interfaces/request-with-user.interface';
 
+@ApiBearerAuth('access-token')
+@ApiTags('Feedback')
 @Controller('feedback')
 export class FeedbackController {
   constructor(private readonly feedbackService: FeedbackService) {}
 
   @Post()
+  @Roles(...ROLE_MATRIX.feedback.create)
+  @CheckPolicy(PolicyResource.Feedback, 'create') // Feedback is posted as yourself
   create(@Body() createFeedbackDto: CreateFeedbackDto) {
     return this.feedbackService.create(createFeedbackDto);
   }
 
   @Get()
-  findAll() {
-    return this.feedbackService.findAll();
+  @Roles(...ROLE_MATRIX.feedback.findAll)
+  findAll(@Query(ListQueryPipe) query: FeedbackQueryDto) {
+    return this.feedbackService.findAll(query);
+  }
+
+  // Declared before :id so "moderation" is not taken for a feedback ID
+  @Get('moderation')
+  @Roles(...ROLE_MATRIX.feedback.moderate)
+  moderationQueue(
+    @Query(ListQueryPipe) query: ModerationQueryDto,
+    @Req() req: RequestWithSession,
+  ) {
+    return this.feedbackService.moderationQueue(query, req.user);
   }
 
   @Get(':id')
-  findOne(@Param('id') id: string) {
-    return this.feedbackService.findOne(+id);
+  @Roles(...ROLE_MATRIX.feedback.findOne)
+  findOne(@Param('id') id: string, @Req() req: RequestWithSession) {
+    return this.feedbackService.findOne(+id, req.user);
+  }
+
+  // Puts the feedback in the moderation queue; it stays visible meanwhile
+  @Post(':id/flag')
+  @Roles(...ROLE_MATRIX.feedback.moderate)
+  @CheckPolicy(PolicyResource.EventFeedback) // Only the organizer of the event
+  flag(
+    @Param('id') id: string,
+    @Body() moderateFeedbackDto: ModerateFeedbackDto,
+    @Req() req: RequestWithSession,
+  ) {
+    return this.feedbackService.moderate(
+      +id,
+      feedbackStatus.Flagged,
+      moderateFeedbackDto?.note,
+      req.user.user_id,
+    );
+  }
+
+  @Post(':id/hide')
+  @Roles(...ROLE_MATRIX.feedback.moderate)
+  @CheckPolicy(PolicyResource.EventFeedback)
+  hide(
+    @Param('id') id: string,
+    @Body() moderateFeedbackDto: ModerateFeedbackDto,
+    @Req() req: RequestWithSession,
+  ) {
+    return this.feedbackService.moderate(
+      +id,
+      feedbackStatus.Hidden,
+      moderateFeedbackDto?.note,
+      req.user.user_id,
+    );
+  }
+
+  // Keeps the feedback, or brings hidden feedback back
+  @Post(':id/approve')
+  @Roles(...ROLE_MATRIX.feedback.moderate)
+  @CheckPolicy(PolicyResource.EventFeedback)
+  approve(
+    @Param('id') id: string,
+    @Body() moderateFeedbackDto: ModerateFeedbackDto,
+    @Req() req: RequestWithSession,
+  ) {
+    return this.feedbackService.moderate(
+      +id,
+      feedbackStatus.Approved,
+      moderateFeedbackDto?.note,
+      req.user.user_id,
+    );
   }
 
   @Patch(':id')
-  update(@Param('id') id: string, @Body() updateFeedbackDto: UpdateFeedbackDto) {
+  @Roles(...ROLE_MATRIX.feedback.update)
+  @CheckPolicy(PolicyResource.Feedback)
+  update(
+    @Param('id') id: string,
+    @Body() updateFeedbackDto: UpdateFeedbackDto,
+  ) {
     return this.feedbackService.update(+id, updateFeedbackDto);
   }
 
   @Delete(':id')
+  @Roles(...ROLE_MATRIX.feedback.remove)
+  @CheckPolicy(PolicyResource.Feedback)
   remove(@Param('id') id: string) {
     return this.feedbackService.remove(+id);
   }
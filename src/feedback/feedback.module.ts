@@ -4,12 +4,17 @@ import { FeedbackController } from './feedback.controller';
 import { Feedback } from './entities/feedback.entity';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { DatabaseModule } from 'src/database/database.module';
+import { Event } from 'src/events/entities/event.entity';
+import { User } from 'src/users/entities/user.entity';
+import { Registration } from 'src/registrations/entities/registration.entity';
 
 @Module({
-  imports: [DatabaseModule, TypeOrmModule.forFeature([Feedback])],
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([Feedback, Event, User, Registration]),
+  ],
   controllers: [FeedbackController],
   providers: [FeedbackService],
   exports: [FeedbackService],
 })
-
 export class FeedbackModule {}
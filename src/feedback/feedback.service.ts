@@ -1,35 +1,286 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { CreateFeedbackDto } from './dto/create-feedback.dto';
 import { UpdateFeedbackDto } from './dto/update-feedback.dto';
-import { Repository } from 'typeorm';
-import { Feedback } from './entities/feedback.entity';
+import { Brackets, QueryFailedError, Repository } from 'typeorm';
+import { Feedback, feedbackStatus } from './entities/feedback.entity';
 import { InjectRepository } from '@nestjs/typeorm';
+import { Event, eventStatus } from 'src/events/entities/event.entity';
+import { currentStatus } from 'src/events/event-lifecycle';
+import { User, UserRole } from 'src/users/entities/user.entity';
+import {
+  Registration,
+  registrationStatus,
+} from 'src/registrations/entities/registration.entity';
+import { paymentStatus } from 'src/payments/payment-status.enum';
+import type { RequestWithSession } from 'src/auth/interfaces/request-with-user.interface';
+import { paginate } from 'src/common/pagination/paginate';
+import { FeedbackQueryDto } from './dto/feedback-query.dto';
+import { ModerationQueryDto } from './dto/moderation-query.dto';
+
+type Caller = RequestWithSession['user'];
+
+const RATINGS = [1, 2, 3, 4, 5];
+
+const UNIQUE_VIOLATION = '23505'; // Postgres error code
+
+// The statuses each moderation decision may be taken on; hidden feedback
+// comes back through approval only
+const MODERATION: Record<feedbackStatus, feedbackStatus[]> = {
+  [feedbackStatus.Published]: [],
+  [feedbackStatus.Flagged]: [feedbackStatus.Published, feedbackStatus.Approved],
+  [feedbackStatus.Hidden]: [
+    feedbackStatus.Published,
+    feedbackStatus.Flagged,
+    feedbackStatus.Approved,
+  ],
+  [feedbackStatus.Approved]: [
+    feedbackStatus.Published,
+    feedbackStatus.Flagged,
+    feedbackStatus.Hidden,
+  ],
+};
 
 @Injectable()
 export class FeedbackService {
   constructor(
     @InjectRepository(Feedback)
     private feedbackRepository: Repository<Feedback>,
+    @InjectRepository(Event)
+    private eventsRepository: Repository<Event>,
+    @InjectRepository(User)
+    private usersRepository: Repository<User>,
+    @InjectRepository(Registration)
+    private registrationsRepository: Repository<Registration>,
   ) {}
 
-  create(createFeedbackDto: CreateFeedbackDto) {
+  // One review per attendee and event; a second one is refused, the first
+  // can be edited instead
+  async create(createFeedbackDto: CreateFeedbackDto) {
+    const { event_id, user_id } = createFeedbackDto;
+    await this.ensureReferencesExist(createFeedbackDto);
+    await this.ensureAttended(event_id, user_id);
+    await this.ensureNotReviewed(event_id, user_id);
     const feedback = this.feedbackRepository.create(createFeedbackDto);
-    return this.feedbackRepository.save(feedback);
+    try {
+      return await this.feedbackRepository.save(feedback);
+    } catch (error) {
+      // A concurrent request saved the review between the check and the
+      // insert; the unique (event_id, user_id) constraint caught it
+      if (
+        error instanceof QueryFailedError &&
+        (error.driverError as { code?: string }).code === UNIQUE_VIOLATION
+      ) {
+        await this.ensureNotReviewed(event_id, user_id);
+      }
+      throw error;
+    }
   }
 
-  findAll() {
-    return this.feedbackRepository.find();
+  // Hidden feedback is left out
+  findAll(query: FeedbackQueryDto) {
+    const qb = this.filtered(query).andWhere('feedback.status != :hidden', {
+      hidden: feedbackStatus.Hidden,
+    });
+    return paginate(qb, query, { path: '/feedback', idColumn: 'feedback_id' });
   }
 
-  findOne(id: number) {
-    return this.feedbackRepository.findOneBy({ feedback_id: id });
+  // Hidden feedback looks like it does not exist to anyone but its author,
+  // the organizer of the event and Admins
+  async findOne(id: number, caller: Caller) {
+    const feedback = await this.feedbackRepository.findOneBy({
+      feedback_id: id,
+    });
+    if (
+      !feedback ||
+      (feedback.status === feedbackStatus.Hidden &&
+        caller.role !== UserRole.Admin &&
+        feedback.user_id !== caller.user_id &&
+        !(await this.eventsRepository.existsBy({
+          event_id: feedback.event_id,
+          created_by: caller.user_id,
+        })))
+    ) {
+      throw new NotFoundException(`Feedback with ID ${id} not found`);
+    }
+    return feedback;
   }
 
-  update(id: number, updateFeedbackDto: UpdateFeedbackDto) {
-    return this.feedbackRepository.update(id, updateFeedbackDto);
+  // Only the rating and comments change; moderation decisions stay, except
+  // that approved feedback needs approving again after an edit
+  async update(id: number, updateFeedbackDto: UpdateFeedbackDto) {
+    const feedback = await this.findFeedback(id);
+    Object.assign(feedback, updateFeedbackDto);
+    if (feedback.status === feedbackStatus.Approved) {
+      feedback.status = feedbackStatus.Published;
+    }
+    return this.feedbackRepository.save(feedback);
   }
 
   remove(id: number) {
     return this.feedbackRepository.delete(id);
   }
+
+  // Feedback waiting for a decision (Flagged unless another status is asked
+  // for); organizers only see feedback on their own events
+  moderationQueue(query: ModerationQueryDto, caller: Caller) {
+    const qb = this.filtered(query).andWhere('feedback.status = :status', {
+      status: query.status ?? feedbackStatus.Flagged,
+    });
+    if (caller.role !== UserRole.Admin) {
+      qb.innerJoin('feedback.event', 'event').andWhere(
+        'event.created_by = :userId',
+        { userId: caller.user_id },
+      );
+    }
+    return paginate(qb, query, {
+      path: '/feedback/moderation',
+      idColumn: 'feedback_id',
+    });
+  }
+
+  async moderate(
+    id: number,
+    status: feedbackStatus,
+    note: string | undefined,
+    moderatorId: number,
+  ) {
+    const feedback = await this.findFeedback(id);
+    if (!MODERATION[status].includes(feedback.status)) {
+      throw new ConflictException(
+        `Feedback ${id} is ${feedback.status} and cannot become ${status}`,
+      );
+    }
+    feedback.status = status;
+    feedback.moderation_note = note ?? null;
+    feedback.moderated_by = moderatorId;
+    feedback.moderated_at = new Date();
+    return this.feedbackRepository.save(feedback);
+  }
+
+  // Average, count and number of reviews per star; hidden feedback does not count
+  async ratings(eventId: number) {
+    const rows = await this.feedbackRepository
+      .createQueryBuilder('feedback')
+      .select('feedback.rating', 'rating')
+      .addSelect('COUNT(*)', 'count')
+      .where('feedback.event_id = :eventId', { eventId })
+      .andWhere('feedback.status != :hidden', {
+        hidden: feedbackStatus.Hidden,
+      })
+      .groupBy('feedback.rating')
+      .getRawMany<{ rating: number; count: string }>();
+    const histogram = Object.fromEntries(
+      RATINGS.map((rating) => [rating, 0]),
+    ) as Record<number, number>;
+    let count = 0;
+    let total = 0;
+    for (const row of rows) {
+      histogram[row.rating] = Number(row.count);
+      count += Number(row.count);
+      total += row.rating * Number(row.count);
+    }
+    return {
+      event_id: eventId,
+      average: count ? Math.round((total / count) * 100) / 100 : null,
+      count,
+      histogram,
+    };
+  }
+
+  private filtered(query: FeedbackQueryDto) {
+    const qb = this.feedbackRepository.createQueryBuilder('feedback');
+    if (query.event_id !== undefined) {
+      qb.andWhere('feedback.event_id = :eventId', { eventId: query.event_id });
+    }
+    if (query.rating !== undefined) {
+      qb.andWhere('feedback.rating = :rating', { rating: query.rating });
+    }
+    if (query.min_rating !== undefined) {
+      qb.andWhere('feedback.rating >= :minRating', {
+        minRating: query.min_rating,
+      });
+    }
+    return qb;
+  }
+
+  private async findFeedback(id: number) {
+    const feedback = await this.feedbackRepository.findOneBy({
+      feedback_id: id,
+    });
+    if (!feedback) {
+      throw new NotFoundException(`Feedback with ID ${id} not found`);
+    }
+    return feedback;
+  }
+
+  private async ensureNotReviewed(eventId: number, userId: number) {
+    const existing = await this.feedbackRepository.findOneBy({
+      event_id: eventId,
+      user_id: userId,
+    });
+    if (existing) {
+      throw new ConflictException(
+        `User ${userId} already reviewed event ${eventId}; edit feedback ${existing.feedback_id} instead`,
+      );
+    }
+  }
+
+  // Only people who attended may review: checked in at the door, or holding
+  // a confirmed registration that is paid
+  private async ensureAttended(eventId: number, userId: number) {
+    const attended = await this.registrationsRepository
+      .createQueryBuilder('registration')
+      .where('registration.event_id = :eventId', { eventId })
+      .andWhere('registration.user_id = :userId', { userId })
+      .andWhere(
+        new Brackets((qb) =>
+          qb
+            .where('registration.checked_in_at IS NOT NULL')
+            .orWhere(
+              'registration.status = :confirmed AND registration.payment_status = :paid',
+              {
+                confirmed: registrationStatus.Confirmed,
+                paid: paymentStatus.Success,
+              },
+            ),
+        ),
+      )
+      .getExists();
+    if (!attended) {
+      throw new ForbiddenException(
+        `User ${userId} has no checked-in or paid registration for event ${eventId}`,
+      );
+    }
+  }
+
+  private async ensureReferencesExist(dto: CreateFeedbackDto) {
+    if (dto.event_id !== undefined) {
+      const event = await this.eventsRepository.findOneBy({
+        event_id: dto.event_id,
+      });
+      if (!event) {
+        throw new NotFoundException(`Event with ID ${dto.event_id} not found`);
+      }
+      // Feedback is about an event that took place
+      if (currentStatus(event) !== eventStatus.Completed) {
+        throw new BadRequestException(
+          `Event ${dto.event_id} has not completed yet`,
+        );
+      }
+    }
+    if (dto.user_id !== undefined) {
+      const user = await this.usersRepository.existsBy({
+        user_id: dto.user_id,
+      });
+      if (!user) {
+        throw new NotFoundException(`User with ID ${dto.user_id} not found`);
+      }
+    }
+  }
 }
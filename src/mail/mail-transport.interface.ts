@@ -0,0 +1,14 @@
+// Injection token for the active MailTransport implementation
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Implemented by every way of delivering mail (SMTP, file outbox, in-memory)
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
@@ -0,0 +1,36 @@
+import { Module } from '@nestjs/common';
+import { ConfigModule, ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT, MailTransport } from './mail-transport.interface';
+import { SmtpMailTransport } from './transports/smtp.transport';
+import { FileMailTransport } from './transports/file.transport';
+import { InMemoryMailTransport } from './transports/in-memory.transport';
+
+@Module({
+  imports: [ConfigModule],
+  providers: [
+    MailService,
+    {
+      provide: MAIL_TRANSPORT,
+      // MAIL_TRANSPORT picks the delivery method: smtp, file (default) or memory
+      useFactory: (configService: ConfigService): MailTransport => {
+        const transport = configService.get<string>('MAIL_TRANSPORT', 'file');
+        switch (transport) {
+          case 'smtp':
+            return new SmtpMailTransport(configService);
+          case 'memory':
+            return new InMemoryMailTransport();
+          case 'file':
+            return new FileMailTransport(
+              configService.get<string>('MAIL_OUTBOX_DIR', '.tmp/mail'),
+            );
+          default:
+            throw new Error(`Unknown MAIL_TRANSPORT "${transport}"`);
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [MailService, MAIL_TRANSPORT],
+})
+export class MailModule {}
@@ -0,0 +1,41 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MAIL_TRANSPORT } from './mail-transport.interface';
+import type { MailTransport } from './mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  constructor(
+    @Inject(MAIL_TRANSPORT)
+    private transport: MailTransport, // SMTP, file or in-memory depending on MAIL_TRANSPORT
+    private configService: ConfigService,
+  ) {}
+
+  private link(path: string, token: string) {
+    const baseUrl = this.configService.get<string>(
+      'FRONTEND_URL',
+      'http://localhost:3000',
+    );
+    return `${baseUrl}${path}?token=${encodeURIComponent(token)}`;
+  }
+
+  sendEmailVerification(email: string, token: string) {
+    const url = this.link('/verify-email', token);
+    return this.transport.send({
+      to: email,
+      subject: 'Verify your email address',
+      text: `Welcome! Confirm your email address by opening ${url}`,
+      html: `<p>Welcome! Confirm your email address by opening <a href="${url}">this link</a>.</p>`,
+    });
+  }
+
+  sendPasswordReset(email: string, token: string) {
+    const url = this.link('/reset-password', token);
+    return this.transport.send({
+      to: email,
+      subject: 'Reset your password',
+      text: `Someone asked to reset your password. If it was you, open ${url}. Otherwise ignore this email.`,
+      html: `<p>Someone asked to reset your password. If it was you, <a href="${url}">choose a new password</a>. Otherwise ignore this email.</p>`,
+    });
+  }
+}
@@ -0,0 +1,17 @@
+import { mkdir, writeFile } from 'fs/promises';
+import { join } from 'path';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+// Writes each message as a JSON file, for local development without an SMTP server
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly outboxDir: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await mkdir(this.outboxDir, { recursive: true });
+    const fileName = `${Date.now()}-${message.to.replace(/[^\w.@-]/g, '_')}.json`;
+    await writeFile(
+      join(this.outboxDir, fileName),
+      JSON.stringify({ ...message, sent_at: new Date() }, null, 2),
+    );
+  }
+}
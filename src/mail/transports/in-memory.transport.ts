@@ -0,0 +1,15 @@
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+// Keeps sent messages in memory so tests can inspect them
+export class InMemoryMailTransport implements MailTransport {
+  readonly sent: MailMessage[] = [];
+
+  send(message: MailMessage): Promise<void> {
+    this.sent.push(message);
+    return Promise.resolve();
+  }
+
+  clear() {
+    this.sent.length = 0;
+  }
+}
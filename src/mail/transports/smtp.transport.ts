@@ -0,0 +1,28 @@
+import { ConfigService } from '@nestjs/config';
+import { createTransport, Transporter } from 'nodemailer';
+import { MailMessage, MailTransport } from '../mail-transport.interface';
+
+// Delivers mail through an SMTP server configured with the SMTP_* variables
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: Transporter;
+  private readonly from: string;
+
+  constructor(configService: ConfigService) {
+    this.transporter = createTransport({
+      host: configService.getOrThrow<string>('SMTP_HOST'),
+      port: Number(configService.get<string>('SMTP_PORT', '587')),
+      secure: configService.get<string>('SMTP_SECURE', 'false') === 'true',
+      auth: configService.get<string>('SMTP_USER')
+        ? {
+            user: configService.getOrThrow<string>('SMTP_USER'),
+            pass: configService.getOrThrow<string>('SMTP_PASSWORD'),
+          }
+        : undefined,
+    });
+    this.from = configService.getOrThrow<string>('MAIL_FROM');
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({ from: this.from, ...message });
+  }
+}
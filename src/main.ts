@@ -1,8 +1,11 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
+import { BodyValidationPipe } from './common/body-validation.pipe';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  // rawBody keeps the unparsed body around for payment webhook signature checks
+  const app = await NestFactory.create(AppModule, { rawBody: true });
+  app.useGlobalPipes(new BodyValidationPipe());
   await app.listen(process.env.PORT ?? 3000);
 }
 bootstrap();
@@ -0,0 +1,87 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class InitialSchema1792426848627 implements MigrationInterface {
+  name = 'InitialSchema1792426848627';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."payments_payment_status_enum" AS ENUM('Success', 'Failed', 'Pending')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "payments" ("payment_id" SERIAL NOT NULL, "registration_id" integer NOT NULL, "payment_date" character varying NOT NULL, "amount" integer NOT NULL, "payment_method" character varying NOT NULL, "payment_status" "public"."payments_payment_status_enum" NOT NULL DEFAULT 'Pending', "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_8866a3cfff96b8e17c2b204aae0" PRIMARY KEY ("payment_id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."registrations_payment_status_enum" AS ENUM('Pending', 'Completed', 'Failed')`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."registrations_status_enum" AS ENUM('Confirmed', 'Waitlisted', 'Cancelled')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "registrations" ("registration_id" SERIAL NOT NULL, "event_id" integer NOT NULL, "user_id" integer NOT NULL, "registration_date" TIMESTAMP NOT NULL DEFAULT now(), "payment_status" "public"."registrations_payment_status_enum" NOT NULL, "status" "public"."registrations_status_enum" NOT NULL DEFAULT 'Confirmed', "payment_amount" numeric(10,2) NOT NULL, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_c8949057f7da2bee22a15d7cb26" PRIMARY KEY ("registration_id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "feedbacks" ("feedback_id" SERIAL NOT NULL, "event_id" integer NOT NULL, "user_id" integer NOT NULL, "rating" numeric(2) NOT NULL, "comments" character varying(255) NOT NULL, "created_at" TIMESTAMP NOT NULL, CONSTRAINT "PK_fbbc8db5ceefe347110a51c5659" PRIMARY KEY ("feedback_id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "events" ("event_id" SERIAL NOT NULL, "event_name" character varying(50) NOT NULL, "event_date" character varying(250) NOT NULL, "event_location" character varying(250) NOT NULL, "event_description" character varying(250) NOT NULL, "capacity" integer, "created_by" integer NOT NULL, "created_at" TIMESTAMP NOT NULL, "updated_at" TIMESTAMP NOT NULL, CONSTRAINT "PK_1b77463a4487f09e798dffcb43a" PRIMARY KEY ("event_id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."users_role_enum" AS ENUM('Admin', 'Organizer', 'User', 'Guest')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "users" ("user_id" SERIAL NOT NULL, "name" character varying NOT NULL, "email" character varying NOT NULL, "password" character varying NOT NULL, "phone" character varying, "hashedRefreshToken" character varying(255), "role" "public"."users_role_enum" NOT NULL DEFAULT 'User', "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_97672ac88f789774dd47f7c8be3" UNIQUE ("email"), CONSTRAINT "PK_96aac72f1574b88752e9fb00089" PRIMARY KEY ("user_id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" ADD CONSTRAINT "FK_dcf8450959aadff1b025a2434d7" FOREIGN KEY ("registration_id") REFERENCES "registrations"("registration_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ADD CONSTRAINT "FK_c082d66f7080c743a96c1e91807" FOREIGN KEY ("event_id") REFERENCES "events"("event_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ADD CONSTRAINT "FK_6aacc9b213fd8c881af6c738ecf" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" ADD CONSTRAINT "FK_f4f2807aad50f5bcee7baf26623" FOREIGN KEY ("event_id") REFERENCES "events"("event_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" ADD CONSTRAINT "FK_4334f6be2d7d841a9d5205a100e" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD CONSTRAINT "FK_1a259861a2ce114f074b366eed2" FOREIGN KEY ("created_by") REFERENCES "users"("user_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "events" DROP CONSTRAINT "FK_1a259861a2ce114f074b366eed2"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" DROP CONSTRAINT "FK_4334f6be2d7d841a9d5205a100e"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" DROP CONSTRAINT "FK_f4f2807aad50f5bcee7baf26623"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" DROP CONSTRAINT "FK_6aacc9b213fd8c881af6c738ecf"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" DROP CONSTRAINT "FK_c082d66f7080c743a96c1e91807"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" DROP CONSTRAINT "FK_dcf8450959aadff1b025a2434d7"`,
+    );
+    await queryRunner.query(`DROP TABLE "users"`);
+    await queryRunner.query(`DROP TYPE "public"."users_role_enum"`);
+    await queryRunner.query(`DROP TABLE "events"`);
+    await queryRunner.query(`DROP TABLE "feedbacks"`);
+    await queryRunner.query(`DROP TABLE "registrations"`);
+    await queryRunner.query(`DROP TYPE "public"."registrations_status_enum"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."registrations_payment_status_enum"`,
+    );
+    await queryRunner.query(`DROP TABLE "payments"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."payments_payment_status_enum"`,
+    );
+  }
+}
@@ -0,0 +1,33 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddSessions1792427028804 implements MigrationInterface {
+  name = 'AddSessions1792427028804';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "sessions" ("session_id" uuid NOT NULL, "user_id" integer NOT NULL, "family_id" uuid NOT NULL, "hashed_refresh_token" character varying(64) NOT NULL, "device_label" character varying(100), "ip_address" character varying(64), "user_agent" character varying(255), "last_used_at" TIMESTAMP NOT NULL, "expires_at" TIMESTAMP NOT NULL, "revoked_at" TIMESTAMP, "replaced_by" uuid, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_9340188c93349808f10d1db74a8" PRIMARY KEY ("session_id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_f61929073858aa9cb9cb893b66" ON "sessions" ("family_id") `,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN "hashedRefreshToken"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "sessions" ADD CONSTRAINT "FK_085d540d9f418cfbdc7bd55bb19" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "sessions" DROP CONSTRAINT "FK_085d540d9f418cfbdc7bd55bb19"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "hashedRefreshToken" character varying(255)`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_f61929073858aa9cb9cb893b66"`,
+    );
+    await queryRunner.query(`DROP TABLE "sessions"`);
+  }
+}
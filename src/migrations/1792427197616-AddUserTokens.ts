@@ -0,0 +1,31 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddUserTokens1792427197616 implements MigrationInterface {
+  name = 'AddUserTokens1792427197616';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "users" ADD "email_verified_at" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."user_tokens_purpose_enum" AS ENUM('EmailVerification', 'PasswordReset')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "user_tokens" ("token_id" SERIAL NOT NULL, "user_id" integer NOT NULL, "purpose" "public"."user_tokens_purpose_enum" NOT NULL, "token_hash" character varying(64) NOT NULL, "expires_at" TIMESTAMP NOT NULL, "used_at" TIMESTAMP, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_ebdd918653813b59cdd5d379b5b" UNIQUE ("token_hash"), CONSTRAINT "PK_dfdcc79f9486c6b1381497a0fc3" PRIMARY KEY ("token_id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_tokens" ADD CONSTRAINT "FK_9e144a67be49e5bba91195ef5de" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "user_tokens" DROP CONSTRAINT "FK_9e144a67be49e5bba91195ef5de"`,
+    );
+    await queryRunner.query(`DROP TABLE "user_tokens"`);
+    await queryRunner.query(`DROP TYPE "public"."user_tokens_purpose_enum"`);
+    await queryRunner.query(
+      `ALTER TABLE "users" DROP COLUMN "email_verified_at"`,
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPermissions1792427702959 implements MigrationInterface {
+  name = 'AddPermissions1792427702959';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "permissions" ("permission_id" SERIAL NOT NULL, "name" character varying NOT NULL, "description" character varying, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_48ce552495d14eae9b187bb6716" UNIQUE ("name"), CONSTRAINT "PK_1717db2235a5b169822e7f753b1" PRIMARY KEY ("permission_id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "user_permissions" ("user_id" integer NOT NULL, "permission_id" integer NOT NULL, "granted_by" integer, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_a537c48b1f80e8626a71cb56589" PRIMARY KEY ("user_id", "permission_id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."role_permissions_role_enum" AS ENUM('Admin', 'Organizer', 'User', 'Guest')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "role_permissions" ("role" "public"."role_permissions_role_enum" NOT NULL, "permission_id" integer NOT NULL, CONSTRAINT "PK_9b6dd376ceeb1c43ae35000fb5b" PRIMARY KEY ("role", "permission_id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_permissions" ADD CONSTRAINT "FK_3495bd31f1862d02931e8e8d2e8" FOREIGN KEY ("user_id") REFERENCES "users"("user_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_permissions" ADD CONSTRAINT "FK_8145f5fadacd311693c15e41f10" FOREIGN KEY ("permission_id") REFERENCES "permissions"("permission_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "role_permissions" ADD CONSTRAINT "FK_17022daf3f885f7d35423e9971e" FOREIGN KEY ("permission_id") REFERENCES "permissions"("permission_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    // Permissions referenced by @RequirePermissions in the controllers
+    await queryRunner.query(
+      `INSERT INTO "permissions" ("name", "description") VALUES ('payments:read', 'List all payments'), ('payments:manage', 'Update and delete payments'), ('registrations:read', 'List all registrations')`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "role_permissions" DROP CONSTRAINT "FK_17022daf3f885f7d35423e9971e"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_permissions" DROP CONSTRAINT "FK_8145f5fadacd311693c15e41f10"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "user_permissions" DROP CONSTRAINT "FK_3495bd31f1862d02931e8e8d2e8"`,
+    );
+    await queryRunner.query(`DROP TABLE "role_permissions"`);
+    await queryRunner.query(`DROP TYPE "public"."role_permissions_role_enum"`);
+    await queryRunner.query(`DROP TABLE "user_permissions"`);
+    await queryRunner.query(`DROP TABLE "permissions"`);
+  }
+}
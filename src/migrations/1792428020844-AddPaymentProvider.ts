@@ -0,0 +1,37 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPaymentProvider1792428020844 implements MigrationInterface {
+  name = 'AddPaymentProvider1792428020844';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "payments" ADD "provider" character varying`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" ADD "provider_session_id" character varying`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" ADD "checkout_url" character varying`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_c2a1b9668618a7eda2d2cba91d" ON "payments" ("provider_session_id")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "payment_webhook_events" ("provider" character varying NOT NULL, "event_id" character varying NOT NULL, "type" character varying NOT NULL, "payment_id" integer, "received_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_6d9f05715869e726f06f8a1cac8" PRIMARY KEY ("provider", "event_id"))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP TABLE "payment_webhook_events"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_c2a1b9668618a7eda2d2cba91d"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" DROP COLUMN "checkout_url"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" DROP COLUMN "provider_session_id"`,
+    );
+    await queryRunner.query(`ALTER TABLE "payments" DROP COLUMN "provider"`);
+  }
+}
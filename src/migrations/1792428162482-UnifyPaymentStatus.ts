@@ -0,0 +1,56 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class UnifyPaymentStatus1792428162482 implements MigrationInterface {
+  name = 'UnifyPaymentStatus1792428162482';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."registrations_payment_status_enum" RENAME TO "registrations_payment_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."registrations_payment_status_enum" AS ENUM('Success', 'Failed', 'Pending')`,
+    );
+    // Registrations used Completed where payments use Success
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ALTER COLUMN "payment_status" TYPE "public"."registrations_payment_status_enum" USING (CASE "payment_status"::text WHEN 'Completed' THEN 'Success' ELSE "payment_status"::text END)::"public"."registrations_payment_status_enum"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."registrations_payment_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ALTER COLUMN "payment_status" SET DEFAULT 'Pending'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ADD "amount_paid" numeric(10,2) NOT NULL DEFAULT '0'`,
+    );
+    // Derive the status of registrations that have payments, the same way
+    // PaymentStatusService does; those without payments keep their status
+    await queryRunner.query(
+      `UPDATE "registrations" SET "amount_paid" = (SELECT COALESCE(SUM("payments"."amount"), 0) FROM "payments" WHERE "payments"."registration_id" = "registrations"."registration_id" AND "payments"."payment_status" = 'Success')`,
+    );
+    await queryRunner.query(
+      `UPDATE "registrations" SET "payment_status" = (CASE WHEN "amount_paid" >= "payment_amount" THEN 'Success' WHEN "amount_paid" = 0 AND NOT EXISTS (SELECT 1 FROM "payments" WHERE "payments"."registration_id" = "registrations"."registration_id" AND "payments"."payment_status" <> 'Failed') THEN 'Failed' ELSE 'Pending' END)::"public"."registrations_payment_status_enum" WHERE EXISTS (SELECT 1 FROM "payments" WHERE "payments"."registration_id" = "registrations"."registration_id")`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "registrations" DROP COLUMN "amount_paid"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ALTER COLUMN "payment_status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."registrations_payment_status_enum_old" AS ENUM('Pending', 'Completed', 'Failed')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ALTER COLUMN "payment_status" TYPE "public"."registrations_payment_status_enum_old" USING (CASE "payment_status"::text WHEN 'Success' THEN 'Completed' ELSE "payment_status"::text END)::"public"."registrations_payment_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."registrations_payment_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."registrations_payment_status_enum_old" RENAME TO "registrations_payment_status_enum"`,
+    );
+  }
+}
@@ -0,0 +1,116 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddRefunds1792428379644 implements MigrationInterface {
+  name = 'AddRefunds1792428379644';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TYPE "public"."payments_payment_status_enum" RENAME TO "payments_payment_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."payments_payment_status_enum" AS ENUM('Success', 'Failed', 'Pending', 'Refunded', 'PartiallyRefunded')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" ALTER COLUMN "payment_status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" ALTER COLUMN "payment_status" TYPE "public"."payments_payment_status_enum" USING "payment_status"::"text"::"public"."payments_payment_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" ALTER COLUMN "payment_status" SET DEFAULT 'Pending'`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."payments_payment_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."registrations_payment_status_enum" RENAME TO "registrations_payment_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."registrations_payment_status_enum" AS ENUM('Success', 'Failed', 'Pending', 'Refunded', 'PartiallyRefunded')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ALTER COLUMN "payment_status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ALTER COLUMN "payment_status" TYPE "public"."registrations_payment_status_enum" USING "payment_status"::"text"::"public"."registrations_payment_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ALTER COLUMN "payment_status" SET DEFAULT 'Pending'`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."registrations_payment_status_enum_old"`,
+    );
+    await queryRunner.query(`ALTER TABLE "payments" ADD "refund_of" integer`);
+    await queryRunner.query(
+      `ALTER TABLE "payments" ADD "provider_refund_id" character varying`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" ADD CONSTRAINT "FK_3ac54b21323c6243b0bd4c1898a" FOREIGN KEY ("refund_of") REFERENCES "payments"("payment_id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD "refund_full_days_before" integer NOT NULL DEFAULT '7'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD "refund_partial_percent" integer NOT NULL DEFAULT '50'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD "cancelled_at" TIMESTAMP`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "events" DROP COLUMN "cancelled_at"`);
+    await queryRunner.query(
+      `ALTER TABLE "events" DROP COLUMN "refund_partial_percent"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" DROP COLUMN "refund_full_days_before"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" DROP CONSTRAINT "FK_3ac54b21323c6243b0bd4c1898a"`,
+    );
+    await queryRunner.query(
+      `DELETE FROM "payments" WHERE "payment_status" IN ('Refunded', 'PartiallyRefunded')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" DROP COLUMN "provider_refund_id"`,
+    );
+    await queryRunner.query(`ALTER TABLE "payments" DROP COLUMN "refund_of"`);
+    await queryRunner.query(
+      `CREATE TYPE "public"."registrations_payment_status_enum_old" AS ENUM('Success', 'Failed', 'Pending')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ALTER COLUMN "payment_status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ALTER COLUMN "payment_status" TYPE "public"."registrations_payment_status_enum_old" USING (CASE WHEN "payment_status"::text IN ('Refunded', 'PartiallyRefunded') THEN 'Success' ELSE "payment_status"::text END)::"public"."registrations_payment_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ALTER COLUMN "payment_status" SET DEFAULT 'Pending'`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."registrations_payment_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."registrations_payment_status_enum_old" RENAME TO "registrations_payment_status_enum"`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."payments_payment_status_enum_old" AS ENUM('Success', 'Failed', 'Pending')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" ALTER COLUMN "payment_status" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" ALTER COLUMN "payment_status" TYPE "public"."payments_payment_status_enum_old" USING "payment_status"::"text"::"public"."payments_payment_status_enum_old"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "payments" ALTER COLUMN "payment_status" SET DEFAULT 'Pending'`,
+    );
+    await queryRunner.query(
+      `DROP TYPE "public"."payments_payment_status_enum"`,
+    );
+    await queryRunner.query(
+      `ALTER TYPE "public"."payments_payment_status_enum_old" RENAME TO "payments_payment_status_enum"`,
+    );
+  }
+}
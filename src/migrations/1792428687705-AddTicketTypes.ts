@@ -0,0 +1,49 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTicketTypes1792428687705 implements MigrationInterface {
+  name = 'AddTicketTypes1792428687705';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "ticket_types" ("ticket_type_id" SERIAL NOT NULL, "event_id" integer NOT NULL, "name" character varying(50) NOT NULL, "price" numeric(10,2) NOT NULL, "currency" character varying(3) NOT NULL DEFAULT 'USD', "quota" integer, "sales_start" TIMESTAMP, "sales_end" TIMESTAMP, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_eeed2f62ef7eb71e050f2d0358e" UNIQUE ("event_id", "name"), CONSTRAINT "PK_f30ba8dc3c46510e92258de343e" PRIMARY KEY ("ticket_type_id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "price_tiers" ("price_tier_id" SERIAL NOT NULL, "ticket_type_id" integer NOT NULL, "name" character varying(50) NOT NULL, "price" numeric(10,2) NOT NULL, "ends_at" TIMESTAMP NOT NULL, CONSTRAINT "PK_d79231c6e3523a2cf46f0fda40c" PRIMARY KEY ("price_tier_id"))`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ADD "ticket_type_id" integer`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ADD "currency" character varying(3) NOT NULL DEFAULT 'USD'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ticket_types" ADD CONSTRAINT "FK_9dfa62b35548ea1e0b7e4675b20" FOREIGN KEY ("event_id") REFERENCES "events"("event_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "price_tiers" ADD CONSTRAINT "FK_841947bfb173fd0cf22e7ad5da2" FOREIGN KEY ("ticket_type_id") REFERENCES "ticket_types"("ticket_type_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ADD CONSTRAINT "FK_bb752c232d10f1c055dc5a99f8d" FOREIGN KEY ("ticket_type_id") REFERENCES "ticket_types"("ticket_type_id") ON DELETE RESTRICT ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "registrations" DROP CONSTRAINT "FK_bb752c232d10f1c055dc5a99f8d"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "price_tiers" DROP CONSTRAINT "FK_841947bfb173fd0cf22e7ad5da2"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ticket_types" DROP CONSTRAINT "FK_9dfa62b35548ea1e0b7e4675b20"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" DROP COLUMN "currency"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" DROP COLUMN "ticket_type_id"`,
+    );
+    await queryRunner.query(`DROP TABLE "price_tiers"`);
+    await queryRunner.query(`DROP TABLE "ticket_types"`);
+  }
+}
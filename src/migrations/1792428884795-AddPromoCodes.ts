@@ -0,0 +1,95 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddPromoCodes1792428884795 implements MigrationInterface {
+  name = 'AddPromoCodes1792428884795';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."promo_codes_discount_type_enum" AS ENUM('Percentage', 'Fixed')`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "promo_codes" ("promo_code_id" SERIAL NOT NULL, "code" character varying(32) NOT NULL, "discount_type" "public"."promo_codes_discount_type_enum" NOT NULL, "discount_value" numeric(10,2) NOT NULL, "max_redemptions" integer, "per_user_limit" integer, "valid_from" TIMESTAMP, "valid_until" TIMESTAMP, "redemption_count" integer NOT NULL DEFAULT '0', "created_by" integer NOT NULL, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_1f43c1fbea511d724b665923341" PRIMARY KEY ("promo_code_id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_2f096c406a9d9d5b8ce204190c" ON "promo_codes" ("code")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "promo_redemptions" ("redemption_id" SERIAL NOT NULL, "promo_code_id" integer NOT NULL, "registration_id" integer NOT NULL, "user_id" integer NOT NULL, "event_id" integer NOT NULL, "discount_amount" numeric(10,2) NOT NULL, "created_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_c4186054f2a6a1d281a90feb463" PRIMARY KEY ("redemption_id"))`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_684b3cf41f9347755258b5e773" ON "promo_redemptions" ("registration_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_309867ff226735ded800bf41fc" ON "promo_redemptions" ("promo_code_id", "user_id")`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "promo_code_events" ("promo_code_id" integer NOT NULL, "event_id" integer NOT NULL, CONSTRAINT "PK_fb8004adc4ca869609f47bf1a62" PRIMARY KEY ("promo_code_id", "event_id"))`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_cf2b35bed2afd27132660b0146" ON "promo_code_events" ("promo_code_id")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_ee08e18da7d8c906ed4624d4d8" ON "promo_code_events" ("event_id")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "promo_codes" ADD CONSTRAINT "FK_b92a143baf32a667bb94c3ba38d" FOREIGN KEY ("created_by") REFERENCES "users"("user_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "promo_redemptions" ADD CONSTRAINT "FK_86e2ca7e056d554ec51f39a7671" FOREIGN KEY ("promo_code_id") REFERENCES "promo_codes"("promo_code_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "promo_redemptions" ADD CONSTRAINT "FK_684b3cf41f9347755258b5e773a" FOREIGN KEY ("registration_id") REFERENCES "registrations"("registration_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "promo_code_events" ADD CONSTRAINT "FK_cf2b35bed2afd27132660b01460" FOREIGN KEY ("promo_code_id") REFERENCES "promo_codes"("promo_code_id") ON DELETE CASCADE ON UPDATE CASCADE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "promo_code_events" ADD CONSTRAINT "FK_ee08e18da7d8c906ed4624d4d8a" FOREIGN KEY ("event_id") REFERENCES "events"("event_id") ON DELETE CASCADE ON UPDATE CASCADE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ADD "discount_amount" numeric(10,2) NOT NULL DEFAULT '0'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "registrations" DROP COLUMN "discount_amount"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "promo_code_events" DROP CONSTRAINT "FK_ee08e18da7d8c906ed4624d4d8a"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "promo_code_events" DROP CONSTRAINT "FK_cf2b35bed2afd27132660b01460"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "promo_redemptions" DROP CONSTRAINT "FK_684b3cf41f9347755258b5e773a"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "promo_redemptions" DROP CONSTRAINT "FK_86e2ca7e056d554ec51f39a7671"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "promo_codes" DROP CONSTRAINT "FK_b92a143baf32a667bb94c3ba38d"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_ee08e18da7d8c906ed4624d4d8"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_cf2b35bed2afd27132660b0146"`,
+    );
+    await queryRunner.query(`DROP TABLE "promo_code_events"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_309867ff226735ded800bf41fc"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_684b3cf41f9347755258b5e773"`,
+    );
+    await queryRunner.query(`DROP TABLE "promo_redemptions"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_2f096c406a9d9d5b8ce204190c"`,
+    );
+    await queryRunner.query(`DROP TABLE "promo_codes"`);
+    await queryRunner.query(
+      `DROP TYPE "public"."promo_codes_discount_type_enum"`,
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddTicketCheckIn1792429107759 implements MigrationInterface {
+  name = 'AddTicketCheckIn1792429107759';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ADD "checked_in_at" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" ADD "checked_in_by" integer`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "registrations" DROP COLUMN "checked_in_by"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "registrations" DROP COLUMN "checked_in_at"`,
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class EventSchedule1792429303477 implements MigrationInterface {
+  name = 'EventSchedule1792429303477';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD "starts_at" TIMESTAMP WITH TIME ZONE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD "ends_at" TIMESTAMP WITH TIME ZONE`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD "timezone" character varying(64) NOT NULL DEFAULT 'UTC'`,
+    );
+    // event_date was free text; parse what parses (a missing offset means
+    // UTC) and fall back to when the event was created
+    await queryRunner.query(
+      `DO $$ DECLARE r RECORD; BEGIN SET LOCAL TIME ZONE 'UTC'; FOR r IN SELECT "event_id", "event_date", "created_at" FROM "events" LOOP BEGIN UPDATE "events" SET "starts_at" = r."event_date"::timestamptz WHERE "event_id" = r."event_id"; EXCEPTION WHEN others THEN UPDATE "events" SET "starts_at" = r."created_at" WHERE "event_id" = r."event_id"; END; END LOOP; END $$`,
+    );
+    // Existing events had no end, so they last until the end of their day
+    await queryRunner.query(
+      `UPDATE "events" SET "ends_at" = (date_trunc('day', "starts_at" AT TIME ZONE 'UTC') + INTERVAL '1 day') AT TIME ZONE 'UTC'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ALTER COLUMN "starts_at" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ALTER COLUMN "ends_at" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD CONSTRAINT "CHK_events_ends_after_starts" CHECK ("ends_at" > "starts_at")`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_da080c835c9fc4e0aa5e8fe264" ON "events" ("starts_at")`,
+    );
+    await queryRunner.query(`ALTER TABLE "events" DROP COLUMN "event_date"`);
+    await queryRunner.query(
+      `ALTER TABLE "events" ALTER COLUMN "created_at" SET DEFAULT now()`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ALTER COLUMN "updated_at" SET DEFAULT now()`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "events" ALTER COLUMN "updated_at" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ALTER COLUMN "created_at" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD "event_date" character varying(250)`,
+    );
+    // Back to local wall-clock time, without the offset
+    await queryRunner.query(
+      `UPDATE "events" SET "event_date" = to_char("starts_at" AT TIME ZONE "timezone", 'YYYY-MM-DD"T"HH24:MI:SS')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ALTER COLUMN "event_date" SET NOT NULL`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_da080c835c9fc4e0aa5e8fe264"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" DROP CONSTRAINT "CHK_events_ends_after_starts"`,
+    );
+    await queryRunner.query(`ALTER TABLE "events" DROP COLUMN "timezone"`);
+    await queryRunner.query(`ALTER TABLE "events" DROP COLUMN "ends_at"`);
+    await queryRunner.query(`ALTER TABLE "events" DROP COLUMN "starts_at"`);
+  }
+}
@@ -0,0 +1,27 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class EventLifecycle1792429579632 implements MigrationInterface {
+  name = 'EventLifecycle1792429579632';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TYPE "public"."events_status_enum" AS ENUM('Draft', 'Published', 'Cancelled', 'Completed')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD "status" "public"."events_status_enum" NOT NULL DEFAULT 'Draft'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD "published_at" TIMESTAMP`,
+    );
+    // Existing events went live when they were created
+    await queryRunner.query(
+      `UPDATE "events" SET "status" = CASE WHEN "cancelled_at" IS NOT NULL THEN 'Cancelled'::"public"."events_status_enum" WHEN "ends_at" <= now() THEN 'Completed'::"public"."events_status_enum" ELSE 'Published'::"public"."events_status_enum" END, "published_at" = "created_at"`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "events" DROP COLUMN "published_at"`);
+    await queryRunner.query(`ALTER TABLE "events" DROP COLUMN "status"`);
+    await queryRunner.query(`DROP TYPE "public"."events_status_enum"`);
+  }
+}
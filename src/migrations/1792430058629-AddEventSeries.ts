@@ -0,0 +1,43 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddEventSeries1792430058629 implements MigrationInterface {
+  name = 'AddEventSeries1792430058629';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "event_series" ("series_id" SERIAL NOT NULL, "event_name" character varying(50) NOT NULL, "event_location" character varying(250) NOT NULL, "event_description" character varying(250) NOT NULL, "capacity" integer, "refund_full_days_before" integer NOT NULL DEFAULT '7', "refund_partial_percent" integer NOT NULL DEFAULT '50', "starts_at" TIMESTAMP WITH TIME ZONE NOT NULL, "duration_minutes" integer NOT NULL, "timezone" character varying(64) NOT NULL DEFAULT 'UTC', "rrule" character varying(255) NOT NULL, "exdates" text NOT NULL DEFAULT '', "auto_publish" boolean NOT NULL DEFAULT false, "generated_until" TIMESTAMP WITH TIME ZONE, "created_by" integer NOT NULL, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_b74b6856ddcb4a8aaf72cce4ee7" PRIMARY KEY ("series_id"))`,
+    );
+    await queryRunner.query(`ALTER TABLE "events" ADD "series_id" integer`);
+    await queryRunner.query(`ALTER TABLE "events" ADD "occurrence_date" date`);
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD "detached" boolean NOT NULL DEFAULT false`,
+    );
+    await queryRunner.query(
+      `CREATE UNIQUE INDEX "IDX_b3b601b68c372c2c1c4152cad2" ON "events" ("series_id", "occurrence_date")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "event_series" ADD CONSTRAINT "FK_8567917836e5570c81088bfa5d5" FOREIGN KEY ("created_by") REFERENCES "users"("user_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD CONSTRAINT "FK_b813f31f3fbf0410fec4ec7734a" FOREIGN KEY ("series_id") REFERENCES "event_series"("series_id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "events" DROP CONSTRAINT "FK_b813f31f3fbf0410fec4ec7734a"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "event_series" DROP CONSTRAINT "FK_8567917836e5570c81088bfa5d5"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_b3b601b68c372c2c1c4152cad2"`,
+    );
+    await queryRunner.query(`ALTER TABLE "events" DROP COLUMN "detached"`);
+    await queryRunner.query(
+      `ALTER TABLE "events" DROP COLUMN "occurrence_date"`,
+    );
+    await queryRunner.query(`ALTER TABLE "events" DROP COLUMN "series_id"`);
+    await queryRunner.query(`DROP TABLE "event_series"`);
+  }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class EventSearch1792430394129 implements MigrationInterface {
+  name = 'EventSearch1792430394129';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD "latitude" double precision`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD "longitude" double precision`,
+    );
+    await queryRunner.query(
+      `CREATE INDEX "IDX_58095308749008e0a54eabf0ff" ON "events" ("latitude", "longitude")`,
+    );
+    // Same expression as searchDocument() in src/events/event-search.ts
+    await queryRunner.query(
+      `CREATE INDEX "IDX_events_search" ON "events" USING GIN ((setweight(to_tsvector('english', "event_name"), 'A') || setweight(to_tsvector('english', "event_location"), 'B') || setweight(to_tsvector('english', "event_description"), 'C')))`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`DROP INDEX "public"."IDX_events_search"`);
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_58095308749008e0a54eabf0ff"`,
+    );
+    await queryRunner.query(`ALTER TABLE "events" DROP COLUMN "longitude"`);
+    await queryRunner.query(`ALTER TABLE "events" DROP COLUMN "latitude"`);
+  }
+}
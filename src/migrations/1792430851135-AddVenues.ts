@@ -0,0 +1,53 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class AddVenues1792430851135 implements MigrationInterface {
+  name = 'AddVenues1792430851135';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `CREATE TABLE "venues" ("venue_id" SERIAL NOT NULL, "name" character varying(100) NOT NULL, "address" character varying(250) NOT NULL, "latitude" double precision, "longitude" double precision, "accessibility" character varying(500), "created_by" integer NOT NULL, "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "PK_77d588c5580190278e6cef8c2d8" PRIMARY KEY ("venue_id"))`,
+    );
+    await queryRunner.query(
+      `CREATE TABLE "rooms" ("room_id" SERIAL NOT NULL, "venue_id" integer NOT NULL, "name" character varying(100) NOT NULL, "capacity" integer, "accessibility" character varying(500), "created_at" TIMESTAMP NOT NULL DEFAULT now(), "updated_at" TIMESTAMP NOT NULL DEFAULT now(), CONSTRAINT "UQ_176e9bed873068ff5f328afe778" UNIQUE ("venue_id", "name"), CONSTRAINT "PK_a54158a6ef7c66aaa81e7aa2421" PRIMARY KEY ("room_id"))`,
+    );
+    await queryRunner.query(`ALTER TABLE "events" ADD "room_id" integer`);
+    await queryRunner.query(`ALTER TABLE "event_series" ADD "room_id" integer`);
+    await queryRunner.query(
+      `CREATE INDEX "IDX_a8e5a0c9138556e92c6b8f7c2c" ON "events" ("room_id", "starts_at")`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "venues" ADD CONSTRAINT "FK_89b83af8a279e5106ea445ecdb0" FOREIGN KEY ("created_by") REFERENCES "users"("user_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "rooms" ADD CONSTRAINT "FK_09b80c623071e69c1a984b7624b" FOREIGN KEY ("venue_id") REFERENCES "venues"("venue_id") ON DELETE CASCADE ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD CONSTRAINT "FK_d1f67b34671b52a2d1604111fe8" FOREIGN KEY ("room_id") REFERENCES "rooms"("room_id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "event_series" ADD CONSTRAINT "FK_9cd2604fc355da85e4a214eade2" FOREIGN KEY ("room_id") REFERENCES "rooms"("room_id") ON DELETE SET NULL ON UPDATE NO ACTION`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "event_series" DROP CONSTRAINT "FK_9cd2604fc355da85e4a214eade2"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" DROP CONSTRAINT "FK_d1f67b34671b52a2d1604111fe8"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "rooms" DROP CONSTRAINT "FK_09b80c623071e69c1a984b7624b"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "venues" DROP CONSTRAINT "FK_89b83af8a279e5106ea445ecdb0"`,
+    );
+    await queryRunner.query(
+      `DROP INDEX "public"."IDX_a8e5a0c9138556e92c6b8f7c2c"`,
+    );
+    await queryRunner.query(`ALTER TABLE "event_series" DROP COLUMN "room_id"`);
+    await queryRunner.query(`ALTER TABLE "events" DROP COLUMN "room_id"`);
+    await queryRunner.query(`DROP TABLE "rooms"`);
+    await queryRunner.query(`DROP TABLE "venues"`);
+  }
+}
@@ -0,0 +1,70 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class FeedbackModeration1792431297881 implements MigrationInterface {
+  name = 'FeedbackModeration1792431297881';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Of several reviews by the same user for an event, the latest stays
+    await queryRunner.query(
+      `DELETE FROM "feedbacks" "older" USING "feedbacks" "newer" WHERE "newer"."event_id" = "older"."event_id" AND "newer"."user_id" = "older"."user_id" AND "newer"."feedback_id" > "older"."feedback_id"`,
+    );
+    // Out-of-range ratings are moved to the nearest whole star
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" ALTER COLUMN "rating" TYPE smallint USING least(greatest(round("rating"), 1), 5)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" ADD CONSTRAINT "CHK_feedbacks_rating" CHECK ("rating" BETWEEN 1 AND 5)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" ADD CONSTRAINT "UQ_96206c7765414174d5214da03f4" UNIQUE ("event_id", "user_id")`,
+    );
+    await queryRunner.query(
+      `CREATE TYPE "public"."feedbacks_status_enum" AS ENUM('Published', 'Flagged', 'Hidden', 'Approved')`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" ADD "status" "public"."feedbacks_status_enum" NOT NULL DEFAULT 'Published'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" ADD "moderation_note" character varying(255)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" ADD "moderated_by" integer`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" ADD "moderated_at" TIMESTAMP`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" ALTER COLUMN "created_at" SET DEFAULT now()`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" ADD "updated_at" TIMESTAMP NOT NULL DEFAULT now()`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "feedbacks" DROP COLUMN "updated_at"`);
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" ALTER COLUMN "created_at" DROP DEFAULT`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" DROP COLUMN "moderated_at"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" DROP COLUMN "moderated_by"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" DROP COLUMN "moderation_note"`,
+    );
+    await queryRunner.query(`ALTER TABLE "feedbacks" DROP COLUMN "status"`);
+    await queryRunner.query(`DROP TYPE "public"."feedbacks_status_enum"`);
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" DROP CONSTRAINT "UQ_96206c7765414174d5214da03f4"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" DROP CONSTRAINT "CHK_feedbacks_rating"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "feedbacks" ALTER COLUMN "rating" TYPE numeric(2)`,
+    );
+  }
+}
@@ -0,0 +1,30 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class RefundPolicyChecks1792433760795 implements MigrationInterface {
+  name = 'RefundPolicyChecks1792433760795';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    // Policies were not validated before; bring any out-of-range value into range
+    await queryRunner.query(
+      `UPDATE "events" SET "refund_full_days_before" = GREATEST("refund_full_days_before", 0), "refund_partial_percent" = LEAST(GREATEST("refund_partial_percent", 0), 100)`,
+    );
+    await queryRunner.query(
+      `UPDATE "event_series" SET "refund_full_days_before" = GREATEST("refund_full_days_before", 0), "refund_partial_percent" = LEAST(GREATEST("refund_partial_percent", 0), 100)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD CONSTRAINT "CHK_events_refund_policy" CHECK ("refund_full_days_before" >= 0 AND "refund_partial_percent" BETWEEN 0 AND 100)`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "event_series" ADD CONSTRAINT "CHK_event_series_refund_policy" CHECK ("refund_full_days_before" >= 0 AND "refund_partial_percent" BETWEEN 0 AND 100)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "event_series" DROP CONSTRAINT "CHK_event_series_refund_policy"`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" DROP CONSTRAINT "CHK_events_refund_policy"`,
+    );
+  }
+}
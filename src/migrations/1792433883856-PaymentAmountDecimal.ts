@@ -0,0 +1,18 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class PaymentAmountDecimal1792433883856 implements MigrationInterface {
+  name = 'PaymentAmountDecimal1792433883856';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "payments" ALTER COLUMN "amount" TYPE numeric(10,2)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    // Amounts go back to whole units, so cents are lost
+    await queryRunner.query(
+      `ALTER TABLE "payments" ALTER COLUMN "amount" TYPE integer USING round("amount")`,
+    );
+  }
+}
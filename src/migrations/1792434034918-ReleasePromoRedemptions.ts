@@ -0,0 +1,26 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class ReleasePromoRedemptions1792434034918
+  implements MigrationInterface
+{
+  name = 'ReleasePromoRedemptions1792434034918';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "promo_redemptions" ADD "released_at" TIMESTAMP`,
+    );
+    // Give back the uses of registrations cancelled before uses were released
+    await queryRunner.query(
+      `UPDATE "promo_redemptions" SET "released_at" = now() WHERE "registration_id" IN (SELECT "registration_id" FROM "registrations" WHERE "status" = 'Cancelled')`,
+    );
+    await queryRunner.query(
+      `UPDATE "promo_codes" SET "redemption_count" = (SELECT COUNT(*) FROM "promo_redemptions" WHERE "promo_redemptions"."promo_code_id" = "promo_codes"."promo_code_id" AND "promo_redemptions"."released_at" IS NULL)`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "promo_redemptions" DROP COLUMN "released_at"`,
+    );
+  }
+}
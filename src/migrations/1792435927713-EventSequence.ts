@@ -0,0 +1,20 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class EventSequence1792435927713 implements MigrationInterface {
+  name = 'EventSequence1792435927713';
+
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "events" ADD "sequence" integer NOT NULL DEFAULT 0`,
+    );
+    // Feeds used to send seconds since creation; start from there so
+    // calendar apps do not take the next change for an older copy
+    await queryRunner.query(
+      `UPDATE "events" SET "sequence" = GREATEST(0, FLOOR(EXTRACT(EPOCH FROM ("updated_at" - "created_at"))))::integer`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(`ALTER TABLE "events" DROP COLUMN "sequence"`);
+  }
+}
@@ -0,0 +1,54 @@
+import { MigrationInterface, QueryRunner } from 'typeorm';
+
+export class TimestampsWithTimeZone1792436024587 implements MigrationInterface {
+  name = 'TimestampsWithTimeZone1792436024587';
+
+  // The stored values are read as UTC, as EventSchedule did for event_date
+  public async up(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "events" ALTER COLUMN "published_at" TYPE TIMESTAMP WITH TIME ZONE USING "published_at" AT TIME ZONE 'UTC'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ALTER COLUMN "cancelled_at" TYPE TIMESTAMP WITH TIME ZONE USING "cancelled_at" AT TIME ZONE 'UTC'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ticket_types" ALTER COLUMN "sales_start" TYPE TIMESTAMP WITH TIME ZONE USING "sales_start" AT TIME ZONE 'UTC'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ticket_types" ALTER COLUMN "sales_end" TYPE TIMESTAMP WITH TIME ZONE USING "sales_end" AT TIME ZONE 'UTC'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "price_tiers" ALTER COLUMN "ends_at" TYPE TIMESTAMP WITH TIME ZONE USING "ends_at" AT TIME ZONE 'UTC'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "promo_codes" ALTER COLUMN "valid_from" TYPE TIMESTAMP WITH TIME ZONE USING "valid_from" AT TIME ZONE 'UTC'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "promo_codes" ALTER COLUMN "valid_until" TYPE TIMESTAMP WITH TIME ZONE USING "valid_until" AT TIME ZONE 'UTC'`,
+    );
+  }
+
+  public async down(queryRunner: QueryRunner): Promise<void> {
+    await queryRunner.query(
+      `ALTER TABLE "promo_codes" ALTER COLUMN "valid_until" TYPE TIMESTAMP USING "valid_until" AT TIME ZONE 'UTC'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "promo_codes" ALTER COLUMN "valid_from" TYPE TIMESTAMP USING "valid_from" AT TIME ZONE 'UTC'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "price_tiers" ALTER COLUMN "ends_at" TYPE TIMESTAMP USING "ends_at" AT TIME ZONE 'UTC'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ticket_types" ALTER COLUMN "sales_end" TYPE TIMESTAMP USING "sales_end" AT TIME ZONE 'UTC'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "ticket_types" ALTER COLUMN "sales_start" TYPE TIMESTAMP USING "sales_start" AT TIME ZONE 'UTC'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ALTER COLUMN "cancelled_at" TYPE TIMESTAMP USING "cancelled_at" AT TIME ZONE 'UTC'`,
+    );
+    await queryRunner.query(
+      `ALTER TABLE "events" ALTER COLUMN "published_at" TYPE TIMESTAMP USING "published_at" AT TIME ZONE 'UTC'`,
+    );
+  }
+}
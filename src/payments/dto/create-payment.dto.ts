@@ -1,37 +1,37 @@
-import { IsEmail, IsNotEmpty, IsOptional, IsEnum, MinLength, IsString, IsDate, IsNumber } from 'class-validator';
+import {
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsNumber,
+  IsPositive,
+  Max,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
-import { paymentStatus } from '../entities/payment.entity';
-
 
 export class CreatePaymentDto {
-    @ApiProperty()
-    @IsOptional()
-    payment_id: number;
-
-    @ApiProperty()
-    @IsNotEmpty()
-    @IsNumber()
-    registration_id: number;
-
-    @ApiProperty()
-    @IsNotEmpty()
-    payment_date: string;
-
-    @ApiProperty()
-    @IsNotEmpty()
-    amount: number;
-
-    @ApiProperty()
-    @IsNotEmpty()
-    payment_method: string;
-    
-    @ApiProperty()
-    @IsNotEmpty()
-    payment_status: paymentStatus;
-
-    @ApiProperty()
-    created_at: Date;
-
-    @ApiProperty()
-    updated_at: Date;
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsNumber()
+  registration_id: number;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsString()
+  payment_date: string;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Up to two decimals; defaults to what is still owed on the registration',
+  })
+  @IsOptional()
+  @IsNumber({ maxDecimalPlaces: 2 })
+  @IsPositive()
+  @Max(99999999.99)
+  amount?: number;
+
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsString()
+  payment_method: string;
 }
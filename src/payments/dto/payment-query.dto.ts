@@ -0,0 +1,28 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsIn, IsOptional, IsString } from 'class-validator';
+import { PaginationQueryDto } from 'src/common/pagination/pagination-query.dto';
+import { paymentStatus } from '../payment-status.enum';
+
+export const PAYMENT_SORT_FIELDS = [
+  'payment_id',
+  'payment_date',
+  'amount',
+  'created_at',
+] as const;
+
+export class PaymentQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: PAYMENT_SORT_FIELDS, default: 'payment_id' })
+  @IsOptional()
+  @IsIn(PAYMENT_SORT_FIELDS)
+  sort?: (typeof PAYMENT_SORT_FIELDS)[number];
+
+  @ApiPropertyOptional({ enum: paymentStatus })
+  @IsOptional()
+  @IsEnum(paymentStatus)
+  status?: paymentStatus;
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @IsString()
+  method?: string;
+}
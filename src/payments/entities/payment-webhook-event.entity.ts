@@ -0,0 +1,21 @@
+import { Column, CreateDateColumn, Entity, PrimaryColumn } from 'typeorm';
+
+// Webhook deliveries already processed. Providers retry and may send the same
+// event more than once, so the (provider, event_id) key makes handling idempotent.
+@Entity('payment_webhook_events')
+export class PaymentWebhookEvent {
+  @PrimaryColumn({ type: 'varchar' })
+  provider: string;
+
+  @PrimaryColumn({ type: 'varchar' })
+  event_id: string;
+
+  @Column({ type: 'varchar' })
+  type: string;
+
+  @Column({ type: 'int', nullable: true })
+  payment_id: number | null; // null if no payment matched the event
+
+  @CreateDateColumn()
+  received_at: Date;
+}
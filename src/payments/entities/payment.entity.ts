@@ -4,28 +4,26 @@ import {
   PrimaryGeneratedColumn,
   CreateDateColumn,
   UpdateDateColumn,
-  OneToMany,
+  ManyToOne,
+  JoinColumn,
+  Index,
 } from 'typeorm';
-
-export enum paymentStatus {
-  Success = 'Success',
-  Failed = 'Failed',
-  Pending = 'Pending',
-}
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { paymentStatus } from '../payment-status.enum';
 
 @Entity('payments')
 export class Payment {
   @PrimaryGeneratedColumn()
   payment_id: number;
 
-  @Column({ type: 'varchar' })
+  @Column({ type: 'int' })
   registration_id: number; // Reference to event_registrationstable
 
   @Column({ type: 'varchar' })
   payment_date: string;
 
-  @Column({ type: 'int' })
-  amount: number;
+  @Column('decimal', { precision: 10, scale: 2 })
+  amount: number; // In the registration's currency, to the cent
 
   @Column({ type: 'varchar' })
   payment_method: string;
@@ -35,13 +33,42 @@ export class Payment {
     enum: paymentStatus,
     default: paymentStatus.Pending,
   })
+  // Only the provider moves it past Pending: the webhook for payments, the
+  // refund call for refund rows
   payment_status: paymentStatus;
 
+  @Column({ type: 'varchar', nullable: true })
+  provider: string | null; // Payment provider handling the checkout
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', nullable: true })
+  provider_session_id: string | null; // Matches webhooks to the payment
+
+  @Column({ type: 'varchar', nullable: true })
+  checkout_url: string | null;
+
+  // Set on refund rows: the payment being refunded and the provider's refund id
+  @Column({ type: 'int', nullable: true })
+  refund_of: number | null;
+
+  @Column({ type: 'varchar', nullable: true })
+  provider_refund_id: string | null;
+
   @CreateDateColumn()
   created_at: Date;
 
   @UpdateDateColumn()
   updated_at: Date;
 
-  // relationship with event_registrationstable
+  // relationship with event_registrationstable; kept as payment history,
+  // so a registration with payments cannot be deleted
+  @ManyToOne(() => Registration, (registration) => registration.payments, {
+    onDelete: 'RESTRICT',
+  })
+  @JoinColumn({ name: 'registration_id' })
+  registration: Registration;
+
+  @ManyToOne(() => Payment, { onDelete: 'SET NULL' })
+  @JoinColumn({ name: 'refund_of' })
+  refunded_payment: Payment | null;
 }
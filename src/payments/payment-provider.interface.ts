@@ -0,0 +1,47 @@
+import type { IncomingHttpHeaders } from 'http';
+
+// Injection token for the active PaymentProvider implementation
+export const PAYMENT_PROVIDER = 'PAYMENT_PROVIDER';
+
+// Requests carry an idempotency key: the provider answers a repeated key with
+// the result of the first call instead of charging or refunding again
+export interface CheckoutRequest {
+  idempotencyKey: string;
+  paymentId: number;
+  amount: number;
+  currency: string; // ISO 4217 code of the registration's ticket
+  description: string;
+}
+
+export interface CheckoutSession {
+  sessionId: string; // Provider's id, stored on the payment to match webhooks
+  checkoutUrl: string; // Where the client completes the payment
+}
+
+export type ProviderEventType = 'payment.succeeded' | 'payment.failed';
+
+// A verified webhook delivery, already translated from the provider's format
+export interface ProviderEvent {
+  id: string; // Provider event id, the same on every redelivery
+  type: ProviderEventType;
+  sessionId: string;
+}
+
+export interface RefundRequest {
+  idempotencyKey: string;
+  sessionId: string;
+  amount: number;
+}
+
+export interface RefundResult {
+  refundId: string;
+}
+
+// Implemented by every payment backend (the fake provider, or a real one)
+export interface PaymentProvider {
+  readonly name: string;
+  createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession>;
+  // Throws if the signature does not match the raw request body
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): ProviderEvent;
+  refund(request: RefundRequest): Promise<RefundResult>;
+}
@@ -0,0 +1,9 @@
+// Shared by payments (the outcome of one attempt) and registrations (derived
+// from all of their payments by PaymentStatusService)
+export enum paymentStatus {
+  Success = 'Success',
+  Failed = 'Failed',
+  Pending = 'Pending',
+  Refunded = 'Refunded', // Refund rows, and registrations refunded in full
+  PartiallyRefunded = 'PartiallyRefunded',
+}
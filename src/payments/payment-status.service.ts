@@ -0,0 +1,94 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { EntityManager } from 'typeorm';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { Payment } from './entities/payment.entity';
+import { paymentStatus } from './payment-status.enum';
+
+type PaymentAttempt = Pick<Payment, 'amount' | 'payment_status'>;
+
+const REFUND_STATUSES = [
+  paymentStatus.Refunded,
+  paymentStatus.PartiallyRefunded,
+];
+
+// Summed in whole cents, so decimal amounts add up exactly
+const sumOf = (payments: PaymentAttempt[]) =>
+  payments.reduce(
+    (sum, payment) => sum + Math.round(Number(payment.amount) * 100),
+    0,
+  ) / 100;
+
+// Registration.payment_status as implied by its payments:
+// - Refunded / PartiallyRefunded once refund rows exist, depending on whether
+//   they give back everything that was paid
+// - Success once successful payments cover the amount due (or nothing is due)
+// - Failed when every attempt failed and nothing has been paid
+// - Pending otherwise: no attempt yet, one in progress, or only partly paid
+// amountPaid is what the registrant has paid net of refunds.
+export function derivePaymentStatus(
+  amountDue: number,
+  payments: PaymentAttempt[],
+) {
+  const paid = sumOf(
+    payments.filter(
+      (payment) => payment.payment_status === paymentStatus.Success,
+    ),
+  );
+  const refunded = sumOf(
+    payments.filter((payment) =>
+      REFUND_STATUSES.includes(payment.payment_status),
+    ),
+  );
+  const amountPaid = Math.round((paid - refunded) * 100) / 100;
+
+  let status = paymentStatus.Pending;
+  if (refunded > 0) {
+    status =
+      refunded >= paid
+        ? paymentStatus.Refunded
+        : paymentStatus.PartiallyRefunded;
+  } else if (amountPaid >= amountDue) {
+    status = paymentStatus.Success;
+  } else if (
+    amountPaid === 0 &&
+    payments.length > 0 &&
+    payments.every((payment) => payment.payment_status === paymentStatus.Failed)
+  ) {
+    status = paymentStatus.Failed;
+  }
+  return { status, amountPaid };
+}
+
+// Keeps a registration's payment_status and amount_paid in line with its
+// payments. Callers pass the EntityManager of the transaction that changed the
+// payments, so both are committed together.
+@Injectable()
+export class PaymentStatusService {
+  async sync(manager: EntityManager, registrationId: number) {
+    // Lock the registration so concurrent payment updates recompute one at a time
+    const registration = await manager.findOne(Registration, {
+      where: { registration_id: registrationId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!registration) {
+      throw new NotFoundException(
+        `Registration with ID ${registrationId} not found`,
+      );
+    }
+
+    const payments = await manager.find(Payment, {
+      where: { registration_id: registrationId },
+      select: ['payment_id', 'amount', 'payment_status'],
+    });
+    const { status, amountPaid } = derivePaymentStatus(
+      Number(registration.payment_amount),
+      payments,
+    );
+    await manager.update(
+      Registration,
+      { registration_id: registrationId },
+      { payment_status: status, amount_paid: amountPaid },
+    );
+    return { ...registration, payment_status: status, amount_paid: amountPaid };
+  }
+}
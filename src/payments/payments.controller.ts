@@ -1,33 +1,78 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Req,
+  Query,
+  HttpCode,
+  HttpStatus,
+} from '@nestjs/common';
+import type { RawBodyRequest } from '@nestjs/common';
 import { PaymentsService } from './payments.service';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { UpdatePaymentDto } from './dto/update-payment.dto';
+import {
+  CheckPolicy,
+  PolicyResource,
+} from 'src/auth/decorators/check-policy.decorator';
+import { Roles } from 'src/auth/decorators/role.decorator';
+import { RequirePermissions } from 'src/auth/decorators/require-permissions.decorator';
+import { ROLE_MATRIX } from 'src/auth/role-matrix';
+import { ListQueryPipe } from 'src/common/pagination/list-query.pipe';
+import { PaymentQueryDto } from './dto/payment-query.dto';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Public } from 'src/auth/decorators/public.decorator';
+import type { Request } from 'express';
 
+@ApiBearerAuth('access-token')
+@ApiTags('Payments')
 @Controller('payments')
 export class PaymentsController {
   constructor(private readonly paymentsService: PaymentsService) {}
 
   @Post()
+  @Roles(...ROLE_MATRIX.payments.create)
+  @CheckPolicy(PolicyResource.Registration, 'body', 'registration_id') // Only pay for your own registration
   create(@Body() createPaymentDto: CreatePaymentDto) {
     return this.paymentsService.create(createPaymentDto);
   }
 
+  // Called by the payment provider, authenticated by the webhook signature
+  @Public()
+  @Post('webhook')
+  @HttpCode(HttpStatus.OK)
+  handleWebhook(@Req() req: RawBodyRequest<Request>) {
+    return this.paymentsService.handleWebhook(req.rawBody, req.headers);
+  }
+
   @Get()
-  findAll() {
-    return this.paymentsService.findAll();
+  @Roles(...ROLE_MATRIX.payments.findAll)
+  @RequirePermissions('payments:read')
+  findAll(@Query(ListQueryPipe) query: PaymentQueryDto) {
+    return this.paymentsService.findAll(query);
   }
 
   @Get(':id')
+  @Roles(...ROLE_MATRIX.payments.findOne)
+  @CheckPolicy(PolicyResource.Payment)
   findOne(@Param('id') id: string) {
     return this.paymentsService.findOne(+id);
   }
 
   @Patch(':id')
+  @Roles(...ROLE_MATRIX.payments.update)
+  @RequirePermissions('payments:manage')
   update(@Param('id') id: string, @Body() updatePaymentDto: UpdatePaymentDto) {
     return this.paymentsService.update(+id, updatePaymentDto);
   }
 
   @Delete(':id')
+  @Roles(...ROLE_MATRIX.payments.remove)
+  @RequirePermissions('payments:manage')
   remove(@Param('id') id: string) {
     return this.paymentsService.remove(+id);
   }
@@ -4,11 +4,46 @@ import { PaymentsController } from './payments.controller';
 import { DatabaseModule } from 'src/database/database.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { Payment } from './entities/payment.entity';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { PaymentWebhookEvent } from './entities/payment-webhook-event.entity';
+import { ConfigService } from '@nestjs/config';
+import {
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+} from './payment-provider.interface';
+import { FakePaymentProvider } from './providers/fake.provider';
+import { PaymentStatusService } from './payment-status.service';
 
 @Module({
-    imports: [DatabaseModule, TypeOrmModule.forFeature([Payment])],
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([Payment, Registration, PaymentWebhookEvent]),
+  ],
   controllers: [PaymentsController],
-  providers: [PaymentsService],
-  exports: [PaymentsService],
+  providers: [
+    PaymentsService,
+    PaymentStatusService,
+    {
+      provide: PAYMENT_PROVIDER,
+      // PAYMENT_PROVIDER picks the backend; only the local fake exists so far
+      useFactory: (configService: ConfigService): PaymentProvider => {
+        const provider = configService.get<string>('PAYMENT_PROVIDER', 'fake');
+        switch (provider) {
+          case 'fake':
+            return new FakePaymentProvider(
+              configService.getOrThrow<string>('PAYMENT_WEBHOOK_SECRET'),
+              configService.get<string>(
+                'FRONTEND_URL',
+                'http://localhost:3000',
+              ),
+            );
+          default:
+            throw new Error(`Unknown PAYMENT_PROVIDER "${provider}"`);
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [PaymentsService, PaymentStatusService],
 })
 export class PaymentsModule {}
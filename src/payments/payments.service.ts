@@ -1,35 +1,390 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import type { IncomingHttpHeaders } from 'http';
 import { CreatePaymentDto } from './dto/create-payment.dto';
 import { UpdatePaymentDto } from './dto/update-payment.dto';
 import { Payment } from './entities/payment.entity';
+import { paymentStatus } from './payment-status.enum';
+import { PaymentWebhookEvent } from './entities/payment-webhook-event.entity';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Repository } from 'typeorm';
+import { DataSource, EntityManager, IsNull, Repository } from 'typeorm';
+import { PAYMENT_PROVIDER } from './payment-provider.interface';
+import type {
+  CheckoutSession,
+  PaymentProvider,
+} from './payment-provider.interface';
+import { PaymentStatusService } from './payment-status.service';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { paginate } from 'src/common/pagination/paginate';
+import { PaymentQueryDto } from './dto/payment-query.dto';
 
 @Injectable()
 export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+
   constructor(
     @InjectRepository(Payment)
     private paymentsRepository: Repository<Payment>,
+    @Inject(PAYMENT_PROVIDER)
+    private paymentProvider: PaymentProvider, // Fake or real provider depending on PAYMENT_PROVIDER
+    private dataSource: DataSource,
+    private paymentStatusService: PaymentStatusService, // Derives the registration's payment status
   ) {}
 
-  create(createPaymentDto: CreatePaymentDto) {
-    const payment = this.paymentsRepository.create(createPaymentDto);
-    return this.paymentsRepository.save(payment);
+  // Starts a checkout with the provider for some or, by default, all of what
+  // is still owed. The payment is committed as Pending before the provider is
+  // called and stays Pending until the provider reports the outcome through
+  // the webhook. Checkouts still in progress count as paid, so two attempts
+  // cannot together cover more than is owed.
+  async create(createPaymentDto: CreatePaymentDto) {
+    const { payment, currency } = await this.dataSource.transaction(
+      async (manager) => {
+        // Concurrent checkouts for the registration wait here, so each one
+        // sees the attempts started before it
+        const registration = await this.findRegistration(
+          manager,
+          createPaymentDto.registration_id,
+        );
+        const pending = await manager.find(Payment, {
+          where: {
+            registration_id: registration.registration_id,
+            payment_status: paymentStatus.Pending,
+            refund_of: IsNull(),
+          },
+          select: ['payment_id', 'amount'],
+        });
+        const outstanding = toCents(
+          Number(registration.payment_amount) -
+            Number(registration.amount_paid) -
+            pending.reduce((sum, attempt) => sum + Number(attempt.amount), 0),
+        );
+        if (outstanding <= 0) {
+          throw new BadRequestException(
+            `Registration ${registration.registration_id} has nothing left to pay`,
+          );
+        }
+        const amount = createPaymentDto.amount ?? outstanding;
+        if (amount > outstanding) {
+          throw new BadRequestException(
+            `amount cannot exceed the ${outstanding} still owed`,
+          );
+        }
+        const saved = await manager.save(
+          manager.create(Payment, {
+            registration_id: createPaymentDto.registration_id,
+            payment_date: createPaymentDto.payment_date,
+            amount,
+            payment_method: createPaymentDto.payment_method,
+            payment_status: paymentStatus.Pending,
+          }),
+        );
+        await this.paymentStatusService.sync(manager, saved.registration_id);
+        return { payment: saved, currency: registration.currency };
+      },
+    );
+
+    let session: CheckoutSession;
+    try {
+      session = await this.paymentProvider.createCheckoutSession({
+        idempotencyKey: `checkout-${payment.payment_id}`,
+        paymentId: payment.payment_id,
+        amount: payment.amount,
+        currency,
+        description: `Registration #${payment.registration_id}`,
+      });
+    } catch (error) {
+      // No checkout to complete, so this attempt has failed
+      await this.dataSource.transaction(async (manager) => {
+        await manager.update(
+          Payment,
+          { payment_id: payment.payment_id },
+          { payment_status: paymentStatus.Failed },
+        );
+        await this.paymentStatusService.sync(manager, payment.registration_id);
+      });
+      throw error;
+    }
+    payment.provider = this.paymentProvider.name;
+    payment.provider_session_id = session.sessionId;
+    payment.checkout_url = session.checkoutUrl;
+    await this.paymentsRepository.update(
+      { payment_id: payment.payment_id },
+      {
+        provider: payment.provider,
+        provider_session_id: payment.provider_session_id,
+        checkout_url: payment.checkout_url,
+      },
+    );
+    return payment;
+  }
+
+  // The only way a payment becomes Success or Failed. Each provider event is
+  // recorded once; redeliveries of an event already handled change nothing.
+  async handleWebhook(
+    rawBody: Buffer | undefined,
+    headers: IncomingHttpHeaders,
+  ) {
+    if (!rawBody) {
+      throw new BadRequestException('Missing webhook body');
+    }
+    const event = this.paymentProvider.verifyWebhook(rawBody, headers);
+    const provider = this.paymentProvider.name;
+
+    return this.dataSource.transaction(async (manager) => {
+      const inserted = await manager
+        .createQueryBuilder()
+        .insert()
+        .into(PaymentWebhookEvent)
+        .values({ provider, event_id: event.id, type: event.type })
+        .orIgnore()
+        .returning(['event_id'])
+        .execute();
+      if ((inserted.raw as unknown[]).length === 0) {
+        return { received: true, duplicate: true };
+      }
+
+      const payment = await manager.findOne(Payment, {
+        where: { provider, provider_session_id: event.sessionId },
+        lock: { mode: 'pessimistic_write' },
+      });
+      if (!payment) {
+        this.logger.warn(
+          `Webhook ${event.id} refers to unknown session ${event.sessionId}`,
+        );
+        return { received: true, duplicate: false };
+      }
+      await manager.update(
+        PaymentWebhookEvent,
+        { provider, event_id: event.id },
+        { payment_id: payment.payment_id },
+      );
+
+      // A payment is settled once; later events for it are recorded but ignored
+      if (payment.payment_status !== paymentStatus.Pending) {
+        this.logger.warn(
+          `Ignoring ${event.type} for payment ${payment.payment_id} already ${payment.payment_status}`,
+        );
+        return { received: true, duplicate: false };
+      }
+      payment.payment_status =
+        event.type === 'payment.succeeded'
+          ? paymentStatus.Success
+          : paymentStatus.Failed;
+      await manager.save(payment);
+      await this.paymentStatusService.sync(manager, payment.registration_id);
+      return { received: true, duplicate: false };
+    });
+  }
+
+  findAll(query: PaymentQueryDto) {
+    const qb = this.paymentsRepository.createQueryBuilder('payment');
+    if (query.status) {
+      qb.andWhere('payment.payment_status = :status', { status: query.status });
+    }
+    if (query.method) {
+      qb.andWhere('payment.payment_method = :method', { method: query.method });
+    }
+    return paginate(qb, query, { path: '/payments', idColumn: 'payment_id' });
   }
 
-  findAll() {
-    return this.paymentsRepository.find();
+  // Records a refund of `percent` of every successful payment of the
+  // registration as its own payment row, inside the caller's transaction
+  // (which also updates the registration's status). Refunds due from the
+  // provider are recorded as Pending and not sent yet: pass the rows to
+  // issueRefunds() once that transaction has committed, so a rollback can
+  // never leave a refund the provider made without a record of it.
+  async recordRefunds(
+    manager: EntityManager,
+    registrationId: number,
+    percent: number,
+  ) {
+    const refunds: Payment[] = [];
+    if (percent <= 0) {
+      return refunds;
+    }
+
+    const payments = await manager.find(Payment, {
+      where: {
+        registration_id: registrationId,
+        payment_status: paymentStatus.Success,
+      },
+      order: { payment_id: 'ASC' },
+    });
+    for (const payment of payments) {
+      const amount = toCents((Number(payment.amount) * percent) / 100);
+      if (amount <= 0) {
+        continue;
+      }
+
+      // Payments taken by another provider (or recorded before providers
+      // existed) are refunded by hand; the row still records what is owed
+      const viaProvider =
+        payment.provider === this.paymentProvider.name &&
+        !!payment.provider_session_id;
+      if (!viaProvider) {
+        this.logger.warn(
+          `Payment ${payment.payment_id} must be refunded manually (${amount})`,
+        );
+      }
+
+      refunds.push(
+        await manager.save(
+          manager.create(Payment, {
+            registration_id: registrationId,
+            payment_date: new Date().toISOString().slice(0, 10),
+            amount,
+            payment_method: payment.payment_method,
+            payment_status: viaProvider
+              ? paymentStatus.Pending
+              : refundStatus(amount, payment),
+            provider: payment.provider,
+            refund_of: payment.payment_id,
+          }),
+        ),
+      );
+    }
+    await this.paymentStatusService.sync(manager, registrationId);
+    return refunds;
+  }
+
+  // Sends committed Pending refunds to the provider, keyed by the refund row so
+  // a repeated call never refunds twice. A refund the provider fails to make
+  // stays Pending, recording what is still owed.
+  async issueRefunds(refunds: Payment[]) {
+    const issued: Payment[] = [];
+    for (const refund of refunds) {
+      if (refund.payment_status !== paymentStatus.Pending) {
+        issued.push(refund);
+        continue;
+      }
+      try {
+        issued.push(await this.issueRefund(refund));
+      } catch (error) {
+        this.logger.error(
+          `Refund ${refund.payment_id} of payment ${refund.refund_of} failed: ${(error as Error).message}`,
+        );
+        issued.push(refund);
+      }
+    }
+    return issued;
   }
 
   findOne(id: number) {
     return this.paymentsRepository.findOneBy({ payment_id: id });
   }
 
-  update(id: number, updatePaymentDto: UpdatePaymentDto) {
-    return this.paymentsRepository.update(id, updatePaymentDto);
+  async update(id: number, updatePaymentDto: UpdatePaymentDto) {
+    // Status and provider fields belong to the provider webhook
+    const { registration_id, payment_date, amount, payment_method } =
+      updatePaymentDto;
+    return this.dataSource.transaction(async (manager) => {
+      if (registration_id !== undefined) {
+        await this.findRegistration(manager, registration_id);
+      }
+      const payment = await this.findChangeable(manager, id);
+      const result = await manager.update(
+        Payment,
+        { payment_id: id },
+        { registration_id, payment_date, amount, payment_method },
+      );
+      // Moving a payment affects both the old and the new registration
+      await this.paymentStatusService.sync(manager, payment.registration_id);
+      if (
+        registration_id !== undefined &&
+        registration_id !== payment.registration_id
+      ) {
+        await this.paymentStatusService.sync(manager, registration_id);
+      }
+      return result;
+    });
   }
 
   remove(id: number) {
-    return this.paymentsRepository.delete(id);
+    return this.dataSource.transaction(async (manager) => {
+      const payment = await this.findChangeable(manager, id);
+      const result = await manager.delete(Payment, { payment_id: id });
+      await this.paymentStatusService.sync(manager, payment.registration_id);
+      return result;
+    });
+  }
+
+  // Only an attempt that has not gone through can be edited or deleted; a
+  // payment that succeeded, or has refunds, is the record of money that moved
+  private async findChangeable(manager: EntityManager, id: number) {
+    const payment = await manager.findOne(Payment, {
+      where: { payment_id: id },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!payment) {
+      throw new NotFoundException(`Payment with ID ${id} not found`);
+    }
+    if (payment.refund_of !== null) {
+      throw new ConflictException(`Payment ${id} is a refund`);
+    }
+    if (
+      ![paymentStatus.Pending, paymentStatus.Failed].includes(
+        payment.payment_status,
+      )
+    ) {
+      throw new ConflictException(
+        `Payment ${id} is ${payment.payment_status} and can no longer be changed`,
+      );
+    }
+    if (await manager.existsBy(Payment, { refund_of: id })) {
+      throw new ConflictException(`Payment ${id} has refunds`);
+    }
+    return payment;
+  }
+
+  private async issueRefund(refund: Payment) {
+    const payment = await this.paymentsRepository.findOneByOrFail({
+      payment_id: refund.refund_of as number,
+    });
+    const result = await this.paymentProvider.refund({
+      idempotencyKey: `refund-${refund.payment_id}`,
+      sessionId: payment.provider_session_id as string,
+      amount: refund.amount,
+    });
+    return this.dataSource.transaction(async (manager) => {
+      refund.payment_status = refundStatus(refund.amount, payment);
+      refund.provider_refund_id = result.refundId;
+      const saved = await manager.save(refund);
+      await this.paymentStatusService.sync(manager, refund.registration_id);
+      return saved;
+    });
+  }
+
+  // Locked, so payments are added to a registration one at a time
+  private async findRegistration(
+    manager: EntityManager,
+    registrationId: number,
+  ) {
+    const registration = await manager.findOne(Registration, {
+      where: { registration_id: registrationId },
+      select: ['registration_id', 'currency', 'payment_amount', 'amount_paid'],
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!registration) {
+      throw new NotFoundException(
+        `Registration with ID ${registrationId} not found`,
+      );
+    }
+    return registration;
   }
 }
+
+// Status of a refund row: Refunded when it gives back the whole payment
+function refundStatus(amount: number, payment: Payment) {
+  return Number(amount) >= Number(payment.amount)
+    ? paymentStatus.Refunded
+    : paymentStatus.PartiallyRefunded;
+}
+
+// Money is kept to the cent
+const toCents = (amount: number) => Math.round(amount * 100) / 100;
@@ -0,0 +1,89 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import { BadRequestException } from '@nestjs/common';
+import {
+  CheckoutRequest,
+  CheckoutSession,
+  PaymentProvider,
+  ProviderEvent,
+  RefundRequest,
+  RefundResult,
+} from '../payment-provider.interface';
+
+export const FAKE_SIGNATURE_HEADER = 'x-fake-signature';
+
+// Local stand-in for a real provider: no money moves, checkout sessions are
+// made up and webhooks are signed with an HMAC-SHA256 of the raw body.
+// Deliver a webhook yourself with:
+//   {"id": "evt_1", "type": "payment.succeeded", "session_id": "<session id>"}
+//   x-fake-signature: hex HMAC-SHA256 of that body with PAYMENT_WEBHOOK_SECRET
+export class FakePaymentProvider implements PaymentProvider {
+  readonly name = 'fake';
+
+  // Results by idempotency key, so retried calls get the first answer back
+  private readonly sessions = new Map<string, CheckoutSession>();
+  private readonly refunds = new Map<string, RefundResult>();
+
+  constructor(
+    private readonly webhookSecret: string,
+    private readonly checkoutBaseUrl: string,
+  ) {}
+
+  sign(rawBody: Buffer | string): string {
+    return createHmac('sha256', this.webhookSecret)
+      .update(rawBody)
+      .digest('hex');
+  }
+
+  createCheckoutSession(request: CheckoutRequest): Promise<CheckoutSession> {
+    let session = this.sessions.get(request.idempotencyKey);
+    if (!session) {
+      const sessionId = `fake_cs_${randomUUID()}`;
+      session = {
+        sessionId,
+        checkoutUrl: `${this.checkoutBaseUrl}/fake-checkout/${sessionId}?amount=${request.amount}&currency=${request.currency}`,
+      };
+      this.sessions.set(request.idempotencyKey, session);
+    }
+    return Promise.resolve(session);
+  }
+
+  verifyWebhook(rawBody: Buffer, headers: IncomingHttpHeaders): ProviderEvent {
+    const signature = headers[FAKE_SIGNATURE_HEADER];
+    const expected = Buffer.from(this.sign(rawBody));
+    if (
+      typeof signature !== 'string' ||
+      signature.length !== expected.length ||
+      !timingSafeEqual(Buffer.from(signature), expected)
+    ) {
+      throw new BadRequestException('Invalid webhook signature');
+    }
+
+    let body: { id?: unknown; type?: unknown; session_id?: unknown };
+    try {
+      body = JSON.parse(rawBody.toString('utf8')) as typeof body;
+    } catch {
+      throw new BadRequestException('Webhook body is not valid JSON');
+    }
+    if (
+      typeof body.id !== 'string' ||
+      typeof body.session_id !== 'string' ||
+      (body.type !== 'payment.succeeded' && body.type !== 'payment.failed')
+    ) {
+      throw new BadRequestException('Unsupported webhook payload');
+    }
+    return { id: body.id, type: body.type, sessionId: body.session_id };
+  }
+
+  refund(request: RefundRequest): Promise<RefundResult> {
+    if (!request.sessionId.startsWith('fake_cs_')) {
+      throw new BadRequestException('Unknown checkout session');
+    }
+    let result = this.refunds.get(request.idempotencyKey);
+    if (!result) {
+      result = { refundId: `fake_re_${randomUUID()}` };
+      this.refunds.set(request.idempotencyKey, result);
+    }
+    return Promise.resolve(result);
+  }
+}
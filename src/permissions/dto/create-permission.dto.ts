@@ -0,0 +1,16 @@
+import { IsNotEmpty, IsOptional, IsString, Matches } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class CreatePermissionDto {
+  @ApiProperty({ example: 'payments:read' })
+  @IsNotEmpty()
+  @Matches(/^[a-z-]+:[a-z-]+$/, {
+    message: 'name must look like <resource>:<action>',
+  })
+  name: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  description?: string;
+}
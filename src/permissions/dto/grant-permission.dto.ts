@@ -0,0 +1,9 @@
+import { IsNotEmpty, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class GrantPermissionDto {
+  @ApiProperty({ example: 'payments:read' })
+  @IsNotEmpty()
+  @IsString()
+  permission: string;
+}
@@ -0,0 +1,9 @@
+import { IsArray, IsString } from 'class-validator';
+import { ApiProperty } from '@nestjs/swagger';
+
+export class SetRolePermissionsDto {
+  @ApiProperty({ example: ['payments:read'] })
+  @IsArray()
+  @IsString({ each: true })
+  permissions: string[];
+}
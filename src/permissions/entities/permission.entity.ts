@@ -0,0 +1,22 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+
+// A single capability such as 'payments:read', checked with @RequirePermissions
+@Entity('permissions')
+export class Permission {
+  @PrimaryGeneratedColumn()
+  permission_id: number;
+
+  @Column({ type: 'varchar', unique: true })
+  name: string; // '<resource>:<action>'
+
+  @Column({ type: 'varchar', nullable: true })
+  description: string | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+}
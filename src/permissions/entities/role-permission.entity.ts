@@ -0,0 +1,20 @@
+import { Entity, JoinColumn, ManyToOne, PrimaryColumn } from 'typeorm';
+import { UserRole } from 'src/users/entities/user.entity';
+import { Permission } from './permission.entity';
+
+// Permissions every user with the role holds (and, through the role hierarchy, every higher role)
+@Entity('role_permissions')
+export class RolePermission {
+  @PrimaryColumn({
+    type: 'enum',
+    enum: UserRole,
+  })
+  role: UserRole;
+
+  @PrimaryColumn()
+  permission_id: number;
+
+  @ManyToOne(() => Permission, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'permission_id' })
+  permission: Permission;
+}
@@ -0,0 +1,34 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryColumn,
+} from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Permission } from './permission.entity';
+
+// Permission granted to one user on top of what their role gives them
+@Entity('user_permissions')
+export class UserPermission {
+  @PrimaryColumn()
+  user_id: number;
+
+  @PrimaryColumn()
+  permission_id: number;
+
+  @Column({ type: 'int', nullable: true })
+  granted_by: number | null; // Admin who granted it
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  @ManyToOne(() => Permission, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'permission_id' })
+  permission: Permission;
+}
@@ -0,0 +1,90 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseEnumPipe,
+  Post,
+  Put,
+  Req,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Roles } from 'src/auth/decorators/role.decorator';
+import { ROLE_MATRIX } from 'src/auth/role-matrix';
+import type { RequestWithSession } from 'src/auth/interfaces/request-with-user.interface';
+import { UserRole } from 'src/users/entities/user.entity';
+import { PermissionsService } from './permissions.service';
+import { CreatePermissionDto } from './dto/create-permission.dto';
+import { SetRolePermissionsDto } from './dto/set-role-permissions.dto';
+import { GrantPermissionDto } from './dto/grant-permission.dto';
+
+// Admin endpoints for the permission catalogue, role mappings and per-user grants
+@ApiBearerAuth('access-token')
+@ApiTags('Permissions')
+@Controller('permissions')
+export class PermissionsController {
+  constructor(private readonly permissionsService: PermissionsService) {}
+
+  @Get()
+  @Roles(...ROLE_MATRIX.permissions.findAll)
+  findAll() {
+    return this.permissionsService.findAll();
+  }
+
+  @Post()
+  @Roles(...ROLE_MATRIX.permissions.create)
+  create(@Body() createPermissionDto: CreatePermissionDto) {
+    return this.permissionsService.create(createPermissionDto);
+  }
+
+  @Delete(':id')
+  @Roles(...ROLE_MATRIX.permissions.remove)
+  remove(@Param('id') id: string) {
+    return this.permissionsService.remove(+id);
+  }
+
+  @Get('roles/:role')
+  @Roles(...ROLE_MATRIX.permissions.manageRoles)
+  findForRole(@Param('role', new ParseEnumPipe(UserRole)) role: UserRole) {
+    return this.permissionsService.findForRole(role);
+  }
+
+  @Put('roles/:role')
+  @Roles(...ROLE_MATRIX.permissions.manageRoles)
+  setForRole(
+    @Param('role', new ParseEnumPipe(UserRole)) role: UserRole,
+    @Body() setRolePermissionsDto: SetRolePermissionsDto,
+  ) {
+    return this.permissionsService.setForRole(
+      role,
+      setRolePermissionsDto.permissions,
+    );
+  }
+
+  @Get('users/:id')
+  @Roles(...ROLE_MATRIX.permissions.manageGrants)
+  describeUser(@Param('id') id: string) {
+    return this.permissionsService.describeUser(+id);
+  }
+
+  @Post('users/:id')
+  @Roles(...ROLE_MATRIX.permissions.manageGrants)
+  grant(
+    @Param('id') id: string,
+    @Body() grantPermissionDto: GrantPermissionDto,
+    @Req() req: RequestWithSession,
+  ) {
+    return this.permissionsService.grant(
+      +id,
+      grantPermissionDto.permission,
+      req.user.user_id,
+    );
+  }
+
+  @Delete('users/:id/:permission')
+  @Roles(...ROLE_MATRIX.permissions.manageGrants)
+  revoke(@Param('id') id: string, @Param('permission') permission: string) {
+    return this.permissionsService.revoke(+id, permission);
+  }
+}
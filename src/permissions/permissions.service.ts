@@ -0,0 +1,204 @@
+import {
+  ConflictException,
+  Inject,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { CACHE_MANAGER } from '@nestjs/cache-manager';
+import type { Cache } from 'cache-manager';
+import { ConfigService } from '@nestjs/config';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, In, Repository } from 'typeorm';
+import { User, UserRole } from 'src/users/entities/user.entity';
+import { hasRole } from 'src/auth/role-hierarchy';
+import { Permission } from './entities/permission.entity';
+import { RolePermission } from './entities/role-permission.entity';
+import { UserPermission } from './entities/user-permission.entity';
+import { CreatePermissionDto } from './dto/create-permission.dto';
+
+@Injectable()
+export class PermissionsService {
+  constructor(
+    @InjectRepository(Permission)
+    private permissionRepository: Repository<Permission>,
+    @InjectRepository(RolePermission)
+    private rolePermissionRepository: Repository<RolePermission>,
+    @InjectRepository(UserPermission)
+    private userPermissionRepository: Repository<UserPermission>,
+    @InjectRepository(User)
+    private userRepository: Repository<User>,
+    @Inject(CACHE_MANAGER)
+    private cacheManager: Cache,
+    private dataSource: DataSource,
+    private configService: ConfigService,
+  ) {}
+
+  findAll() {
+    return this.permissionRepository.find({ order: { name: 'ASC' } });
+  }
+
+  async create(createPermissionDto: CreatePermissionDto) {
+    const existing = await this.permissionRepository.findOne({
+      where: { name: createPermissionDto.name },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `Permission ${createPermissionDto.name} already exists`,
+      );
+    }
+    const permission = await this.permissionRepository.save(
+      this.permissionRepository.create(createPermissionDto),
+    );
+    await this.cacheManager.del('permissions:all');
+    return permission;
+  }
+
+  async remove(id: number) {
+    const result = await this.permissionRepository.delete(id);
+    if (result.affected === 0) {
+      throw new NotFoundException(`Permission with ID ${id} not found`);
+    }
+    // Role and user entries referencing it are gone too (ON DELETE CASCADE),
+    // and there is no cheap way to find every cached user, so start over
+    await this.cacheManager.clear();
+  }
+
+  async findForRole(role: UserRole): Promise<string[]> {
+    return this.cached(`role-permissions:${role}`, async () => {
+      const rows = await this.rolePermissionRepository.find({
+        where: { role },
+        relations: ['permission'],
+      });
+      return rows.map((row) => row.permission.name).sort();
+    });
+  }
+
+  // Replaces everything the role grants with the given permissions
+  async setForRole(role: UserRole, names: string[]) {
+    const permissions = await this.findByNames(names);
+    await this.dataSource.transaction(async (manager) => {
+      await manager.delete(RolePermission, { role });
+      await manager.insert(
+        RolePermission,
+        permissions.map((permission) => ({
+          role,
+          permission_id: permission.permission_id,
+        })),
+      );
+    });
+    await this.cacheManager.del(`role-permissions:${role}`);
+    return this.findForRole(role);
+  }
+
+  async findGrantsForUser(userId: number): Promise<string[]> {
+    return this.cached(`user-grants:${userId}`, async () => {
+      const rows = await this.userPermissionRepository.find({
+        where: { user_id: userId },
+        relations: ['permission'],
+      });
+      return rows.map((row) => row.permission.name).sort();
+    });
+  }
+
+  // What an admin sees for a user: their direct grants and everything they end up with
+  async describeUser(userId: number) {
+    const user = await this.userRepository.findOne({
+      where: { user_id: userId },
+      select: ['user_id', 'role'],
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    return {
+      user_id: user.user_id,
+      role: user.role,
+      granted: await this.findGrantsForUser(userId),
+      effective: await this.resolveForUser(userId, user.role),
+    };
+  }
+
+  async grant(userId: number, name: string, grantedBy: number) {
+    const user = await this.userRepository.findOne({
+      where: { user_id: userId },
+      select: ['user_id'],
+    });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+    const [permission] = await this.findByNames([name]);
+    // Granting twice is a no-op
+    await this.userPermissionRepository.upsert(
+      {
+        user_id: userId,
+        permission_id: permission.permission_id,
+        granted_by: grantedBy,
+      },
+      ['user_id', 'permission_id'],
+    );
+    await this.cacheManager.del(`user-grants:${userId}`);
+    return this.describeUser(userId);
+  }
+
+  async revoke(userId: number, name: string) {
+    const [permission] = await this.findByNames([name]);
+    const result = await this.userPermissionRepository.delete({
+      user_id: userId,
+      permission_id: permission.permission_id,
+    });
+    if (result.affected === 0) {
+      throw new NotFoundException(
+        `User ${userId} has not been granted ${name}`,
+      );
+    }
+    await this.cacheManager.del(`user-grants:${userId}`);
+  }
+
+  // Everything the user may do: what their role and every lower role grants,
+  // plus their own grants. Admins hold every permission.
+  async resolveForUser(userId: number, role: UserRole): Promise<string[]> {
+    if (role === UserRole.Admin) {
+      return this.cached('permissions:all', async () =>
+        (await this.findAll()).map((permission) => permission.name),
+      );
+    }
+    const roles = Object.values(UserRole).filter((other) =>
+      hasRole(role, other),
+    );
+    const sets = await Promise.all([
+      ...roles.map((other) => this.findForRole(other)),
+      this.findGrantsForUser(userId),
+    ]);
+    return [...new Set(sets.flat())].sort();
+  }
+
+  private async findByNames(names: string[]) {
+    const unique = [...new Set(names)];
+    const permissions = unique.length
+      ? await this.permissionRepository.find({ where: { name: In(unique) } })
+      : [];
+    const missing = unique.filter(
+      (name) => !permissions.some((permission) => permission.name === name),
+    );
+    if (missing.length) {
+      throw new NotFoundException(
+        `Unknown permission(s): ${missing.join(', ')}`,
+      );
+    }
+    return permissions;
+  }
+
+  // Lookups share the role cache TTL; every write above drops the affected key
+  private async cached(key: string, load: () => Promise<string[]>) {
+    const hit = await this.cacheManager.get<string[]>(key);
+    if (hit) {
+      return hit;
+    }
+    const value = await load();
+    await this.cacheManager.set(
+      key,
+      value,
+      Number(this.configService.get<string>('ROLE_CACHE_TTL_MS', '60000')),
+    );
+    return value;
+  }
+}
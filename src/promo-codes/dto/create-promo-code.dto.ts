@@ -0,0 +1,74 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  Min,
+} from 'class-validator';
+import { discountType } from '../entities/promo-code.entity';
+
+export class CreatePromoCodeDto {
+  @ApiProperty({ example: 'EARLY20' })
+  @IsNotEmpty()
+  @IsString()
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/)
+  code: string;
+
+  @ApiProperty({ enum: discountType })
+  @IsEnum(discountType)
+  discount_type: discountType;
+
+  @ApiProperty({
+    example: 20,
+    description: 'Percent off, or amount off for Fixed',
+  })
+  @IsNumber()
+  @Min(0.01)
+  discount_value: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Leave empty for unlimited uses',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  max_redemptions?: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  per_user_limit?: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsDateString()
+  valid_from?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsDateString()
+  valid_until?: string;
+
+  @ApiProperty({
+    required: false,
+    type: [Number],
+    description:
+      'Restrict the code to these events; empty means all of your events',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsInt({ each: true })
+  event_ids?: number[];
+
+  @ApiProperty()
+  @IsInt()
+  created_by: number; // Organizer who owns the code
+}
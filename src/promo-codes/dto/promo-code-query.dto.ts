@@ -0,0 +1,20 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from 'src/common/pagination/pagination-query.dto';
+
+export const PROMO_CODE_SORT_FIELDS = [
+  'promo_code_id',
+  'code',
+  'redemption_count',
+  'created_at',
+] as const;
+
+export class PromoCodeQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    enum: PROMO_CODE_SORT_FIELDS,
+    default: 'promo_code_id',
+  })
+  @IsOptional()
+  @IsIn(PROMO_CODE_SORT_FIELDS)
+  sort?: (typeof PROMO_CODE_SORT_FIELDS)[number];
+}
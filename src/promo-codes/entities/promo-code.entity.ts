@@ -0,0 +1,82 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  JoinTable,
+  ManyToMany,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Event } from 'src/events/entities/event.entity';
+import { PromoRedemption } from './promo-redemption.entity';
+
+export enum discountType {
+  Percentage = 'Percentage',
+  Fixed = 'Fixed', // In the currency of the ticket it is applied to
+}
+
+@Entity('promo_codes')
+export class PromoCode {
+  @PrimaryGeneratedColumn()
+  promo_code_id: number;
+
+  @Index({ unique: true })
+  @Column({ type: 'varchar', length: 32 })
+  code: string; // Stored upper case, matched case-insensitively
+
+  @Column({ type: 'enum', enum: discountType })
+  discount_type: discountType;
+
+  @Column('decimal', { precision: 10, scale: 2 })
+  discount_value: number; // Percent off, or amount off for Fixed
+
+  @Column({ type: 'int', nullable: true })
+  max_redemptions: number | null; // null means unlimited
+
+  @Column({ type: 'int', nullable: true })
+  per_user_limit: number | null;
+
+  // Validity window, open-ended on either side when null
+  @Column({ type: 'timestamptz', nullable: true })
+  valid_from: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  valid_until: Date | null;
+
+  @Column({ type: 'int', default: 0 })
+  redemption_count: number; // Only ever changed by PromoCodesService.redeem and release
+
+  @Column({ type: 'int' })
+  created_by: number; // Organizer who owns the code
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'created_by' })
+  organizer: User;
+
+  // Events the code is restricted to; when empty it applies to every event
+  // of its organizer
+  @ManyToMany(() => Event)
+  @JoinTable({
+    name: 'promo_code_events',
+    joinColumn: {
+      name: 'promo_code_id',
+      referencedColumnName: 'promo_code_id',
+    },
+    inverseJoinColumn: { name: 'event_id', referencedColumnName: 'event_id' },
+  })
+  events: Event[];
+
+  @OneToMany(() => PromoRedemption, (redemption) => redemption.promo_code)
+  redemptions: PromoRedemption[];
+}
@@ -0,0 +1,53 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  Index,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { PromoCode } from './promo-code.entity';
+
+// One use of a promo code, made when registering
+@Entity('promo_redemptions')
+@Index(['promo_code_id', 'user_id'])
+export class PromoRedemption {
+  @PrimaryGeneratedColumn()
+  redemption_id: number;
+
+  @Column({ type: 'int' })
+  promo_code_id: number;
+
+  @Index({ unique: true })
+  @Column({ type: 'int' })
+  registration_id: number; // A registration uses at most one code
+
+  @Column({ type: 'int' })
+  user_id: number;
+
+  @Column({ type: 'int' })
+  event_id: number;
+
+  @Column('decimal', { precision: 10, scale: 2 })
+  discount_amount: number;
+
+  // Set when the registration is cancelled: the use no longer counts against
+  // the code's limits, but stays on record
+  @Column({ type: 'timestamp', nullable: true })
+  released_at: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @ManyToOne(() => PromoCode, (promoCode) => promoCode.redemptions, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'promo_code_id' })
+  promo_code: PromoCode;
+
+  @ManyToOne(() => Registration, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'registration_id' })
+  registration: Registration;
+}
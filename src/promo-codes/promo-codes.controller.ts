@@ -0,0 +1,85 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Roles } from 'src/auth/decorators/role.decorator';
+import {
+  CheckPolicy,
+  PolicyResource,
+} from 'src/auth/decorators/check-policy.decorator';
+import { ROLE_MATRIX } from 'src/auth/role-matrix';
+import type { RequestWithSession } from 'src/auth/interfaces/request-with-user.interface';
+import { ListQueryPipe } from 'src/common/pagination/list-query.pipe';
+import { PromoCodesService } from './promo-codes.service';
+import { CreatePromoCodeDto } from './dto/create-promo-code.dto';
+import { UpdatePromoCodeDto } from './dto/update-promo-code.dto';
+import { PromoCodeQueryDto } from './dto/promo-code-query.dto';
+
+// Codes are applied by passing promo_code to POST /registrations
+@ApiBearerAuth('access-token')
+@ApiTags('Promo codes')
+@Controller('promo-codes')
+export class PromoCodesController {
+  constructor(private readonly promoCodesService: PromoCodesService) {}
+
+  @Post()
+  @Roles(...ROLE_MATRIX.promoCodes.create)
+  @CheckPolicy(PolicyResource.PromoCode, 'create') // created_by must be the caller
+  create(@Body() createPromoCodeDto: CreatePromoCodeDto) {
+    return this.promoCodesService.create(createPromoCodeDto);
+  }
+
+  @Get()
+  @Roles(...ROLE_MATRIX.promoCodes.findAll)
+  findAll(
+    @Query(ListQueryPipe) query: PromoCodeQueryDto,
+    @Req() req: RequestWithSession,
+  ) {
+    return this.promoCodesService.findAll(query, req.user);
+  }
+
+  @Get('report')
+  @Roles(...ROLE_MATRIX.promoCodes.report)
+  report(@Req() req: RequestWithSession) {
+    return this.promoCodesService.report(req.user);
+  }
+
+  @Get(':id')
+  @Roles(...ROLE_MATRIX.promoCodes.findOne)
+  @CheckPolicy(PolicyResource.PromoCode)
+  findOne(@Param('id') id: string) {
+    return this.promoCodesService.findOne(+id);
+  }
+
+  @Get(':id/redemptions')
+  @Roles(...ROLE_MATRIX.promoCodes.report)
+  @CheckPolicy(PolicyResource.PromoCode)
+  findRedemptions(@Param('id') id: string) {
+    return this.promoCodesService.findRedemptions(+id);
+  }
+
+  @Patch(':id')
+  @Roles(...ROLE_MATRIX.promoCodes.update)
+  @CheckPolicy(PolicyResource.PromoCode)
+  update(
+    @Param('id') id: string,
+    @Body() updatePromoCodeDto: UpdatePromoCodeDto,
+  ) {
+    return this.promoCodesService.update(+id, updatePromoCodeDto);
+  }
+
+  @Delete(':id')
+  @Roles(...ROLE_MATRIX.promoCodes.remove)
+  @CheckPolicy(PolicyResource.PromoCode)
+  remove(@Param('id') id: string) {
+    return this.promoCodesService.remove(+id);
+  }
+}
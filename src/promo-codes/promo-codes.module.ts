@@ -0,0 +1,19 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { Event } from 'src/events/entities/event.entity';
+import { PromoCode } from './entities/promo-code.entity';
+import { PromoRedemption } from './entities/promo-redemption.entity';
+import { PromoCodesService } from './promo-codes.service';
+import { PromoCodesController } from './promo-codes.controller';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([PromoCode, PromoRedemption, Event]),
+  ],
+  controllers: [PromoCodesController],
+  providers: [PromoCodesService],
+  exports: [PromoCodesService],
+})
+export class PromoCodesModule {}
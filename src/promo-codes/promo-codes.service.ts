@@ -0,0 +1,356 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, IsNull, Repository } from 'typeorm';
+import { Event } from 'src/events/entities/event.entity';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { UserRole } from 'src/users/entities/user.entity';
+import type { RequestWithSession } from 'src/auth/interfaces/request-with-user.interface';
+import { paginate } from 'src/common/pagination/paginate';
+import { discountType, PromoCode } from './entities/promo-code.entity';
+import { PromoRedemption } from './entities/promo-redemption.entity';
+import { CreatePromoCodeDto } from './dto/create-promo-code.dto';
+import { UpdatePromoCodeDto } from './dto/update-promo-code.dto';
+import { PromoCodeQueryDto } from './dto/promo-code-query.dto';
+
+type Caller = RequestWithSession['user'];
+
+// Amount taken off a price by the code, never more than the price itself
+export function discountFor(
+  promoCode: Pick<PromoCode, 'discount_type' | 'discount_value'>,
+  price: number,
+) {
+  const value = Number(promoCode.discount_value);
+  const discount =
+    promoCode.discount_type === discountType.Percentage
+      ? Math.round(price * value) / 100
+      : value;
+  return Math.min(discount, price);
+}
+
+@Injectable()
+export class PromoCodesService {
+  constructor(
+    @InjectRepository(PromoCode)
+    private promoCodesRepository: Repository<PromoCode>,
+    @InjectRepository(PromoRedemption)
+    private redemptionsRepository: Repository<PromoRedemption>,
+    @InjectRepository(Event)
+    private eventsRepository: Repository<Event>,
+  ) {}
+
+  async create(createPromoCodeDto: CreatePromoCodeDto) {
+    this.validate(createPromoCodeDto);
+    const code = this.normalize(createPromoCodeDto.code);
+    await this.ensureCodeFree(code);
+    const events = await this.findEvents(
+      createPromoCodeDto.event_ids ?? [],
+      createPromoCodeDto.created_by,
+    );
+    return this.promoCodesRepository.save(
+      this.promoCodesRepository.create({
+        ...this.pick(createPromoCodeDto),
+        code,
+        created_by: createPromoCodeDto.created_by,
+        events,
+      }),
+    );
+  }
+
+  // Organizers see their own codes, Admins every code
+  findAll(query: PromoCodeQueryDto, caller: Caller) {
+    const qb = this.promoCodesRepository.createQueryBuilder('promo_code');
+    if (caller.role !== UserRole.Admin) {
+      qb.andWhere('promo_code.created_by = :userId', {
+        userId: caller.user_id,
+      });
+    }
+    return paginate(qb, query, {
+      path: '/promo-codes',
+      idColumn: 'promo_code_id',
+    });
+  }
+
+  async findOne(id: number) {
+    const promoCode = await this.promoCodesRepository.findOne({
+      where: { promo_code_id: id },
+      relations: ['events'],
+    });
+    if (!promoCode) {
+      throw new NotFoundException(`Promo code with ID ${id} not found`);
+    }
+    return promoCode;
+  }
+
+  async update(id: number, updatePromoCodeDto: UpdatePromoCodeDto) {
+    const promoCode = await this.findOne(id);
+    this.validate(updatePromoCodeDto, promoCode);
+    const changes: Partial<PromoCode> = this.pick(updatePromoCodeDto);
+    if (updatePromoCodeDto.code !== undefined) {
+      changes.code = this.normalize(updatePromoCodeDto.code);
+      if (changes.code !== promoCode.code) {
+        await this.ensureCodeFree(changes.code);
+      }
+    }
+    if (updatePromoCodeDto.created_by !== undefined) {
+      changes.created_by = updatePromoCodeDto.created_by;
+    }
+    if (
+      updatePromoCodeDto.event_ids !== undefined ||
+      changes.created_by !== undefined
+    ) {
+      // Restrictions must stay within the (possibly new) owner's events
+      changes.events = await this.findEvents(
+        updatePromoCodeDto.event_ids ??
+          promoCode.events.map((event) => event.event_id),
+        changes.created_by ?? promoCode.created_by,
+      );
+    }
+    return this.promoCodesRepository.save({ ...promoCode, ...changes });
+  }
+
+  // Codes that were used stay for the report, even if every use was released;
+  // end them with valid_until instead
+  async remove(id: number) {
+    const promoCode = await this.findOne(id);
+    if (await this.redemptionsRepository.existsBy({ promo_code_id: id })) {
+      throw new ConflictException(
+        `Promo code ${promoCode.code} has been redeemed; set valid_until to end it instead`,
+      );
+    }
+    await this.promoCodesRepository.delete(id);
+  }
+
+  // Applies the code to a registration that was just saved at full price and
+  // returns the discount. Runs in the registration's transaction, so a failure
+  // anywhere rolls the redemption back with it.
+  async redeem(
+    manager: EntityManager,
+    rawCode: string,
+    event: Event,
+    registration: Registration,
+  ) {
+    const code = this.normalize(rawCode);
+    const promoCode = await manager.findOne(PromoCode, {
+      where: { code },
+      relations: ['events'],
+    });
+    if (!promoCode) {
+      throw new NotFoundException(`Promo code ${code} not found`);
+    }
+
+    const now = new Date();
+    if (promoCode.valid_from && now < new Date(promoCode.valid_from)) {
+      throw new BadRequestException(`Promo code ${code} is not valid yet`);
+    }
+    if (promoCode.valid_until && now >= new Date(promoCode.valid_until)) {
+      throw new BadRequestException(`Promo code ${code} has expired`);
+    }
+    const applies = promoCode.events.length
+      ? promoCode.events.some((other) => other.event_id === event.event_id)
+      : event.created_by === promoCode.created_by;
+    if (!applies) {
+      throw new BadRequestException(
+        `Promo code ${code} does not apply to event ${event.event_id}`,
+      );
+    }
+
+    // Claim a use in a single conditional UPDATE, so concurrent registrations
+    // can never push redemption_count past max_redemptions. The row stays
+    // locked until the transaction ends, which also serializes the per-user
+    // check below for this code.
+    const claimed = await manager
+      .createQueryBuilder()
+      .update(PromoCode)
+      .set({ redemption_count: () => 'redemption_count + 1' })
+      .where('promo_code_id = :id', { id: promoCode.promo_code_id })
+      .andWhere(
+        '(max_redemptions IS NULL OR redemption_count < max_redemptions)',
+      )
+      .execute();
+    if (!claimed.affected) {
+      throw new ConflictException(`Promo code ${code} has been fully redeemed`);
+    }
+
+    if (promoCode.per_user_limit !== null) {
+      const used = await manager.count(PromoRedemption, {
+        where: {
+          promo_code_id: promoCode.promo_code_id,
+          user_id: registration.user_id,
+          released_at: IsNull(),
+        },
+      });
+      if (used >= promoCode.per_user_limit) {
+        throw new ConflictException(
+          `You have already used promo code ${code} ${used} time(s)`,
+        );
+      }
+    }
+
+    const discount = discountFor(
+      promoCode,
+      Number(registration.payment_amount),
+    );
+    await manager.insert(PromoRedemption, {
+      promo_code_id: promoCode.promo_code_id,
+      registration_id: registration.registration_id,
+      user_id: registration.user_id,
+      event_id: event.event_id,
+      discount_amount: discount,
+    });
+    return { promoCode, discount };
+  }
+
+  // Gives back the use a registration made of a promo code when it is
+  // cancelled, so it counts against neither max_redemptions nor the per-user
+  // limit. Runs in the cancellation's transaction.
+  async release(manager: EntityManager, registrationId: number) {
+    const redemption = await manager.findOneBy(PromoRedemption, {
+      registration_id: registrationId,
+      released_at: IsNull(),
+    });
+    if (!redemption) {
+      return;
+    }
+    await manager.update(
+      PromoRedemption,
+      { redemption_id: redemption.redemption_id },
+      { released_at: new Date() },
+    );
+    await manager
+      .createQueryBuilder()
+      .update(PromoCode)
+      .set({ redemption_count: () => 'GREATEST(redemption_count - 1, 0)' })
+      .where('promo_code_id = :id', { id: redemption.promo_code_id })
+      .execute();
+  }
+
+  // Redemptions per code: uses, distinct users and the total discount given,
+  // leaving out released uses
+  async report(caller: Caller) {
+    const qb = this.promoCodesRepository
+      .createQueryBuilder('promo_code')
+      .leftJoin(
+        'promo_code.redemptions',
+        'redemption',
+        'redemption.released_at IS NULL',
+      )
+      .select('promo_code.promo_code_id', 'promo_code_id')
+      .addSelect('promo_code.code', 'code')
+      .addSelect('promo_code.max_redemptions', 'max_redemptions')
+      .addSelect('promo_code.redemption_count', 'redemption_count')
+      .addSelect('COUNT(DISTINCT redemption.user_id)', 'unique_users')
+      .addSelect(
+        'COALESCE(SUM(redemption.discount_amount), 0)',
+        'total_discount',
+      )
+      .groupBy('promo_code.promo_code_id')
+      .addGroupBy('promo_code.code')
+      .addGroupBy('promo_code.max_redemptions')
+      .addGroupBy('promo_code.redemption_count')
+      .orderBy('promo_code.promo_code_id', 'ASC');
+    if (caller.role !== UserRole.Admin) {
+      qb.where('promo_code.created_by = :userId', { userId: caller.user_id });
+    }
+    const rows = await qb.getRawMany<{
+      promo_code_id: number;
+      code: string;
+      max_redemptions: number | null;
+      redemption_count: number;
+      unique_users: string;
+      total_discount: string;
+    }>();
+    return rows.map((row) => ({
+      ...row,
+      remaining:
+        row.max_redemptions === null
+          ? null
+          : row.max_redemptions - row.redemption_count,
+      unique_users: Number(row.unique_users),
+      total_discount: Number(row.total_discount),
+    }));
+  }
+
+  async findRedemptions(id: number) {
+    await this.findOne(id);
+    return this.redemptionsRepository.find({
+      where: { promo_code_id: id },
+      order: { redemption_id: 'ASC' },
+    });
+  }
+
+  // Checks what depends on more than one field; on update, fields left out
+  // are checked against the stored values
+  private validate(dto: UpdatePromoCodeDto, current?: PromoCode) {
+    const type = dto.discount_type ?? current?.discount_type;
+    const value = dto.discount_value ?? Number(current?.discount_value);
+    if (type === discountType.Percentage && value > 100) {
+      throw new BadRequestException('A percentage discount cannot exceed 100');
+    }
+    const from = dto.valid_from ?? current?.valid_from;
+    const until = dto.valid_until ?? current?.valid_until;
+    if (from && until && new Date(from) >= new Date(until)) {
+      throw new BadRequestException('valid_from must be before valid_until');
+    }
+  }
+
+  private pick(dto: UpdatePromoCodeDto) {
+    const {
+      discount_type,
+      discount_value,
+      max_redemptions,
+      per_user_limit,
+      valid_from,
+      valid_until,
+    } = dto;
+    return Object.fromEntries(
+      Object.entries({
+        discount_type,
+        discount_value,
+        max_redemptions,
+        per_user_limit,
+        valid_from: valid_from && new Date(valid_from),
+        valid_until: valid_until && new Date(valid_until),
+      }).filter(([, value]) => value !== undefined),
+    ) as Partial<PromoCode>;
+  }
+
+  private normalize(code: string) {
+    return code.trim().toUpperCase();
+  }
+
+  private async ensureCodeFree(code: string) {
+    if (await this.promoCodesRepository.existsBy({ code })) {
+      throw new ConflictException(`Promo code ${code} already exists`);
+    }
+  }
+
+  // Events a code is restricted to, which must belong to its organizer
+  private async findEvents(eventIds: number[], organizerId: number) {
+    const unique = [...new Set(eventIds)];
+    if (!unique.length) {
+      return [];
+    }
+    const events = await this.eventsRepository.find({
+      where: { event_id: In(unique) },
+      select: ['event_id', 'created_by'],
+    });
+    const missing = unique.filter(
+      (id) => !events.some((event) => event.event_id === id),
+    );
+    if (missing.length) {
+      throw new NotFoundException(`Unknown event(s): ${missing.join(', ')}`);
+    }
+    const foreign = events.filter((event) => event.created_by !== organizerId);
+    if (foreign.length) {
+      throw new BadRequestException(
+        `Event(s) ${foreign.map((event) => event.event_id).join(', ')} are organized by someone else`,
+      );
+    }
+    return events;
+  }
+}
@@ -0,0 +1,34 @@
+import { Event } from 'src/events/entities/event.entity';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RefundDecision {
+  percent: number;
+  reason: string;
+}
+
+// How much of what was paid is refunded when a registrant cancels at `now`,
+// following the event's cancellation policy
+export function refundFor(
+  event: Pick<
+    Event,
+    'starts_at' | 'refund_full_days_before' | 'refund_partial_percent'
+  >,
+  now = new Date(),
+): RefundDecision {
+  const startsAt = event.starts_at.getTime();
+  if (now.getTime() >= startsAt) {
+    return { percent: 0, reason: 'The event has already started' };
+  }
+  const daysLeft = (startsAt - now.getTime()) / DAY_MS;
+  if (daysLeft >= event.refund_full_days_before) {
+    return {
+      percent: 100,
+      reason: `Cancelled at least ${event.refund_full_days_before} days before the event`,
+    };
+  }
+  return {
+    percent: event.refund_partial_percent,
+    reason: `Cancelled less than ${event.refund_full_days_before} days before the event`,
+  };
+}
@@ -1,33 +1,42 @@
-import { IsOptional, IsEnum, IsDate, IsNumber } from 'class-validator';
+import {
+  IsDateString,
+  IsInt,
+  IsNumber,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
-import { paymentStatus } from '../entities/registration.entity';
 
 export class CreateRegistrationDto {
-    @ApiProperty()
-    @IsOptional()
-    event_id: number;
+  @ApiProperty()
+  @IsNotEmpty()
+  @IsNumber()
+  event_id: number;
 
-    @ApiProperty()
-    @IsNumber()
-    user_id: number;
+  @ApiProperty()
+  @IsNumber()
+  user_id: number;
 
-    @ApiProperty()
-    @IsDate()
-    registration_date: Date;
+  @ApiProperty({ required: false, description: 'Defaults to now' })
+  @IsOptional()
+  @IsDateString()
+  registration_date?: string;
 
-    @ApiProperty()
-    @IsEnum(paymentStatus)
-    payment_status: paymentStatus;
-    
-    @ApiProperty()
-    @IsNumber()
-    payment_amount: number;
+  // The amount due is priced from the ticket type, never taken from the client
+  @ApiProperty({
+    required: false,
+    description: 'Required when the event has ticket types',
+  })
+  @IsOptional()
+  @IsInt()
+  ticket_type_id?: number;
 
-    @ApiProperty()
-    @IsDate()
-    created_at: Date;
-
-    @ApiProperty()
-    @IsDate()
-    updated_at: Date;
+  @ApiProperty({
+    required: false,
+    description: 'Promo code to discount the ticket with',
+  })
+  @IsOptional()
+  @IsString()
+  promo_code?: string;
 }
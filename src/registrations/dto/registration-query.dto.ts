@@ -0,0 +1,33 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsEnum, IsIn, IsInt, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from 'src/common/pagination/pagination-query.dto';
+import { registrationStatus } from '../entities/registration.entity';
+
+export const REGISTRATION_SORT_FIELDS = [
+  'registration_id',
+  'registration_date',
+  'status',
+  'created_at',
+] as const;
+
+export class RegistrationQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({
+    enum: REGISTRATION_SORT_FIELDS,
+    default: 'registration_id',
+  })
+  @IsOptional()
+  @IsIn(REGISTRATION_SORT_FIELDS)
+  sort?: (typeof REGISTRATION_SORT_FIELDS)[number];
+
+  @ApiPropertyOptional()
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  event_id?: number;
+
+  @ApiPropertyOptional({ enum: registrationStatus })
+  @IsOptional()
+  @IsEnum(registrationStatus)
+  status?: registrationStatus;
+}
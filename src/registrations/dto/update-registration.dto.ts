@@ -1,4 +1,13 @@
-import { PartialType } from '@nestjs/swagger';
+import { OmitType, PartialType } from '@nestjs/swagger';
 import { CreateRegistrationDto } from './create-registration.dto';
 
-export class UpdateRegistrationDto extends PartialType(CreateRegistrationDto) {}
+// Changing the ticket type or code would mean re-pricing, and changing the
+// event or user would skip the seat checks; cancel and register again instead
+export class UpdateRegistrationDto extends PartialType(
+  OmitType(CreateRegistrationDto, [
+    'event_id',
+    'user_id',
+    'ticket_type_id',
+    'promo_code',
+  ] as const),
+) {}
@@ -5,12 +5,19 @@ import {
   CreateDateColumn,
   UpdateDateColumn,
   OneToMany,
+  ManyToOne,
+  JoinColumn,
 } from 'typeorm';
+import { Event } from 'src/events/entities/event.entity';
+import { User } from 'src/users/entities/user.entity';
+import { Payment } from 'src/payments/entities/payment.entity';
+import { paymentStatus } from 'src/payments/payment-status.enum';
+import { TicketType } from 'src/ticket-types/entities/ticket-type.entity';
 
-export enum paymentStatus {
-    Pending = 'Pending',
-    Completed = 'Completed',
-    Failed = 'Failed',
+export enum registrationStatus {
+  Confirmed = 'Confirmed',
+  Waitlisted = 'Waitlisted',
+  Cancelled = 'Cancelled',
 }
 
 @Entity('registrations')
@@ -24,21 +31,73 @@ export class Registration {
   @Column()
   user_id: number; // Reference to users table
 
+  @Column({ type: 'int', nullable: true })
+  ticket_type_id: number | null; // Null for free events without ticket types
+
   @CreateDateColumn()
   registration_date: Date;
 
   @Column({
     type: 'enum',
     enum: paymentStatus,
+    default: paymentStatus.Pending,
+  })
+  payment_status: paymentStatus; // Derived from the payments, see PaymentStatusService
+
+  @Column({
+    type: 'enum',
+    enum: registrationStatus,
+    default: registrationStatus.Confirmed,
   })
-  payment_status: paymentStatus;
+  status: registrationStatus;
 
   @Column('decimal', { precision: 10, scale: 2 })
-  payment_amount: number;
+  payment_amount: number; // Amount due, priced from the ticket type at registration
+
+  @Column('decimal', { precision: 10, scale: 2, default: 0 })
+  discount_amount: number; // Taken off the ticket price by a promo code
+
+  @Column({ type: 'varchar', length: 3, default: 'USD' })
+  currency: string;
+
+  @Column('decimal', { precision: 10, scale: 2, default: 0 })
+  amount_paid: number; // Sum of successful payments
+
+  // Set once, when staff scan the ticket at the door
+  @Column({ type: 'timestamp', nullable: true })
+  checked_in_at: Date | null;
+
+  @Column({ type: 'int', nullable: true })
+  checked_in_by: number | null; // Staff member who scanned it
 
   @CreateDateColumn()
   created_at: Date;
 
   @UpdateDateColumn()
   updated_at: Date;
+
+  // Registrations and their payments are kept: an event or user with any
+  // cannot be deleted, cancel the event or the registrations instead
+  @ManyToOne(() => Event, (event) => event.registrations, {
+    onDelete: 'RESTRICT',
+  })
+  @JoinColumn({ name: 'event_id' })
+  event: Event;
+
+  @ManyToOne(() => User, (user) => user.registrations, { onDelete: 'RESTRICT' })
+  @JoinColumn({ name: 'user_id' })
+  user: User;
+
+  // A ticket type cannot be deleted while registrations use it
+  @ManyToOne(() => TicketType, (ticketType) => ticketType.registrations, {
+    onDelete: 'RESTRICT',
+  })
+  @JoinColumn({ name: 'ticket_type_id' })
+  ticket_type: TicketType | null;
+
+  @OneToMany(() => Payment, (payment) => payment.registration)
+  payments: Payment[];
+
+  // Computed on read: 1-based place in the event waitlist, null unless Waitlisted
+  waitlist_position?: number | null;
 }
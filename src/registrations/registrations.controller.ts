@@ -1,33 +1,105 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Query,
+  DefaultValuePipe,
+  ParseEnumPipe,
+  StreamableFile,
+} from '@nestjs/common';
 import { RegistrationsService } from './registrations.service';
 import { CreateRegistrationDto } from './dto/create-registration.dto';
 import { UpdateRegistrationDto } from './dto/update-registration.dto';
+import {
+  CheckPolicy,
+  PolicyResource,
+} from 'src/auth/decorators/check-policy.decorator';
+import { Roles } from 'src/auth/decorators/role.decorator';
+import { RequirePermissions } from 'src/auth/decorators/require-permissions.decorator';
+import { ROLE_MATRIX } from 'src/auth/role-matrix';
+import { ListQueryPipe } from 'src/common/pagination/list-query.pipe';
+import { RegistrationQueryDto } from './dto/registration-query.dto';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { qrFormat, TicketsService } from 'src/tickets/tickets.service';
 
+@ApiBearerAuth('access-token')
+@ApiTags('Registrations')
 @Controller('registrations')
 export class RegistrationsController {
-  constructor(private readonly registrationsService: RegistrationsService) {}
+  constructor(
+    private readonly registrationsService: RegistrationsService,
+    private readonly ticketsService: TicketsService,
+  ) {}
 
   @Post()
+  @Roles(...ROLE_MATRIX.registrations.create)
+  @CheckPolicy(PolicyResource.Registration, 'create') // Users register themselves
   create(@Body() createRegistrationDto: CreateRegistrationDto) {
     return this.registrationsService.create(createRegistrationDto);
   }
 
   @Get()
-  findAll() {
-    return this.registrationsService.findAll();
+  @Roles(...ROLE_MATRIX.registrations.findAll)
+  @RequirePermissions('registrations:read')
+  findAll(@Query(ListQueryPipe) query: RegistrationQueryDto) {
+    return this.registrationsService.findAll(query);
   }
 
   @Get(':id')
+  @Roles(...ROLE_MATRIX.registrations.findOne)
+  @CheckPolicy(PolicyResource.Registration)
   findOne(@Param('id') id: string) {
     return this.registrationsService.findOne(+id);
   }
 
+  // Signed ticket for a confirmed and paid registration
+  @Get(':id/ticket')
+  @Roles(...ROLE_MATRIX.registrations.ticket)
+  @CheckPolicy(PolicyResource.Registration)
+  getTicket(@Param('id') id: string) {
+    return this.ticketsService.issue(+id);
+  }
+
+  @Get(':id/ticket/qr')
+  @Roles(...ROLE_MATRIX.registrations.ticket)
+  @CheckPolicy(PolicyResource.Registration)
+  async getTicketQrCode(
+    @Param('id') id: string,
+    @Query(
+      'format',
+      new DefaultValuePipe(qrFormat.Png),
+      new ParseEnumPipe(qrFormat),
+    )
+    format: qrFormat,
+  ) {
+    const image = await this.ticketsService.renderQrCode(+id, format);
+    return new StreamableFile(image, {
+      type: format === qrFormat.Svg ? 'image/svg+xml' : 'image/png',
+    });
+  }
+
+  @Post(':id/cancel')
+  @Roles(...ROLE_MATRIX.registrations.cancel)
+  @CheckPolicy(PolicyResource.Registration)
+  cancel(@Param('id') id: string) {
+    return this.registrationsService.cancel(+id);
+  }
+
   @Patch(':id')
-  update(@Param('id') id: string, @Body() updateRegistrationDto: UpdateRegistrationDto) {
+  @Roles(...ROLE_MATRIX.registrations.update)
+  update(
+    @Param('id') id: string,
+    @Body() updateRegistrationDto: UpdateRegistrationDto,
+  ) {
     return this.registrationsService.update(+id, updateRegistrationDto);
   }
 
   @Delete(':id')
+  @Roles(...ROLE_MATRIX.registrations.remove)
   remove(@Param('id') id: string) {
     return this.registrationsService.remove(+id);
   }
@@ -4,9 +4,22 @@ import { RegistrationsController } from './registrations.controller';
 import { Registration } from './entities/registration.entity';
 import { TypeOrmModule } from '@nestjs/typeorm';
 import { DatabaseModule } from 'src/database/database.module';
+import { Event } from 'src/events/entities/event.entity';
+import { User } from 'src/users/entities/user.entity';
+import { PaymentsModule } from 'src/payments/payments.module';
+import { TicketTypesModule } from 'src/ticket-types/ticket-types.module';
+import { PromoCodesModule } from 'src/promo-codes/promo-codes.module';
+import { TicketsModule } from 'src/tickets/tickets.module';
 
 @Module({
-  imports: [DatabaseModule, TypeOrmModule.forFeature([Registration])],
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([Registration, Event, User]),
+    PaymentsModule,
+    TicketTypesModule,
+    PromoCodesModule,
+    TicketsModule,
+  ],
   controllers: [RegistrationsController],
   providers: [RegistrationsService],
   exports: [RegistrationsService],
@@ -1,34 +1,385 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
 import { CreateRegistrationDto } from './dto/create-registration.dto';
 import { UpdateRegistrationDto } from './dto/update-registration.dto';
 import { InjectRepository } from '@nestjs/typeorm';
-import { Registration } from './entities/registration.entity';
-import { Repository } from 'typeorm';
+import {
+  Registration,
+  registrationStatus,
+} from './entities/registration.entity';
+import { DataSource, EntityManager, LessThan, Not, Repository } from 'typeorm';
+import { Event, eventStatus } from 'src/events/entities/event.entity';
+import {
+  assertTransition,
+  currentStatus,
+  nextSequence,
+} from 'src/events/event-lifecycle';
+import { User } from 'src/users/entities/user.entity';
+import { paginate } from 'src/common/pagination/paginate';
+import { RegistrationQueryDto } from './dto/registration-query.dto';
+import { derivePaymentStatus } from 'src/payments/payment-status.service';
+import { PaymentsService } from 'src/payments/payments.service';
+import { Payment } from 'src/payments/entities/payment.entity';
+import { RefundDecision, refundFor } from './cancellation-policy';
+import { TicketTypesService } from 'src/ticket-types/ticket-types.service';
+import { PromoCodesService } from 'src/promo-codes/promo-codes.service';
 
 @Injectable()
 export class RegistrationsService {
-  constructor (
+  constructor(
     @InjectRepository(Registration)
     private registrationsRepository: Repository<Registration>,
-  ){}
-  create(createRegistrationDto: CreateRegistrationDto) {
-    const registration = this.registrationsRepository.create(createRegistrationDto);
-    return this.registrationsRepository.save(registration);
+    @InjectRepository(Event)
+    private eventsRepository: Repository<Event>,
+    private dataSource: DataSource, // Used to run capacity checks inside a transaction
+    private paymentsService: PaymentsService, // Issues refunds on cancellation
+    private ticketTypesService: TicketTypesService, // Prices registrations
+    private promoCodesService: PromoCodesService, // Applies discounts
+  ) {}
+
+  async create(createRegistrationDto: CreateRegistrationDto) {
+    const saved = await this.dataSource.transaction(async (manager) => {
+      // Lock the event row so concurrent registrations are seated one at a time
+      const event = await this.lockEvent(
+        manager,
+        createRegistrationDto.event_id,
+      );
+
+      // Only published events that have not started take registrations
+      const status = currentStatus(event);
+      if (status !== eventStatus.Published) {
+        throw new BadRequestException(
+          `Event ${event.event_id} is ${status} and not open for registration`,
+        );
+      }
+      if (event.starts_at <= new Date()) {
+        throw new BadRequestException(
+          `Event ${event.event_id} has already started`,
+        );
+      }
+      await this.ensureUserExists(manager, createRegistrationDto.user_id);
+
+      const existing = await manager.findOne(Registration, {
+        where: {
+          event_id: event.event_id,
+          user_id: createRegistrationDto.user_id,
+          status: Not(registrationStatus.Cancelled),
+        },
+      });
+      if (existing) {
+        throw new ConflictException(
+          `User ${createRegistrationDto.user_id} is already registered for event ${event.event_id}`,
+        );
+      }
+
+      const quote = await this.ticketTypesService.quote(
+        manager,
+        event.event_id,
+        createRegistrationDto.ticket_type_id,
+      );
+
+      const confirmed = await manager.count(Registration, {
+        where: {
+          event_id: event.event_id,
+          status: registrationStatus.Confirmed,
+        },
+      });
+      const hasSeat = event.capacity === null || confirmed < event.capacity;
+
+      const registration = manager.create(Registration, {
+        ...createRegistrationDto,
+        ticket_type_id: quote.ticketType?.ticket_type_id ?? null,
+        payment_amount: quote.price,
+        currency: quote.currency,
+        // No payments yet, so only a free registration starts out paid
+        payment_status: derivePaymentStatus(quote.price, []).status,
+        amount_paid: 0,
+        status: hasSeat
+          ? registrationStatus.Confirmed
+          : registrationStatus.Waitlisted,
+      });
+      const saved = await manager.save(registration);
+      if (createRegistrationDto.promo_code) {
+        const { discount } = await this.promoCodesService.redeem(
+          manager,
+          createRegistrationDto.promo_code,
+          event,
+          saved,
+        );
+        saved.discount_amount = discount;
+        saved.payment_amount = Math.round((quote.price - discount) * 100) / 100;
+        saved.payment_status = derivePaymentStatus(
+          saved.payment_amount,
+          [],
+        ).status;
+        await manager.save(saved);
+      }
+      return saved;
+    });
+    return this.withWaitlistPosition(saved);
+  }
+
+  findAll(query: RegistrationQueryDto) {
+    const qb = this.registrationsRepository.createQueryBuilder('registration');
+    if (query.event_id !== undefined) {
+      qb.andWhere('registration.event_id = :eventId', {
+        eventId: query.event_id,
+      });
+    }
+    if (query.status) {
+      qb.andWhere('registration.status = :status', { status: query.status });
+    }
+    return paginate(qb, query, {
+      path: '/registrations',
+      idColumn: 'registration_id',
+    });
   }
 
-  findAll() {
-    return this.registrationsRepository.find();
+  async findOne(id: number) {
+    const registration = await this.registrationsRepository.findOneBy({
+      registration_id: id,
+    });
+    return registration ? this.withWaitlistPosition(registration) : null;
   }
 
-  findOne(id: number) {
-    return this.registrationsRepository.findOneBy({ registration_id: id });
+  // Waitlisted registrations for an event, in the order they will be promoted
+  async getWaitlist(eventId: number) {
+    const event = await this.eventsRepository.findOneBy({ event_id: eventId });
+    if (!event) {
+      throw new NotFoundException(`Event with ID ${eventId} not found`);
+    }
+    const waitlist = await this.registrationsRepository.find({
+      where: { event_id: eventId, status: registrationStatus.Waitlisted },
+      order: { registration_id: 'ASC' },
+    });
+    return waitlist.map((registration, index) => ({
+      ...registration,
+      waitlist_position: index + 1,
+    }));
   }
 
+  // A registration stays with its event and user: moving it would skip the
+  // seat, status and duplicate checks of create(). Cancel and register again.
   update(id: number, updateRegistrationDto: UpdateRegistrationDto) {
-    return this.registrationsRepository.update(id, updateRegistrationDto);
+    return this.registrationsRepository.update(
+      { registration_id: id },
+      updateRegistrationDto,
+    );
+  }
+
+  // Cancels the registration, refunds it according to the event's cancellation
+  // policy (unless another decision is given) and gives the seat to the next
+  // person on the waitlist
+  async cancel(id: number, refundDecision?: RefundDecision) {
+    const { registration, refund } = await this.dataSource.transaction(
+      async (manager) => {
+        const registration = await this.lockRegistration(manager, id);
+        if (registration.status === registrationStatus.Cancelled) {
+          throw new ConflictException(
+            `Registration ${id} is already cancelled`,
+          );
+        }
+
+        const event = await manager.findOneByOrFail(Event, {
+          event_id: registration.event_id,
+        });
+        const decision = refundDecision ?? refundFor(event);
+        const refunds = await this.paymentsService.recordRefunds(
+          manager,
+          registration.registration_id,
+          decision.percent,
+        );
+
+        const wasConfirmed =
+          registration.status === registrationStatus.Confirmed;
+        await manager.update(
+          Registration,
+          { registration_id: id },
+          { status: registrationStatus.Cancelled },
+        );
+        await this.promoCodesService.release(manager, id);
+        if (wasConfirmed) {
+          await this.promoteFromWaitlist(manager, registration.event_id);
+        }
+        return {
+          registration: await manager.findOneByOrFail(Registration, {
+            registration_id: id,
+          }),
+          refund: { ...decision, payments: refunds },
+        };
+      },
+    );
+    // The provider is only asked for the money once the cancellation is
+    // committed; re-read the registration for the payment status it leaves
+    const payments = await this.paymentsService.issueRefunds(refund.payments);
+    return {
+      registration: await this.withWaitlistPosition(
+        await this.registrationsRepository.findOneByOrFail({
+          registration_id: registration.registration_id,
+        }),
+      ),
+      refund: { ...refund, payments },
+    };
+  }
+
+  // Organizer cancels the whole event: every active registration is cancelled
+  // and refunded in full, whatever the cancellation policy says
+  async cancelEvent(eventId: number) {
+    const { result, refunds } = await this.dataSource.transaction(
+      async (manager) => {
+        const event = await this.lockEvent(manager, eventId);
+        assertTransition(event, eventStatus.Cancelled);
+        event.sequence = nextSequence(event, { status: eventStatus.Cancelled });
+        event.status = eventStatus.Cancelled;
+        event.cancelled_at = new Date();
+        await manager.save(event);
+
+        const registrations = await manager.find(Registration, {
+          where: {
+            event_id: eventId,
+            status: Not(registrationStatus.Cancelled),
+          },
+          order: { registration_id: 'ASC' },
+        });
+        const refunds: Payment[] = [];
+        for (const registration of registrations) {
+          refunds.push(
+            ...(await this.paymentsService.recordRefunds(
+              manager,
+              registration.registration_id,
+              100,
+            )),
+          );
+          await manager.update(
+            Registration,
+            { registration_id: registration.registration_id },
+            { status: registrationStatus.Cancelled },
+          );
+          await this.promoCodesService.release(
+            manager,
+            registration.registration_id,
+          );
+        }
+        return {
+          result: {
+            event_id: eventId,
+            status: event.status,
+            cancelled_at: event.cancelled_at,
+            registrations_cancelled: registrations.length,
+            amount_refunded:
+              Math.round(
+                refunds.reduce((sum, refund) => sum + refund.amount * 100, 0),
+              ) / 100,
+          },
+          refunds,
+        };
+      },
+    );
+    // Refunds go to the provider after the commit, as in cancel()
+    await this.paymentsService.issueRefunds(refunds);
+    return result;
   }
 
+  // After an event's capacity changed: refused when it is now below the
+  // confirmed registrations, otherwise the seats it adds go to the waitlist.
+  // Must be called while holding the event lock.
+  async fitToCapacity(manager: EntityManager, eventId: number) {
+    const event = await manager.findOneByOrFail(Event, { event_id: eventId });
+    const confirmed = await manager.count(Registration, {
+      where: { event_id: eventId, status: registrationStatus.Confirmed },
+    });
+    if (event.capacity !== null && event.capacity < confirmed) {
+      throw new ConflictException(
+        `Event ${eventId} has ${confirmed} confirmed registrations; capacity cannot be lower`,
+      );
+    }
+    await this.promoteFromWaitlist(manager, eventId);
+  }
+
+  // Registrations are never deleted, so their payments and refunds stay on
+  // record: removing one cancels it with a full refund
   remove(id: number) {
-    return this.registrationsRepository.delete(id);
+    return this.cancel(id, { percent: 100, reason: 'Removed by an Admin' });
+  }
+
+  private async lockEvent(manager: EntityManager, eventId: number) {
+    const event = await manager.findOne(Event, {
+      where: { event_id: eventId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!event) {
+      throw new NotFoundException(`Event with ID ${eventId} not found`);
+    }
+    return event;
+  }
+
+  private async ensureUserExists(manager: EntityManager, userId: number) {
+    const user = await manager.existsBy(User, { user_id: userId });
+    if (!user) {
+      throw new NotFoundException(`User with ID ${userId} not found`);
+    }
+  }
+
+  // Locks the parent event first, then re-reads the registration, so every
+  // seat change for an event goes through the same lock as create()
+  private async lockRegistration(manager: EntityManager, id: number) {
+    const found = await manager.findOneBy(Registration, {
+      registration_id: id,
+    });
+    if (!found) {
+      throw new NotFoundException(`Registration with ID ${id} not found`);
+    }
+    await this.lockEvent(manager, found.event_id);
+
+    const registration = await manager.findOneBy(Registration, {
+      registration_id: id,
+    });
+    if (!registration) {
+      throw new NotFoundException(`Registration with ID ${id} not found`);
+    }
+    return registration;
+  }
+
+  // Fills free seats with the oldest waitlisted registrations.
+  // Must be called while holding the event lock.
+  private async promoteFromWaitlist(manager: EntityManager, eventId: number) {
+    const event = await manager.findOneByOrFail(Event, { event_id: eventId });
+    const confirmed = await manager.count(Registration, {
+      where: { event_id: eventId, status: registrationStatus.Confirmed },
+    });
+    const freeSeats =
+      event.capacity === null ? undefined : event.capacity - confirmed;
+    if (freeSeats !== undefined && freeSeats <= 0) {
+      return;
+    }
+
+    const next = await manager.find(Registration, {
+      where: { event_id: eventId, status: registrationStatus.Waitlisted },
+      order: { registration_id: 'ASC' },
+      take: freeSeats,
+    });
+    for (const registration of next) {
+      registration.status = registrationStatus.Confirmed;
+    }
+    await manager.save(next);
+  }
+
+  private async withWaitlistPosition(registration: Registration) {
+    registration.waitlist_position = null;
+    if (registration.status === registrationStatus.Waitlisted) {
+      const ahead = await this.registrationsRepository.count({
+        where: {
+          event_id: registration.event_id,
+          status: registrationStatus.Waitlisted,
+          registration_id: LessThan(registration.registration_id),
+        },
+      });
+      registration.waitlist_position = ahead + 1;
+    }
+    return registration;
   }
 }
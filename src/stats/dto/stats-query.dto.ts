@@ -0,0 +1,15 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional } from 'class-validator';
+
+export const STATS_INTERVALS = ['day', 'week', 'month'] as const;
+
+export class StatsQueryDto {
+  @ApiPropertyOptional({
+    enum: STATS_INTERVALS,
+    default: 'day',
+    description: 'Bucket size of registrations_over_time',
+  })
+  @IsOptional()
+  @IsIn(STATS_INTERVALS)
+  interval?: (typeof STATS_INTERVALS)[number];
+}
@@ -0,0 +1,25 @@
+import { Controller, Get, Query, Req } from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Roles } from 'src/auth/decorators/role.decorator';
+import { ROLE_MATRIX } from 'src/auth/role-matrix';
+import type { RequestWithSession } from 'src/auth/interfaces/request-with-user.interface';
+import { ListQueryPipe } from 'src/common/pagination/list-query.pipe';
+import { StatsService } from './stats.service';
+import { StatsQueryDto } from './dto/stats-query.dto';
+
+@ApiBearerAuth('access-token')
+@ApiTags('Stats')
+@Controller('organizers')
+export class StatsController {
+  constructor(private readonly statsService: StatsService) {}
+
+  // The caller's own events, whatever their role
+  @Get('me/stats')
+  @Roles(...ROLE_MATRIX.stats.organizer)
+  getOwnStats(
+    @Query(ListQueryPipe) query: StatsQueryDto,
+    @Req() req: RequestWithSession,
+  ) {
+    return this.statsService.forOrganizer(req.user.user_id, query);
+  }
+}
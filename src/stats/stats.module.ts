@@ -0,0 +1,21 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { Event } from 'src/events/entities/event.entity';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { Payment } from 'src/payments/entities/payment.entity';
+import { Feedback } from 'src/feedback/entities/feedback.entity';
+import { StatsService } from './stats.service';
+import { StatsController } from './stats.controller';
+
+// Event stats are served by EventsController at /events/:id/stats
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([Event, Registration, Payment, Feedback]),
+  ],
+  controllers: [StatsController],
+  providers: [StatsService],
+  exports: [StatsService],
+})
+export class StatsModule {}
@@ -0,0 +1,287 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { ObjectLiteral, Repository, SelectQueryBuilder } from 'typeorm';
+import { Event } from 'src/events/entities/event.entity';
+import {
+  Registration,
+  registrationStatus,
+} from 'src/registrations/entities/registration.entity';
+import { Payment } from 'src/payments/entities/payment.entity';
+import { paymentStatus } from 'src/payments/payment-status.enum';
+import {
+  Feedback,
+  feedbackStatus,
+} from 'src/feedback/entities/feedback.entity';
+import { STATS_INTERVALS, StatsQueryDto } from './dto/stats-query.dto';
+
+// Which events the figures cover; every query joins the event as "event"
+interface Scope {
+  condition: string;
+  parameters: Record<string, number>;
+}
+
+// Registrations that ever paid, including those refunded since
+const PAID = [
+  paymentStatus.Success,
+  paymentStatus.PartiallyRefunded,
+  paymentStatus.Refunded,
+];
+
+// Share of part in whole, null when there is nothing to compare with
+const rate = (part: number, whole: number) =>
+  whole ? Math.round((part / whole) * 10000) / 10000 : null;
+
+// Figures for organizers, each computed by one aggregate query, so the cost
+// does not grow with what is loaded into memory
+@Injectable()
+export class StatsService {
+  constructor(
+    @InjectRepository(Event)
+    private eventsRepository: Repository<Event>,
+    @InjectRepository(Registration)
+    private registrationsRepository: Repository<Registration>,
+    @InjectRepository(Payment)
+    private paymentsRepository: Repository<Payment>,
+    @InjectRepository(Feedback)
+    private feedbackRepository: Repository<Feedback>,
+  ) {}
+
+  async forEvent(eventId: number, query: StatsQueryDto) {
+    return {
+      event_id: eventId,
+      ...(await this.stats(
+        { condition: 'event.event_id = :eventId', parameters: { eventId } },
+        query,
+      )),
+    };
+  }
+
+  // Across every event the organizer created
+  async forOrganizer(organizerId: number, query: StatsQueryDto) {
+    const scope = {
+      condition: 'event.created_by = :organizerId',
+      parameters: { organizerId },
+    };
+    const [events, stats] = await Promise.all([
+      this.eventsRepository
+        .createQueryBuilder('event')
+        .where(scope.condition, scope.parameters)
+        .getCount(),
+      this.stats(scope, query),
+    ]);
+    return { organizer_id: organizerId, events, ...stats };
+  }
+
+  private async stats(scope: Scope, query: StatsQueryDto) {
+    const interval = query.interval ?? 'day';
+    if (!STATS_INTERVALS.includes(interval)) {
+      throw new BadRequestException(
+        `interval must be one of ${STATS_INTERVALS.join(', ')}`,
+      );
+    }
+    const [registrations, overTime, revenue, feedback] = await Promise.all([
+      this.registrationCounts(scope),
+      this.registrationsOverTime(scope, interval),
+      this.revenue(scope),
+      this.feedbackSummary(scope),
+    ]);
+
+    const refunds = new Map<string, { count: number; amount: number }>();
+    for (const row of revenue) {
+      const total = refunds.get(row.currency) ?? { count: 0, amount: 0 };
+      total.count += row.refunds;
+      total.amount += row.refunded;
+      refunds.set(row.currency, total);
+    }
+
+    return {
+      registrations: {
+        total: registrations.total,
+        confirmed: registrations.confirmed,
+        waitlisted: registrations.waitlisted,
+        cancelled: registrations.cancelled,
+      },
+      registrations_over_time: overTime,
+      // Free registrations have nothing to pay, so they are left out
+      conversion: {
+        payable: registrations.payable,
+        paid: registrations.paid,
+        rate: rate(registrations.paid, registrations.payable),
+      },
+      revenue,
+      refunds: [...refunds]
+        .filter(([, total]) => total.count > 0)
+        .map(([currency, total]) => ({ currency, ...total })),
+      check_in: {
+        confirmed: registrations.confirmed,
+        checked_in: registrations.checked_in,
+        rate: rate(registrations.checked_in, registrations.confirmed),
+      },
+      feedback,
+    };
+  }
+
+  private async registrationCounts(scope: Scope) {
+    const row = await this.scoped(
+      this.registrationsRepository
+        .createQueryBuilder('registration')
+        .innerJoin('registration.event', 'event'),
+      scope,
+    )
+      .select('COUNT(*)', 'total')
+      .addSelect(
+        'COUNT(*) FILTER (WHERE registration.status = :confirmed)',
+        'confirmed',
+      )
+      .addSelect(
+        'COUNT(*) FILTER (WHERE registration.status = :waitlisted)',
+        'waitlisted',
+      )
+      .addSelect(
+        'COUNT(*) FILTER (WHERE registration.status = :cancelled)',
+        'cancelled',
+      )
+      .addSelect(
+        'COUNT(*) FILTER (WHERE registration.payment_amount > 0)',
+        'payable',
+      )
+      .addSelect(
+        'COUNT(*) FILTER (WHERE registration.payment_amount > 0 AND registration.payment_status IN (:...paid))',
+        'paid',
+      )
+      .addSelect(
+        'COUNT(*) FILTER (WHERE registration.status = :confirmed AND registration.checked_in_at IS NOT NULL)',
+        'checked_in',
+      )
+      .setParameters({
+        confirmed: registrationStatus.Confirmed,
+        waitlisted: registrationStatus.Waitlisted,
+        cancelled: registrationStatus.Cancelled,
+        paid: PAID,
+      })
+      .getRawOne<Record<string, string>>();
+    return Object.fromEntries(
+      Object.entries(row ?? {}).map(([key, value]) => [key, Number(value)]),
+    ) as Record<
+      | 'total'
+      | 'confirmed'
+      | 'waitlisted'
+      | 'cancelled'
+      | 'payable'
+      | 'paid'
+      | 'checked_in',
+      number
+    >;
+  }
+
+  // New registrations per bucket, whatever became of them later; buckets
+  // without any are left out. Bucketed by when the row was created, as
+  // registration_date can be set by the client.
+  private async registrationsOverTime(scope: Scope, interval: string) {
+    // interval is one of STATS_INTERVALS, so it can be inlined
+    const period = `date_trunc('${interval}', registration.created_at)`;
+    const rows = await this.scoped(
+      this.registrationsRepository
+        .createQueryBuilder('registration')
+        .innerJoin('registration.event', 'event'),
+      scope,
+    )
+      .select(`to_char(${period}, 'YYYY-MM-DD')`, 'period')
+      .addSelect('COUNT(*)', 'registrations')
+      .groupBy(period)
+      .orderBy(period, 'ASC')
+      .getRawMany<{ period: string; registrations: string }>();
+    return rows.map((row) => ({
+      period: row.period,
+      registrations: Number(row.registrations),
+    }));
+  }
+
+  // Per payment method and currency: what was taken and what went back.
+  // Refund rows keep the method of the payment they refund.
+  private async revenue(scope: Scope) {
+    const rows = await this.scoped(
+      this.paymentsRepository
+        .createQueryBuilder('payment')
+        .innerJoin('payment.registration', 'registration')
+        .innerJoin('registration.event', 'event'),
+      scope,
+    )
+      .select('payment.payment_method', 'payment_method')
+      .addSelect('registration.currency', 'currency')
+      .addSelect(
+        'COUNT(*) FILTER (WHERE payment.refund_of IS NULL)',
+        'payments',
+      )
+      .addSelect(
+        'COALESCE(SUM(payment.amount) FILTER (WHERE payment.refund_of IS NULL), 0)',
+        'gross',
+      )
+      .addSelect(
+        'COUNT(*) FILTER (WHERE payment.refund_of IS NOT NULL)',
+        'refunds',
+      )
+      .addSelect(
+        'COALESCE(SUM(payment.amount) FILTER (WHERE payment.refund_of IS NOT NULL), 0)',
+        'refunded',
+      )
+      // Subtracted in numeric, so the result stays exact to the cent
+      .addSelect(
+        'COALESCE(SUM(payment.amount) FILTER (WHERE payment.refund_of IS NULL), 0) - COALESCE(SUM(payment.amount) FILTER (WHERE payment.refund_of IS NOT NULL), 0)',
+        'net',
+      )
+      // Failed and pending payments took nothing, and pending refunds have
+      // not been paid back yet
+      .andWhere('payment.payment_status IN (:...settled)', {
+        settled: [
+          paymentStatus.Success,
+          paymentStatus.Refunded,
+          paymentStatus.PartiallyRefunded,
+        ],
+      })
+      .groupBy('payment.payment_method')
+      .addGroupBy('registration.currency')
+      .orderBy('registration.currency', 'ASC')
+      .addOrderBy('payment.payment_method', 'ASC')
+      .getRawMany<Record<string, string>>();
+    return rows.map((row) => ({
+      payment_method: row.payment_method,
+      currency: row.currency,
+      payments: Number(row.payments),
+      gross: Number(row.gross),
+      refunds: Number(row.refunds),
+      refunded: Number(row.refunded),
+      net: Number(row.net),
+    }));
+  }
+
+  // Hidden feedback does not count, as on GET /events/:id/ratings
+  private async feedbackSummary(scope: Scope) {
+    const row = await this.scoped(
+      this.feedbackRepository
+        .createQueryBuilder('feedback')
+        .innerJoin('feedback.event', 'event'),
+      scope,
+    )
+      .select('AVG(feedback.rating)', 'average')
+      .addSelect('COUNT(*)', 'count')
+      .andWhere('feedback.status != :hidden', {
+        hidden: feedbackStatus.Hidden,
+      })
+      .getRawOne<{ average: string | null; count: string }>();
+    return {
+      average:
+        row?.average == null
+          ? null
+          : Math.round(Number(row.average) * 100) / 100,
+      count: Number(row?.count ?? 0),
+    };
+  }
+
+  private scoped<T extends ObjectLiteral>(
+    qb: SelectQueryBuilder<T>,
+    scope: Scope,
+  ) {
+    return qb.where(scope.condition, scope.parameters);
+  }
+}
@@ -0,0 +1,80 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsArray,
+  IsDateString,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+
+export class PriceTierDto {
+  @ApiProperty({ example: 'Early bird' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  name: string;
+
+  @ApiProperty({ example: 79 })
+  @IsNumber()
+  @Min(0)
+  price: number;
+
+  @ApiProperty({ example: '2024-11-01T00:00:00.000Z' })
+  @IsDateString()
+  ends_at: string;
+}
+
+export class CreateTicketTypeDto {
+  @ApiProperty({ example: 'General' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(50)
+  name: string;
+
+  @ApiProperty({ example: 99 })
+  @IsNumber()
+  @Min(0)
+  price: number;
+
+  @ApiProperty({ required: false, default: 'USD' })
+  @IsOptional()
+  @Matches(/^[A-Z]{3}$/)
+  currency?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Leave empty for no limit on this ticket type',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  quota?: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsDateString()
+  sales_start?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsDateString()
+  sales_end?: string;
+
+  @ApiProperty({
+    required: false,
+    type: [PriceTierDto],
+    description: 'Replaces every existing tier when updating',
+  })
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PriceTierDto)
+  price_tiers?: PriceTierDto[];
+}
@@ -0,0 +1,34 @@
+import {
+  Column,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  PrimaryGeneratedColumn,
+} from 'typeorm';
+import { TicketType } from './ticket-type.entity';
+
+// Time-limited price of a ticket type, e.g. early bird. Applies until ends_at;
+// when several tiers are running the one ending first wins.
+@Entity('price_tiers')
+export class PriceTier {
+  @PrimaryGeneratedColumn()
+  price_tier_id: number;
+
+  @Column({ type: 'int' })
+  ticket_type_id: number;
+
+  @Column({ type: 'varchar', length: 50 })
+  name: string;
+
+  @Column('decimal', { precision: 10, scale: 2 })
+  price: number;
+
+  @Column({ type: 'timestamptz' })
+  ends_at: Date;
+
+  @ManyToOne(() => TicketType, (ticketType) => ticketType.price_tiers, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'ticket_type_id' })
+  ticket_type: TicketType;
+}
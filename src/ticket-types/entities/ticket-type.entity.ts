@@ -0,0 +1,66 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  Unique,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Event } from 'src/events/entities/event.entity';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { PriceTier } from './price-tier.entity';
+
+// A kind of ticket sold for an event (general, VIP, student, ...)
+@Entity('ticket_types')
+@Unique(['event_id', 'name'])
+export class TicketType {
+  @PrimaryGeneratedColumn()
+  ticket_type_id: number;
+
+  @Column({ type: 'int' })
+  event_id: number;
+
+  @Column({ type: 'varchar', length: 50 })
+  name: string;
+
+  @Column('decimal', { precision: 10, scale: 2 })
+  price: number; // Regular price, charged once every price tier has ended
+
+  @Column({ type: 'varchar', length: 3, default: 'USD' })
+  currency: string; // ISO 4217 code
+
+  @Column({ type: 'int', nullable: true })
+  quota: number | null; // Tickets of this type that can be sold, null means unlimited
+
+  // Sales window, open-ended on either side when null
+  @Column({ type: 'timestamptz', nullable: true })
+  sales_start: Date | null;
+
+  @Column({ type: 'timestamptz', nullable: true })
+  sales_end: Date | null;
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => Event, (event) => event.ticket_types, {
+    onDelete: 'CASCADE',
+  })
+  @JoinColumn({ name: 'event_id' })
+  event: Event;
+
+  @OneToMany(() => PriceTier, (tier) => tier.ticket_type, { cascade: true })
+  price_tiers: PriceTier[];
+
+  @OneToMany(() => Registration, (registration) => registration.ticket_type)
+  registrations: Registration[];
+
+  // Computed on read: price in effect right now and tickets still available
+  current_price?: number;
+  remaining?: number | null;
+}
@@ -0,0 +1,29 @@
+import { TicketType } from './entities/ticket-type.entity';
+
+type Priced = Pick<TicketType, 'price' | 'price_tiers'>;
+type OnSale = Pick<TicketType, 'name' | 'sales_start' | 'sales_end'>;
+
+// Price of a ticket at the given moment: the tier that ends first among those
+// still running (early bird before late bird), otherwise the regular price
+export function priceFor(ticketType: Priced, now = new Date()) {
+  const tier = (ticketType.price_tiers ?? [])
+    .filter((candidate) => new Date(candidate.ends_at) > now)
+    .sort(
+      (a, b) => new Date(a.ends_at).getTime() - new Date(b.ends_at).getTime(),
+    )[0];
+  return {
+    price: Number(tier ? tier.price : ticketType.price),
+    tier: tier ? tier.name : null,
+  };
+}
+
+// Why the ticket type cannot be bought right now, or null if it is on sale
+export function salesClosedReason(ticketType: OnSale, now = new Date()) {
+  if (ticketType.sales_start && now < new Date(ticketType.sales_start)) {
+    return `Sales for ${ticketType.name} open at ${new Date(ticketType.sales_start).toISOString()}`;
+  }
+  if (ticketType.sales_end && now >= new Date(ticketType.sales_end)) {
+    return `Sales for ${ticketType.name} have ended`;
+  }
+  return null;
+}
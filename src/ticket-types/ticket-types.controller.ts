@@ -0,0 +1,66 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Roles } from 'src/auth/decorators/role.decorator';
+import {
+  CheckPolicy,
+  PolicyResource,
+} from 'src/auth/decorators/check-policy.decorator';
+import { ROLE_MATRIX } from 'src/auth/role-matrix';
+import { TicketTypesService } from './ticket-types.service';
+import { CreateTicketTypeDto } from './dto/create-ticket-type.dto';
+import { UpdateTicketTypeDto } from './dto/update-ticket-type.dto';
+
+// Ticket types belong to an event, so :id is the event and ownership is
+// checked against it
+@ApiBearerAuth('access-token')
+@ApiTags('Ticket types')
+@Controller('events/:id/ticket-types')
+export class TicketTypesController {
+  constructor(private readonly ticketTypesService: TicketTypesService) {}
+
+  @Get()
+  @Roles(...ROLE_MATRIX.ticketTypes.findAll)
+  findAll(@Param('id') id: string) {
+    return this.ticketTypesService.findForEvent(+id);
+  }
+
+  @Post()
+  @Roles(...ROLE_MATRIX.ticketTypes.create)
+  @CheckPolicy(PolicyResource.Event) // Only the organizer of the event
+  create(
+    @Param('id') id: string,
+    @Body() createTicketTypeDto: CreateTicketTypeDto,
+  ) {
+    return this.ticketTypesService.create(+id, createTicketTypeDto);
+  }
+
+  @Patch(':ticketTypeId')
+  @Roles(...ROLE_MATRIX.ticketTypes.update)
+  @CheckPolicy(PolicyResource.Event)
+  update(
+    @Param('id') id: string,
+    @Param('ticketTypeId') ticketTypeId: string,
+    @Body() updateTicketTypeDto: UpdateTicketTypeDto,
+  ) {
+    return this.ticketTypesService.update(
+      +id,
+      +ticketTypeId,
+      updateTicketTypeDto,
+    );
+  }
+
+  @Delete(':ticketTypeId')
+  @Roles(...ROLE_MATRIX.ticketTypes.remove)
+  @CheckPolicy(PolicyResource.Event)
+  remove(@Param('id') id: string, @Param('ticketTypeId') ticketTypeId: string) {
+    return this.ticketTypesService.remove(+id, +ticketTypeId);
+  }
+}
@@ -0,0 +1,20 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { Event } from 'src/events/entities/event.entity';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { TicketType } from './entities/ticket-type.entity';
+import { PriceTier } from './entities/price-tier.entity';
+import { TicketTypesService } from './ticket-types.service';
+import { TicketTypesController } from './ticket-types.controller';
+
+@Module({
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([TicketType, PriceTier, Event, Registration]),
+  ],
+  controllers: [TicketTypesController],
+  providers: [TicketTypesService],
+  exports: [TicketTypesService],
+})
+export class TicketTypesModule {}
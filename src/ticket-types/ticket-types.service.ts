@@ -0,0 +1,233 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { DataSource, EntityManager, Not, Repository } from 'typeorm';
+import { Event } from 'src/events/entities/event.entity';
+import {
+  Registration,
+  registrationStatus,
+} from 'src/registrations/entities/registration.entity';
+import { TicketType } from './entities/ticket-type.entity';
+import { PriceTier } from './entities/price-tier.entity';
+import { CreateTicketTypeDto } from './dto/create-ticket-type.dto';
+import { UpdateTicketTypeDto } from './dto/update-ticket-type.dto';
+import { priceFor, salesClosedReason } from './pricing';
+
+@Injectable()
+export class TicketTypesService {
+  constructor(
+    @InjectRepository(TicketType)
+    private ticketTypesRepository: Repository<TicketType>,
+    @InjectRepository(Event)
+    private eventsRepository: Repository<Event>,
+    private dataSource: DataSource,
+  ) {}
+
+  // Ticket types of an event with the price in effect now and what is left
+  async findForEvent(eventId: number) {
+    await this.ensureEventExists(eventId);
+    const ticketTypes = await this.ticketTypesRepository.find({
+      where: { event_id: eventId },
+      relations: ['price_tiers'],
+      order: { ticket_type_id: 'ASC', price_tiers: { ends_at: 'ASC' } },
+    });
+    const manager = this.ticketTypesRepository.manager;
+    return Promise.all(
+      ticketTypes.map(async (ticketType) => {
+        ticketType.current_price = priceFor(ticketType).price;
+        ticketType.remaining =
+          ticketType.quota === null
+            ? null
+            : Math.max(
+                ticketType.quota - (await this.countSold(manager, ticketType)),
+                0,
+              );
+        return ticketType;
+      }),
+    );
+  }
+
+  async create(eventId: number, createTicketTypeDto: CreateTicketTypeDto) {
+    await this.ensureEventExists(eventId);
+    this.validate(createTicketTypeDto);
+    await this.ensureNameFree(eventId, createTicketTypeDto.name);
+    return this.ticketTypesRepository.save(
+      this.ticketTypesRepository.create({
+        ...this.pick(createTicketTypeDto),
+        event_id: eventId,
+        price_tiers: (createTicketTypeDto.price_tiers ?? []).map((tier) => ({
+          name: tier.name,
+          price: tier.price,
+          ends_at: new Date(tier.ends_at),
+        })),
+      }),
+    );
+  }
+
+  async update(
+    eventId: number,
+    ticketTypeId: number,
+    updateTicketTypeDto: UpdateTicketTypeDto,
+  ) {
+    const ticketType = await this.findOne(eventId, ticketTypeId);
+    this.validate(updateTicketTypeDto, ticketType);
+    if (
+      updateTicketTypeDto.name !== undefined &&
+      updateTicketTypeDto.name !== ticketType.name
+    ) {
+      await this.ensureNameFree(eventId, updateTicketTypeDto.name);
+    }
+
+    await this.dataSource.transaction(async (manager) => {
+      await manager.update(
+        TicketType,
+        { ticket_type_id: ticketTypeId },
+        this.pick(updateTicketTypeDto),
+      );
+      if (updateTicketTypeDto.price_tiers) {
+        await manager.delete(PriceTier, { ticket_type_id: ticketTypeId });
+        await manager.insert(
+          PriceTier,
+          updateTicketTypeDto.price_tiers.map((tier) => ({
+            ticket_type_id: ticketTypeId,
+            name: tier.name,
+            price: tier.price,
+            ends_at: new Date(tier.ends_at),
+          })),
+        );
+      }
+    });
+    return this.findOne(eventId, ticketTypeId);
+  }
+
+  async remove(eventId: number, ticketTypeId: number) {
+    const ticketType = await this.findOne(eventId, ticketTypeId);
+    const sold = await this.ticketTypesRepository.manager.existsBy(
+      Registration,
+      { ticket_type_id: ticketTypeId },
+    );
+    if (sold) {
+      throw new ConflictException(
+        `Ticket type ${ticketType.name} has registrations and cannot be deleted`,
+      );
+    }
+    await this.ticketTypesRepository.delete(ticketTypeId);
+  }
+
+  // Prices a new registration for the event. Events without ticket types are
+  // free; otherwise the ticket type must be on sale and not sold out.
+  // Must be called while holding the event lock, so the quota holds.
+  async quote(
+    manager: EntityManager,
+    eventId: number,
+    ticketTypeId: number | undefined,
+  ) {
+    if (ticketTypeId === undefined) {
+      const hasTicketTypes = await manager.existsBy(TicketType, {
+        event_id: eventId,
+      });
+      if (hasTicketTypes) {
+        throw new BadRequestException(
+          `ticket_type_id is required for event ${eventId}`,
+        );
+      }
+      return { ticketType: null, price: 0, currency: 'USD' };
+    }
+
+    const ticketType = await manager.findOne(TicketType, {
+      where: { ticket_type_id: ticketTypeId, event_id: eventId },
+      relations: ['price_tiers'],
+    });
+    if (!ticketType) {
+      throw new NotFoundException(
+        `Ticket type ${ticketTypeId} not found for event ${eventId}`,
+      );
+    }
+    const closed = salesClosedReason(ticketType);
+    if (closed) {
+      throw new BadRequestException(closed);
+    }
+    if (
+      ticketType.quota !== null &&
+      (await this.countSold(manager, ticketType)) >= ticketType.quota
+    ) {
+      throw new ConflictException(`Ticket type ${ticketType.name} is sold out`);
+    }
+    return {
+      ticketType,
+      price: priceFor(ticketType).price,
+      currency: ticketType.currency,
+    };
+  }
+
+  private async findOne(eventId: number, ticketTypeId: number) {
+    const ticketType = await this.ticketTypesRepository.findOne({
+      where: { ticket_type_id: ticketTypeId, event_id: eventId },
+      relations: ['price_tiers'],
+      order: { price_tiers: { ends_at: 'ASC' } },
+    });
+    if (!ticketType) {
+      throw new NotFoundException(
+        `Ticket type ${ticketTypeId} not found for event ${eventId}`,
+      );
+    }
+    return ticketType;
+  }
+
+  // Cancelled registrations give their ticket back
+  private countSold(manager: EntityManager, ticketType: TicketType) {
+    return manager.count(Registration, {
+      where: {
+        ticket_type_id: ticketType.ticket_type_id,
+        status: Not(registrationStatus.Cancelled),
+      },
+    });
+  }
+
+  // The sales window must not be empty; on update, a bound left out is
+  // checked against the stored one
+  private validate(dto: UpdateTicketTypeDto, current?: TicketType) {
+    const start = dto.sales_start ?? current?.sales_start;
+    const end = dto.sales_end ?? current?.sales_end;
+    if (start && end && new Date(start) >= new Date(end)) {
+      throw new BadRequestException('sales_start must be before sales_end');
+    }
+  }
+
+  private pick(dto: UpdateTicketTypeDto) {
+    const { name, price, currency, quota, sales_start, sales_end } = dto;
+    return Object.fromEntries(
+      Object.entries({
+        name,
+        price,
+        currency,
+        quota,
+        sales_start: sales_start && new Date(sales_start),
+        sales_end: sales_end && new Date(sales_end),
+      }).filter(([, value]) => value !== undefined),
+    ) as Partial<TicketType>;
+  }
+
+  private async ensureNameFree(eventId: number, name: string) {
+    const taken = await this.ticketTypesRepository.existsBy({
+      event_id: eventId,
+      name,
+    });
+    if (taken) {
+      throw new ConflictException(
+        `Event ${eventId} already has a ticket type named ${name}`,
+      );
+    }
+  }
+
+  private async ensureEventExists(eventId: number) {
+    const event = await this.eventsRepository.existsBy({ event_id: eventId });
+    if (!event) {
+      throw new NotFoundException(`Event with ID ${eventId} not found`);
+    }
+  }
+}
@@ -0,0 +1,9 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString } from 'class-validator';
+
+export class CheckInDto {
+  @ApiProperty({ description: 'Ticket token read from the QR code' })
+  @IsNotEmpty()
+  @IsString()
+  token: string;
+}
@@ -0,0 +1,15 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { Event } from 'src/events/entities/event.entity';
+import { TicketsService } from './tickets.service';
+
+// No controller of its own: tickets are served under /registrations/:id and
+// check-in under /events/:id
+@Module({
+  imports: [DatabaseModule, TypeOrmModule.forFeature([Registration, Event])],
+  providers: [TicketsService],
+  exports: [TicketsService],
+})
+export class TicketsModule {}
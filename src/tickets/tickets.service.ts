@@ -0,0 +1,175 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { InjectRepository } from '@nestjs/typeorm';
+import { IsNull, Repository } from 'typeorm';
+import * as QRCode from 'qrcode';
+import {
+  Registration,
+  registrationStatus,
+} from 'src/registrations/entities/registration.entity';
+import { Event } from 'src/events/entities/event.entity';
+import { paymentStatus } from 'src/payments/payment-status.enum';
+
+// What a ticket token carries; typ keeps other tokens signed with the same
+// secret from being accepted as tickets
+interface TicketPayload {
+  sub: number; // registration_id
+  event_id: number;
+  typ: 'ticket';
+}
+
+export enum qrFormat {
+  Png = 'png',
+  Svg = 'svg',
+}
+
+@Injectable()
+export class TicketsService {
+  constructor(
+    @InjectRepository(Registration)
+    private registrationsRepository: Repository<Registration>,
+    @InjectRepository(Event)
+    private eventsRepository: Repository<Event>,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+  ) {}
+
+  // Tickets are signed on demand rather than stored: the signature proves the
+  // server issued it and the registration is re-checked at the door
+  async issue(registrationId: number) {
+    const registration = await this.registrationsRepository.findOneBy({
+      registration_id: registrationId,
+    });
+    if (!registration) {
+      throw new NotFoundException(
+        `Registration with ID ${registrationId} not found`,
+      );
+    }
+    this.ensureAdmissible(registration);
+    const payload: TicketPayload = {
+      sub: registration.registration_id,
+      event_id: registration.event_id,
+      typ: 'ticket',
+    };
+    const token = await this.jwtService.signAsync(payload, {
+      secret: this.configService.getOrThrow<string>('TICKET_SECRET'),
+    });
+    return {
+      registration_id: registration.registration_id,
+      event_id: registration.event_id,
+      token,
+    };
+  }
+
+  // The QR code encodes the ticket token that staff scan at check-in
+  async renderQrCode(registrationId: number, format: qrFormat) {
+    const { token } = await this.issue(registrationId);
+    return format === qrFormat.Svg
+      ? Buffer.from(await QRCode.toString(token, { type: 'svg' }))
+      : QRCode.toBuffer(token, { type: 'png' });
+  }
+
+  async checkIn(eventId: number, token: string, staffId: number) {
+    let payload: TicketPayload;
+    try {
+      payload = await this.jwtService.verifyAsync<TicketPayload>(token, {
+        secret: this.configService.getOrThrow<string>('TICKET_SECRET'),
+      });
+    } catch {
+      throw new BadRequestException('Invalid ticket');
+    }
+    if (payload.typ !== 'ticket') {
+      throw new BadRequestException('Invalid ticket');
+    }
+    if (payload.event_id !== eventId) {
+      throw new BadRequestException(
+        `Ticket is for event ${payload.event_id}, not event ${eventId}`,
+      );
+    }
+
+    const registration = await this.registrationsRepository.findOneBy({
+      registration_id: payload.sub,
+      event_id: eventId,
+    });
+    if (!registration) {
+      throw new BadRequestException('Ticket is no longer valid');
+    }
+    this.ensureAdmissible(registration);
+
+    // Conditional update so two scanners cannot both admit the same ticket
+    const checkedInAt = new Date();
+    const result = await this.registrationsRepository.update(
+      {
+        registration_id: registration.registration_id,
+        checked_in_at: IsNull(),
+      },
+      { checked_in_at: checkedInAt, checked_in_by: staffId },
+    );
+    if (!result.affected) {
+      const { checked_in_at } =
+        await this.registrationsRepository.findOneByOrFail({
+          registration_id: registration.registration_id,
+        });
+      throw new ConflictException(
+        `Ticket already checked in at ${checked_in_at?.toISOString()}`,
+      );
+    }
+    return {
+      registration_id: registration.registration_id,
+      user_id: registration.user_id,
+      ticket_type_id: registration.ticket_type_id,
+      checked_in_at: checkedInAt,
+    };
+  }
+
+  // Confirmed attendees of an event and who has shown up so far
+  async attendance(eventId: number) {
+    const event = await this.eventsRepository.existsBy({ event_id: eventId });
+    if (!event) {
+      throw new NotFoundException(`Event with ID ${eventId} not found`);
+    }
+    const registrations = await this.registrationsRepository.find({
+      where: { event_id: eventId, status: registrationStatus.Confirmed },
+      relations: ['user'],
+      order: { registration_id: 'ASC' },
+    });
+    const checkedIn = registrations.filter((r) => r.checked_in_at !== null);
+    return {
+      event_id: eventId,
+      confirmed: registrations.length,
+      checked_in: checkedIn.length,
+      not_checked_in: registrations.length - checkedIn.length,
+      attendance_rate: registrations.length
+        ? Math.round((checkedIn.length / registrations.length) * 10000) / 100
+        : 0,
+      attendees: registrations.map((registration) => ({
+        registration_id: registration.registration_id,
+        user_id: registration.user_id,
+        name: registration.user.name,
+        email: registration.user.email,
+        ticket_type_id: registration.ticket_type_id,
+        checked_in_at: registration.checked_in_at,
+      })),
+    };
+  }
+
+  // Only confirmed, fully paid registrations get in
+  private ensureAdmissible(registration: Registration) {
+    if (registration.status !== registrationStatus.Confirmed) {
+      throw new ConflictException(
+        `Registration ${registration.registration_id} is ${registration.status}`,
+      );
+    }
+    if (registration.payment_status !== paymentStatus.Success) {
+      throw new BadRequestException(
+        `Registration ${registration.registration_id} is not paid`,
+      );
+    }
+  }
+}
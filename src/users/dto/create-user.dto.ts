@@ -1,6 +1,12 @@
-import { IsEmail, IsNotEmpty, IsOptional, IsEnum, MinLength, IsString, IsDate } from 'class-validator';
+import {
+  IsEmail,
+  IsNotEmpty,
+  IsOptional,
+  IsEnum,
+  MinLength,
+} from 'class-validator';
 import { ApiProperty } from '@nestjs/swagger';
-import { UserRole } from '../entities/user.entity'; 
+import { UserRole } from '../entities/user.entity';
 
 export class CreateUserDto {
   @ApiProperty()
@@ -23,19 +29,4 @@ export class CreateUserDto {
   @IsOptional()
   @IsEnum(UserRole)
   role?: UserRole;
-
-  @ApiProperty()
-  @IsOptional()
-  @IsString()
-  hashedRefreshToken?: string;
-
-  @ApiProperty()
-  @IsOptional()
-  @IsDate()
-  created_at: Date;
-
-  @ApiProperty()
-  @IsOptional()
-  @IsDate()
-  updated_at: Date;
 }
@@ -1,20 +1,14 @@
-import { PartialType } from '@nestjs/swagger';
+import { PartialType, PickType } from '@nestjs/swagger';
+import { IsEmpty } from 'class-validator';
 import { CreateUserDto } from './create-user.dto';
-import { ApiPropertyOptional } from '@nestjs/swagger';
 
-export class UpdateUserDto extends PartialType(CreateUserDto) {
-  @ApiPropertyOptional()
-  name?: string;
-
-  @ApiPropertyOptional()
-  email?: string;
-
-  @ApiPropertyOptional()
-  password?: string;
-
-  @ApiPropertyOptional()
-  Role?: string;
-
-  @ApiPropertyOptional()
-  hashedRefreshToken?: string;
+// The profile fields; the role is checked by the controller. Passwords are
+// only changed through the reset flow, which hashes them and ends sessions.
+export class UpdateUserDto extends PartialType(
+  PickType(CreateUserDto, ['name', 'email', 'phone', 'role'] as const),
+) {
+  @IsEmpty({
+    message: 'password cannot be changed here; use /auth/forgot-password',
+  })
+  password?: never;
 }
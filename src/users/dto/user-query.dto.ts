@@ -0,0 +1,23 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsEnum, IsIn, IsOptional } from 'class-validator';
+import { PaginationQueryDto } from 'src/common/pagination/pagination-query.dto';
+import { UserRole } from '../entities/user.entity';
+
+export const USER_SORT_FIELDS = [
+  'user_id',
+  'name',
+  'email',
+  'created_at',
+] as const;
+
+export class UserQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: USER_SORT_FIELDS, default: 'user_id' })
+  @IsOptional()
+  @IsIn(USER_SORT_FIELDS)
+  sort?: (typeof USER_SORT_FIELDS)[number];
+
+  @ApiPropertyOptional({ enum: UserRole })
+  @IsOptional()
+  @IsEnum(UserRole)
+  role?: UserRole;
+}
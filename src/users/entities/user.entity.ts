@@ -6,6 +6,10 @@ import {
   UpdateDateColumn,
   OneToMany,
 } from 'typeorm';
+import { Event } from 'src/events/entities/event.entity';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { Feedback } from 'src/feedback/entities/feedback.entity';
+import { Session } from 'src/auth/entities/session.entity';
 
 // ENUM('Admin', 'Manager', 'Warehouse', 'Sales', 'Supplier'
 export enum UserRole {
@@ -32,8 +36,8 @@ export class User {
   @Column({ type: 'varchar', nullable: true })
   phone: string;
 
-  @Column({ type: 'varchar', length: 255, nullable: true })
-  hashedRefreshToken?: string | null;
+  @Column({ type: 'timestamp', nullable: true })
+  email_verified_at: Date | null; // Set once the user opens the verification link
 
   @Column({
     type: 'enum',
@@ -47,4 +51,17 @@ export class User {
 
   @UpdateDateColumn()
   updated_at: Date;
+
+  // Events organized by this user
+  @OneToMany(() => Event, (event) => event.organizer)
+  events: Event[];
+
+  @OneToMany(() => Registration, (registration) => registration.user)
+  registrations: Registration[];
+
+  @OneToMany(() => Feedback, (feedback) => feedback.user)
+  feedbacks: Feedback[];
+
+  @OneToMany(() => Session, (session) => session.user)
+  sessions: Session[];
 }
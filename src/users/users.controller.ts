@@ -1,4 +1,17 @@
-import { Controller, Get, Post, Body, Patch, Param, Delete } from '@nestjs/common';
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  Patch,
+  Param,
+  Delete,
+  Req,
+  ForbiddenException,
+  Query,
+  StreamableFile,
+  HttpCode,
+} from '@nestjs/common';
 import { UsersService } from './users.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
@@ -6,12 +19,26 @@ import { Roles } from 'src/auth/decorators/role.decorator';
 import { UserRole } from './entities/user.entity';
 import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
 import { Public } from 'src/auth/decorators/public.decorator';
+import {
+  CheckPolicy,
+  PolicyResource,
+} from 'src/auth/decorators/check-policy.decorator';
+import type { RequestWithSession } from 'src/auth/interfaces/request-with-user.interface';
+import { ROLE_MATRIX } from 'src/auth/role-matrix';
+import { ListQueryPipe } from 'src/common/pagination/list-query.pipe';
+import { UserQueryDto } from './dto/user-query.dto';
+import { CalendarService } from 'src/calendar/calendar.service';
+import { RoleCacheService } from 'src/auth/role-cache.service';
 
 @ApiBearerAuth('access-token') // This indicates that the endpoints require authentication
 @ApiTags('Users') // This groups the endpoints under the 'Users' tag in Swagger documentation
 @Controller('users')
 export class UsersController {
-  constructor(private readonly usersService: UsersService) {}
+  constructor(
+    private readonly usersService: UsersService,
+    private readonly calendarService: CalendarService,
+    private readonly roleCacheService: RoleCacheService,
+  ) {}
 
   @Post()
   @Public() // This endpoint is public and does not require authentication
@@ -20,32 +47,75 @@ export class UsersController {
   }
 
   @Get()
-  @Roles(UserRole.Admin) // Only users with the 'Admin' role can access this endpoint
-  findAll() {
-    return this.usersService.findAll();
+  @Roles(...ROLE_MATRIX.users.findAll) // Only users with the 'Admin' role can access this endpoint
+  findAll(@Query(ListQueryPipe) query: UserQueryDto) {
+    return this.usersService.findAll(query);
   }
 
   @Get(':id')
-  @Roles(UserRole.Admin, UserRole.User, UserRole.Organizer) // Only users with the 'Admin' or 'User' role can access this endpoint
+  @Roles(...ROLE_MATRIX.users.findOne) // Only users with the 'Admin', 'Organizer' or 'User' role can access this endpoint
+  @CheckPolicy(PolicyResource.User) // Users can only read their own account
   findOne(@Param('id') id: string) {
     return this.usersService.findOne(+id);
   }
 
-  // find by email 
+  // find by email
   @Get('email/:email')
-  @Roles(UserRole.Admin, UserRole.Organizer) // Only users with the 'Admin' or 'Organizer' role can access this endpoint
+  @Roles(...ROLE_MATRIX.users.findByEmail) // Only users with the 'Admin' or 'Organizer' role can access this endpoint
   findByEmail(@Param('email') email: string) {
     return this.usersService.findByEmail(email);
   }
 
   @Patch(':id')
-  @Roles(UserRole.Admin, UserRole.Organizer, UserRole.User) // Only users with the 'Admin', 'Organizer', or 'User' role can access this endpoint
-  update(@Param('id') id: string, @Body() updateUserDto: UpdateUserDto) {
+  @Roles(...ROLE_MATRIX.users.update) // Only users with the 'Admin', 'Organizer', or 'User' role can access this endpoint
+  @CheckPolicy(PolicyResource.User) // Users can only update their own account
+  async update(
+    @Param('id') id: string,
+    @Body() updateUserDto: UpdateUserDto,
+    @Req() req: RequestWithSession,
+  ) {
+    // Changing roles is reserved to Admins, otherwise anyone could promote themselves.
+    // The role in the token may be stale, so check the current one
+    if (
+      updateUserDto.role !== undefined &&
+      (await this.roleCacheService.getRole(req.user.user_id)) !== UserRole.Admin
+    ) {
+      throw new ForbiddenException('Only admins can change roles');
+    }
     return this.usersService.update(+id, updateUserDto);
   }
 
+  // Returns the secret feed URL; a new token revokes the previous one
+  @Post(':id/calendar-token')
+  @Roles(...ROLE_MATRIX.users.calendarFeed)
+  @CheckPolicy(PolicyResource.User)
+  issueCalendarToken(@Param('id') id: string) {
+    return this.calendarService.issueFeedToken(+id);
+  }
+
+  @Delete(':id/calendar-token')
+  @HttpCode(204)
+  @Roles(...ROLE_MATRIX.users.calendarFeed)
+  @CheckPolicy(PolicyResource.User)
+  revokeCalendarToken(@Param('id') id: string) {
+    return this.calendarService.revokeFeedToken(+id);
+  }
+
+  // Calendar apps cannot sign in, so the token in the URL stands in for it
+  @Get(':id/calendar.ics')
+  @Public()
+  async getCalendarFeed(
+    @Param('id') id: string,
+    @Query('token') token: string,
+  ) {
+    const calendar = await this.calendarService.feed(+id, token);
+    return new StreamableFile(Buffer.from(calendar), {
+      type: 'text/calendar; charset=utf-8',
+    });
+  }
+
   @Delete(':id')
-  @Roles(UserRole.Admin) 
+  @Roles(...ROLE_MATRIX.users.remove)
   remove(@Param('id') id: string) {
     return this.usersService.remove(id);
   }
@@ -3,10 +3,17 @@ import { UsersService } from './users.service';
 import { UsersController } from './users.controller';
 import { DatabaseModule } from 'src/database/database.module';
 import { TypeOrmModule } from '@nestjs/typeorm';
+import { AuthModule } from 'src/auth/auth.module';
 import { User } from './entities/user.entity';
+import { CalendarModule } from 'src/calendar/calendar.module';
 
 @Module({
-  imports: [DatabaseModule, TypeOrmModule.forFeature([User])],
+  imports: [
+    DatabaseModule,
+    TypeOrmModule.forFeature([User]),
+    AuthModule,
+    CalendarModule,
+  ],
   controllers: [UsersController],
   providers: [UsersService],
   exports: [UsersService],
@@ -1,32 +1,45 @@
-import { Injectable, NotFoundException, Response } from '@nestjs/common';
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  Response,
+} from '@nestjs/common';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { InjectRepository } from '@nestjs/typeorm';
 import { User } from './entities/user.entity';
 import { Repository } from 'typeorm';
+import { Event } from 'src/events/entities/event.entity';
+import { Registration } from 'src/registrations/entities/registration.entity';
+import { RoleCacheService } from 'src/auth/role-cache.service';
+import { paginate } from 'src/common/pagination/paginate';
+import { UserQueryDto } from './dto/user-query.dto';
 
 @Injectable()
 export class UsersService {
   constructor(
     @InjectRepository(User)
     private usersRepository: Repository<User>,
+    private roleCacheService: RoleCacheService,
   ) {}
 
-
   create(createUserDto: CreateUserDto): Promise<User> {
-    const user = this.usersRepository.create(createUserDto)
+    const user = this.usersRepository.create(createUserDto);
     return this.usersRepository.save(user);
   }
 
-  findAll() {
-    return this.usersRepository.find({
-      select: {
-        user_id: true,
-        name: true,
-        email: true,
-        role: true,
-            }
-    })
+  findAll(query: UserQueryDto) {
+    const qb = this.usersRepository.createQueryBuilder('user').select([
+      'user.user_id',
+      'user.name',
+      'user.email',
+      'user.role',
+      'user.created_at', // Needed for sorting and cursors
+    ]);
+    if (query.role) {
+      qb.andWhere('user.role = :role', { role: query.role });
+    }
+    return paginate(qb, query, { path: '/users', idColumn: 'user_id' });
   }
 
   async findOne(user_id: number): Promise<User> {
@@ -44,26 +57,40 @@ export class UsersService {
     }
   }
 
-    async findByEmail(email: string): Promise<User | null> {
+  async findByEmail(email: string): Promise<User | null> {
     return this.usersRepository.findOne({ where: { email } });
   }
 
-async update(user_id: number, updateUserDto: UpdateUserDto): Promise<User> {
+  async update(user_id: number, updateUserDto: UpdateUserDto): Promise<User> {
     try {
       // check if user exists
-      const existingUser = await this.usersRepository.findOne({ 
-        where: { user_id } 
+      const existingUser = await this.usersRepository.findOne({
+        where: { user_id },
       });
       if (!existingUser) {
         throw new NotFoundException(`User with ID ${user_id} not found`);
       }
-      // Update the user
-      await this.usersRepository.update(user_id, updateUserDto);
-      
+      // Update the user; a new email address has to be verified again
+      const { name, email, phone, role } = updateUserDto;
+      await this.usersRepository.update(user_id, {
+        name,
+        email,
+        phone,
+        role,
+        ...(email !== undefined &&
+          email !== existingUser.email && { email_verified_at: null }),
+      });
+      // Drop the cached role so RolesGuard sees a role change on the next request
+      await this.roleCacheService.invalidate(user_id);
+
       // Return the updated user
-      const updatedUser = await this.usersRepository.findOne({ where: { user_id } });
+      const updatedUser = await this.usersRepository.findOne({
+        where: { user_id },
+      });
       if (!updatedUser) {
-        throw new NotFoundException(`User with ID ${user_id} not found after update`);
+        throw new NotFoundException(
+          `User with ID ${user_id} not found after update`,
+        );
       }
       return updatedUser;
     } catch (error) {
@@ -72,13 +99,26 @@ async update(user_id: number, updateUserDto: UpdateUserDto): Promise<User> {
       }
       throw new Error('Error while updating user');
     }
-}
+  }
 
-async remove(id: string): Promise<void> {
+  // Registrations and events are kept for their payment history, so a user
+  // with any cannot be deleted
+  async remove(id: string): Promise<void> {
+    const manager = this.usersRepository.manager;
+    if (await manager.existsBy(Registration, { user_id: +id })) {
+      throw new ConflictException(
+        `User ${id} has registrations; cancel them instead`,
+      );
+    }
+    if (await manager.existsBy(Event, { created_by: +id })) {
+      throw new ConflictException(
+        `User ${id} organizes events; cancel or hand them over first`,
+      );
+    }
     const result = await this.usersRepository.delete(id);
     if (result.affected === 0) {
       throw new NotFoundException('User not found');
     }
+    await this.roleCacheService.invalidate(Number(id));
   }
-
 }
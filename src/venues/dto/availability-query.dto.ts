@@ -0,0 +1,22 @@
+import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import { IsDateString, IsInt, IsOptional } from 'class-validator';
+
+export class AvailabilityQueryDto {
+  @ApiProperty({ example: '2025-03-01T00:00:00Z' })
+  @IsDateString()
+  from: string;
+
+  @ApiProperty({
+    example: '2025-03-08T00:00:00Z',
+    description: 'At most 92 days after from',
+  })
+  @IsDateString()
+  to: string;
+
+  @ApiPropertyOptional({ description: 'Only this room of the venue' })
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  room_id?: number;
+}
@@ -0,0 +1,32 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateRoomDto {
+  @ApiProperty({ example: 'Hall A' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Events in the room cannot take more registrations',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  capacity?: number;
+
+  @ApiProperty({ required: false, example: 'Hearing loop' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  accessibility?: string;
+}
@@ -0,0 +1,47 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsInt,
+  IsLatitude,
+  IsLongitude,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateVenueDto {
+  @ApiProperty({ example: 'Convention Center' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(100)
+  name: string;
+
+  @ApiProperty({ example: 'Messedamm 22, 14055 Berlin' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(250)
+  address: string;
+
+  @ApiProperty({ required: false, example: 52.5005 })
+  @IsOptional()
+  @IsLatitude()
+  latitude?: number;
+
+  @ApiProperty({ required: false, example: 13.2708 })
+  @IsOptional()
+  @IsLongitude()
+  longitude?: number;
+
+  @ApiProperty({
+    required: false,
+    example: 'Step-free entrance, accessible toilets on every floor',
+  })
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  accessibility?: string;
+
+  @ApiProperty()
+  @IsInt()
+  created_by: number; // Organizer who manages the venue
+}
@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/swagger';
+import { CreateVenueDto } from './create-venue.dto';
+
+export class UpdateVenueDto extends PartialType(
+  OmitType(CreateVenueDto, ['created_by'] as const),
+) {}
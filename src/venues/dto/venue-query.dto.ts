@@ -0,0 +1,19 @@
+import { ApiPropertyOptional } from '@nestjs/swagger';
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { PaginationQueryDto } from 'src/common/pagination/pagination-query.dto';
+
+export const VENUE_SORT_FIELDS = ['venue_id', 'name', 'created_at'] as const;
+
+export class VenueQueryDto extends PaginationQueryDto {
+  @ApiPropertyOptional({ enum: VENUE_SORT_FIELDS, default: 'venue_id' })
+  @IsOptional()
+  @IsIn(VENUE_SORT_FIELDS)
+  sort?: (typeof VENUE_SORT_FIELDS)[number];
+
+  @ApiPropertyOptional({
+    description: 'Case-insensitive match on part of the name or address',
+  })
+  @IsOptional()
+  @IsString()
+  q?: string;
+}
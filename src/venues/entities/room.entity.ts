@@ -0,0 +1,46 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  Unique,
+  UpdateDateColumn,
+} from 'typeorm';
+import { Event } from 'src/events/entities/event.entity';
+import { Venue } from './venue.entity';
+
+// A bookable space of a venue; it holds one event at a time
+@Entity('rooms')
+@Unique(['venue_id', 'name'])
+export class Room {
+  @PrimaryGeneratedColumn()
+  room_id: number;
+
+  @Column({ type: 'int' })
+  venue_id: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'int', nullable: true })
+  capacity: number | null; // Most people it holds, null when not limited
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  accessibility: string | null; // Anything that differs from the venue
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => Venue, (venue) => venue.rooms, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'venue_id' })
+  venue: Venue;
+
+  @OneToMany(() => Event, (event) => event.room)
+  events: Event[];
+}
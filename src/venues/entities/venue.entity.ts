@@ -0,0 +1,51 @@
+import {
+  Column,
+  CreateDateColumn,
+  Entity,
+  JoinColumn,
+  ManyToOne,
+  OneToMany,
+  PrimaryGeneratedColumn,
+  UpdateDateColumn,
+} from 'typeorm';
+import { User } from 'src/users/entities/user.entity';
+import { Room } from './room.entity';
+
+// A place events are held at. Events book one of its rooms, and take their
+// location and coordinates from it unless given their own.
+@Entity('venues')
+export class Venue {
+  @PrimaryGeneratedColumn()
+  venue_id: number;
+
+  @Column({ type: 'varchar', length: 100 })
+  name: string;
+
+  @Column({ type: 'varchar', length: 250 })
+  address: string;
+
+  @Column({ type: 'double precision', nullable: true })
+  latitude: number | null;
+
+  @Column({ type: 'double precision', nullable: true })
+  longitude: number | null;
+
+  @Column({ type: 'varchar', length: 500, nullable: true })
+  accessibility: string | null; // e.g. step-free entrance, hearing loop
+
+  @Column({ type: 'int' })
+  created_by: number; // Manages the venue and its rooms
+
+  @CreateDateColumn()
+  created_at: Date;
+
+  @UpdateDateColumn()
+  updated_at: Date;
+
+  @ManyToOne(() => User, { onDelete: 'CASCADE' })
+  @JoinColumn({ name: 'created_by' })
+  manager: User;
+
+  @OneToMany(() => Room, (room) => room.venue)
+  rooms: Room[];
+}
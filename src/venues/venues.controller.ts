@@ -0,0 +1,105 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  Req,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiTags } from '@nestjs/swagger';
+import { Roles } from 'src/auth/decorators/role.decorator';
+import {
+  CheckPolicy,
+  PolicyResource,
+} from 'src/auth/decorators/check-policy.decorator';
+import { ROLE_MATRIX } from 'src/auth/role-matrix';
+import type { RequestWithSession } from 'src/auth/interfaces/request-with-user.interface';
+import { ListQueryPipe } from 'src/common/pagination/list-query.pipe';
+import { VenuesService } from './venues.service';
+import { CreateVenueDto } from './dto/create-venue.dto';
+import { UpdateVenueDto } from './dto/update-venue.dto';
+import { CreateRoomDto } from './dto/create-room.dto';
+import { UpdateRoomDto } from './dto/update-room.dto';
+import { VenueQueryDto } from './dto/venue-query.dto';
+import { AvailabilityQueryDto } from './dto/availability-query.dto';
+
+// Events book a room by passing room_id to POST /events; the venue's manager
+// looks after its rooms
+@ApiBearerAuth('access-token')
+@ApiTags('Venues')
+@Controller('venues')
+export class VenuesController {
+  constructor(private readonly venuesService: VenuesService) {}
+
+  @Post()
+  @Roles(...ROLE_MATRIX.venues.create)
+  @CheckPolicy(PolicyResource.Venue, 'create') // created_by must be the caller
+  create(@Body() createVenueDto: CreateVenueDto) {
+    return this.venuesService.create(createVenueDto);
+  }
+
+  @Get()
+  @Roles(...ROLE_MATRIX.venues.findAll)
+  findAll(@Query(ListQueryPipe) query: VenueQueryDto) {
+    return this.venuesService.findAll(query);
+  }
+
+  @Get(':id')
+  @Roles(...ROLE_MATRIX.venues.findOne)
+  findOne(@Param('id') id: string) {
+    return this.venuesService.findOne(+id);
+  }
+
+  // Any organizer planning an event may check when rooms are free
+  @Get(':id/availability')
+  @Roles(...ROLE_MATRIX.venues.availability)
+  availability(
+    @Param('id') id: string,
+    @Query(ListQueryPipe) query: AvailabilityQueryDto,
+    @Req() req: RequestWithSession,
+  ) {
+    return this.venuesService.availability(+id, query, req.user);
+  }
+
+  @Patch(':id')
+  @Roles(...ROLE_MATRIX.venues.update)
+  @CheckPolicy(PolicyResource.Venue)
+  update(@Param('id') id: string, @Body() updateVenueDto: UpdateVenueDto) {
+    return this.venuesService.update(+id, updateVenueDto);
+  }
+
+  @Delete(':id')
+  @Roles(...ROLE_MATRIX.venues.remove)
+  @CheckPolicy(PolicyResource.Venue)
+  remove(@Param('id') id: string) {
+    return this.venuesService.remove(+id);
+  }
+
+  @Post(':id/rooms')
+  @Roles(...ROLE_MATRIX.venues.update)
+  @CheckPolicy(PolicyResource.Venue)
+  addRoom(@Param('id') id: string, @Body() createRoomDto: CreateRoomDto) {
+    return this.venuesService.addRoom(+id, createRoomDto);
+  }
+
+  @Patch(':id/rooms/:roomId')
+  @Roles(...ROLE_MATRIX.venues.update)
+  @CheckPolicy(PolicyResource.Venue)
+  updateRoom(
+    @Param('id') id: string,
+    @Param('roomId') roomId: string,
+    @Body() updateRoomDto: UpdateRoomDto,
+  ) {
+    return this.venuesService.updateRoom(+id, +roomId, updateRoomDto);
+  }
+
+  @Delete(':id/rooms/:roomId')
+  @Roles(...ROLE_MATRIX.venues.update)
+  @CheckPolicy(PolicyResource.Venue)
+  removeRoom(@Param('id') id: string, @Param('roomId') roomId: string) {
+    return this.venuesService.removeRoom(+id, +roomId);
+  }
+}
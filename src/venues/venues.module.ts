@@ -0,0 +1,16 @@
+import { Module } from '@nestjs/common';
+import { TypeOrmModule } from '@nestjs/typeorm';
+import { DatabaseModule } from 'src/database/database.module';
+import { Event } from 'src/events/entities/event.entity';
+import { Venue } from './entities/venue.entity';
+import { Room } from './entities/room.entity';
+import { VenuesService } from './venues.service';
+import { VenuesController } from './venues.controller';
+
+@Module({
+  imports: [DatabaseModule, TypeOrmModule.forFeature([Venue, Room, Event])],
+  controllers: [VenuesController],
+  providers: [VenuesService],
+  exports: [VenuesService],
+})
+export class VenuesModule {}
@@ -0,0 +1,384 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { InjectRepository } from '@nestjs/typeorm';
+import { EntityManager, In, Repository } from 'typeorm';
+import { Event, eventStatus } from 'src/events/entities/event.entity';
+import { UserRole } from 'src/users/entities/user.entity';
+import type { RequestWithSession } from 'src/auth/interfaces/request-with-user.interface';
+import { coordinates } from 'src/common/coordinates';
+import { paginate } from 'src/common/pagination/paginate';
+import { Venue } from './entities/venue.entity';
+import { Room } from './entities/room.entity';
+import { CreateVenueDto } from './dto/create-venue.dto';
+import { UpdateVenueDto } from './dto/update-venue.dto';
+import { CreateRoomDto } from './dto/create-room.dto';
+import { UpdateRoomDto } from './dto/update-room.dto';
+import { VenueQueryDto } from './dto/venue-query.dto';
+import { AvailabilityQueryDto } from './dto/availability-query.dto';
+
+type Caller = RequestWithSession['user'];
+
+interface Slot {
+  starts_at: Date;
+  ends_at: Date;
+}
+
+// Longest range one availability request may cover
+const MAX_AVAILABILITY_DAYS = 92;
+
+const overlaps = (a: Slot, b: Slot) =>
+  a.starts_at < b.ends_at && b.starts_at < a.ends_at;
+
+@Injectable()
+export class VenuesService {
+  constructor(
+    @InjectRepository(Venue)
+    private venuesRepository: Repository<Venue>,
+    @InjectRepository(Room)
+    private roomsRepository: Repository<Room>,
+    @InjectRepository(Event)
+    private eventsRepository: Repository<Event>,
+  ) {}
+
+  async create(createVenueDto: CreateVenueDto) {
+    const venue = this.venuesRepository.create({
+      ...createVenueDto,
+      ...coordinates(createVenueDto),
+    });
+    return this.venuesRepository.save(venue);
+  }
+
+  async findAll(query: VenueQueryDto) {
+    const qb = this.venuesRepository.createQueryBuilder('venue');
+    if (query.q) {
+      qb.andWhere('(venue.name ILIKE :q OR venue.address ILIKE :q)', {
+        q: `%${query.q}%`,
+      });
+    }
+    return paginate(qb, query, { path: '/venues', idColumn: 'venue_id' });
+  }
+
+  // The venue with its rooms
+  async findOne(id: number) {
+    const venue = await this.venuesRepository.findOne({
+      where: { venue_id: id },
+      relations: ['rooms'],
+      order: { rooms: { name: 'ASC' } },
+    });
+    if (!venue) {
+      throw new NotFoundException(`Venue with ID ${id} not found`);
+    }
+    return venue;
+  }
+
+  // Events already booked keep the location and coordinates they were given
+  async update(id: number, updateVenueDto: UpdateVenueDto) {
+    const venue = await this.findVenue(id);
+    const { latitude, longitude, ...fields } = updateVenueDto;
+    Object.assign(venue, fields);
+    if (latitude !== undefined || longitude !== undefined) {
+      Object.assign(
+        venue,
+        coordinates({
+          latitude: latitude !== undefined ? latitude : venue.latitude,
+          longitude: longitude !== undefined ? longitude : venue.longitude,
+        }),
+      );
+    }
+    return this.venuesRepository.save(venue);
+  }
+
+  // Refused while any room is booked for an upcoming event; past events keep
+  // their location but lose the room
+  async remove(id: number) {
+    const venue = await this.findOne(id);
+    await this.ensureNoUpcoming(venue.rooms.map((room) => room.room_id));
+    return this.venuesRepository.delete(id);
+  }
+
+  async addRoom(venueId: number, createRoomDto: CreateRoomDto) {
+    await this.findVenue(venueId);
+    await this.ensureRoomNameFree(venueId, createRoomDto.name);
+    const room = this.roomsRepository.create({
+      name: createRoomDto.name,
+      capacity: createRoomDto.capacity ?? null,
+      accessibility: createRoomDto.accessibility ?? null,
+      venue_id: venueId,
+    });
+    return this.roomsRepository.save(room);
+  }
+
+  // A room cannot shrink below what its upcoming events already offer
+  async updateRoom(
+    venueId: number,
+    roomId: number,
+    updateRoomDto: UpdateRoomDto,
+  ) {
+    const room = await this.findRoom(venueId, roomId);
+    if (updateRoomDto.name !== undefined && updateRoomDto.name !== room.name) {
+      await this.ensureRoomNameFree(venueId, updateRoomDto.name);
+      room.name = updateRoomDto.name;
+    }
+    if (updateRoomDto.capacity !== undefined) {
+      if (updateRoomDto.capacity !== null) {
+        const larger = await this.upcoming([roomId])
+          .andWhere('(event.capacity IS NULL OR event.capacity > :capacity)', {
+            capacity: updateRoomDto.capacity,
+          })
+          .getMany();
+        if (larger.length) {
+          throw new ConflictException(
+            `Upcoming events ${larger.map((event) => event.event_id).join(', ')} take more than ${updateRoomDto.capacity} people; lower their capacity first`,
+          );
+        }
+      }
+      room.capacity = updateRoomDto.capacity;
+    }
+    if (updateRoomDto.accessibility !== undefined) {
+      room.accessibility = updateRoomDto.accessibility;
+    }
+    return this.roomsRepository.save(room);
+  }
+
+  async removeRoom(venueId: number, roomId: number) {
+    await this.findRoom(venueId, roomId);
+    await this.ensureNoUpcoming([roomId]);
+    return this.roomsRepository.delete(roomId);
+  }
+
+  // Bookings of each room within the range, and the free time between them.
+  // Drafts hold their room too, but only their organizer sees what they are.
+  async availability(id: number, query: AvailabilityQueryDto, caller: Caller) {
+    const from = new Date(query.from);
+    const to = new Date(query.to);
+    if (Number.isNaN(from.getTime()) || Number.isNaN(to.getTime())) {
+      throw new BadRequestException('from and to must be ISO 8601 date-times');
+    }
+    if (to <= from) {
+      throw new BadRequestException('to must be after from');
+    }
+    if (to.getTime() - from.getTime() > MAX_AVAILABILITY_DAYS * 86400000) {
+      throw new BadRequestException(
+        `Availability covers at most ${MAX_AVAILABILITY_DAYS} days at a time`,
+      );
+    }
+    const venue = await this.findOne(id);
+    const rooms =
+      query.room_id === undefined
+        ? venue.rooms
+        : venue.rooms.filter((room) => room.room_id === query.room_id);
+    if (!rooms.length) {
+      throw new NotFoundException(
+        query.room_id === undefined
+          ? `Venue ${id} has no rooms`
+          : `Room ${query.room_id} is not part of venue ${id}`,
+      );
+    }
+
+    const events = await this.bookings(
+      this.eventsRepository.manager,
+      rooms.map((room) => room.room_id),
+      { starts_at: from, ends_at: to },
+    );
+    return {
+      venue_id: venue.venue_id,
+      from,
+      to,
+      rooms: rooms.map((room) => {
+        const booked = events.filter((event) => event.room_id === room.room_id);
+        const free: { from: Date; to: Date }[] = [];
+        let cursor = from;
+        for (const event of booked) {
+          if (event.starts_at > cursor) {
+            free.push({ from: cursor, to: event.starts_at });
+          }
+          if (event.ends_at > cursor) {
+            cursor = event.ends_at;
+          }
+        }
+        if (cursor < to) {
+          free.push({ from: cursor, to });
+        }
+        return {
+          room_id: room.room_id,
+          name: room.name,
+          capacity: room.capacity,
+          booked: booked.map((event) => {
+            const hidden =
+              event.status === eventStatus.Draft &&
+              caller.role !== UserRole.Admin &&
+              event.created_by !== caller.user_id;
+            return {
+              event_id: hidden ? null : event.event_id,
+              event_name: hidden ? null : event.event_name,
+              status: event.status,
+              starts_at: event.starts_at,
+              ends_at: event.ends_at,
+            };
+          }),
+          free,
+        };
+      }),
+    };
+  }
+
+  // Makes sure the room is free for every slot, ignoring the given events
+  // (those being moved), and returns it with its venue. The room row stays
+  // locked until the surrounding transaction ends, so two bookings for the
+  // same room are checked one after the other.
+  async reserve(
+    manager: EntityManager,
+    roomId: number,
+    slots: Slot[],
+    excludeEventIds: number[] = [],
+  ) {
+    const room = await manager.findOne(Room, {
+      where: { room_id: roomId },
+      lock: { mode: 'pessimistic_write' },
+    });
+    if (!room) {
+      throw new NotFoundException(`Room with ID ${roomId} not found`);
+    }
+    room.venue = await manager.findOneByOrFail(Venue, {
+      venue_id: room.venue_id,
+    });
+    if (!slots.length) {
+      return room;
+    }
+
+    const sorted = [...slots].sort(
+      (a, b) => a.starts_at.getTime() - b.starts_at.getTime(),
+    );
+    for (let i = 1; i < sorted.length; i++) {
+      if (overlaps(sorted[i - 1], sorted[i])) {
+        throw new ConflictException(
+          `Occurrences starting ${sorted[i - 1].starts_at.toISOString()} and ${sorted[i].starts_at.toISOString()} overlap in room ${room.name}`,
+        );
+      }
+    }
+    const booked = await this.bookings(manager, [roomId], {
+      starts_at: sorted[0].starts_at,
+      ends_at: new Date(
+        Math.max(...sorted.map((slot) => slot.ends_at.getTime())),
+      ),
+    });
+    const clashes = booked.filter(
+      (event) =>
+        !excludeEventIds.includes(event.event_id) &&
+        sorted.some((slot) => overlaps(slot, event)),
+    );
+    if (clashes.length) {
+      const list = clashes
+        .slice(0, 5)
+        .map(
+          (event) =>
+            `event ${event.event_id} (${event.starts_at.toISOString()} to ${event.ends_at.toISOString()})`,
+        )
+        .join(', ');
+      throw new ConflictException(
+        `Room ${room.name} is already booked by ${list}${clashes.length > 5 ? ` and ${clashes.length - 5} more` : ''}`,
+      );
+    }
+    return room;
+  }
+
+  // Capacity an event in the room may have: the room's when none is given,
+  // never more than the room holds
+  fitCapacity(room: Room, capacity: number | null | undefined) {
+    if (room.capacity === null) {
+      return capacity ?? null;
+    }
+    if (capacity === null || capacity === undefined) {
+      return room.capacity;
+    }
+    if (capacity > room.capacity) {
+      throw new BadRequestException(
+        `Room ${room.name} holds at most ${room.capacity} people`,
+      );
+    }
+    return capacity;
+  }
+
+  // Free-text location for events booked into the room
+  locationOf(room: Room) {
+    return `${room.name}, ${room.venue.name}, ${room.venue.address}`.slice(
+      0,
+      250,
+    );
+  }
+
+  // Events holding any of the rooms at some point within the range
+  private bookings(manager: EntityManager, roomIds: number[], range: Slot) {
+    return manager
+      .createQueryBuilder(Event, 'event')
+      .where({ room_id: In(roomIds) })
+      .andWhere('event.status != :cancelled', {
+        cancelled: eventStatus.Cancelled,
+      })
+      .andWhere('event.starts_at < :rangeEnd AND event.ends_at > :rangeStart', {
+        rangeStart: range.starts_at,
+        rangeEnd: range.ends_at,
+      })
+      .orderBy('event.starts_at', 'ASC')
+      .getMany();
+  }
+
+  private upcoming(roomIds: number[]) {
+    return this.eventsRepository
+      .createQueryBuilder('event')
+      .where({ room_id: In(roomIds) })
+      .andWhere('event.status != :cancelled', {
+        cancelled: eventStatus.Cancelled,
+      })
+      .andWhere('event.ends_at > :now', { now: new Date() });
+  }
+
+  private async ensureNoUpcoming(roomIds: number[]) {
+    if (!roomIds.length) {
+      return;
+    }
+    const events = await this.upcoming(roomIds).getMany();
+    if (events.length) {
+      throw new ConflictException(
+        `Rooms are booked for upcoming events ${events.map((event) => event.event_id).join(', ')}; move or cancel them first`,
+      );
+    }
+  }
+
+  private async findVenue(id: number) {
+    const venue = await this.venuesRepository.findOneBy({ venue_id: id });
+    if (!venue) {
+      throw new NotFoundException(`Venue with ID ${id} not found`);
+    }
+    return venue;
+  }
+
+  private async findRoom(venueId: number, roomId: number) {
+    const room = await this.roomsRepository.findOneBy({
+      room_id: roomId,
+      venue_id: venueId,
+    });
+    if (!room) {
+      throw new NotFoundException(
+        `Room ${roomId} is not part of venue ${venueId}`,
+      );
+    }
+    return room;
+  }
+
+  private async ensureRoomNameFree(venueId: number, name: string) {
+    const taken = await this.roomsRepository.existsBy({
+      venue_id: venueId,
+      name,
+    });
+    if (taken) {
+      throw new ConflictException(
+        `Venue ${venueId} already has a room ${name}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,474 @@
+import { INestApplication, RequestMethod, Type } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { APP_GUARD } from '@nestjs/core';
+import { JwtService } from '@nestjs/jwt';
+import { Test } from '@nestjs/testing';
+import { METHOD_METADATA, PATH_METADATA } from '@nestjs/common/constants';
+import request from 'supertest';
+import type { App } from 'supertest/types';
+import { AtGuard } from 'src/auth/guards/access-token.guards';
+import { RolesGuard } from 'src/auth/guards/roles.guards';
+import { PermissionsGuard } from 'src/auth/guards/permissions.guards';
+import { PoliciesGuard } from 'src/auth/guards/policies.guards';
+import { AccessStrategy } from 'src/auth/strategies/access.stategy';
+import { RoleCacheService } from 'src/auth/role-cache.service';
+import { OwnershipService } from 'src/auth/ownership.service';
+import { ROLES_KEY } from 'src/auth/decorators/role.decorator';
+import { PERMISSIONS_KEY } from 'src/auth/decorators/require-permissions.decorator';
+import { ROLE_MATRIX } from 'src/auth/role-matrix';
+import { UserRole } from 'src/users/entities/user.entity';
+import { PermissionsService } from 'src/permissions/permissions.service';
+import { CalendarService } from 'src/calendar/calendar.service';
+import { TicketsService } from 'src/tickets/tickets.service';
+import { ExportsService } from 'src/exports/exports.service';
+import { UsersController } from 'src/users/users.controller';
+import { EventsController } from 'src/events/events.controller';
+import { EventSeriesController } from 'src/event-series/event-series.controller';
+import { VenuesController } from 'src/venues/venues.controller';
+import { TicketTypesController } from 'src/ticket-types/ticket-types.controller';
+import { PromoCodesController } from 'src/promo-codes/promo-codes.controller';
+import { RegistrationsController } from 'src/registrations/registrations.controller';
+import { PaymentsController } from 'src/payments/payments.controller';
+import { FeedbackController } from 'src/feedback/feedback.controller';
+import { StatsController } from 'src/stats/stats.controller';
+import { ExportsController } from 'src/exports/exports.controller';
+import { PermissionsController } from 'src/permissions/permissions.controller';
+
+// Runs every route of the role matrix through the real global guards, in the
+// order AppModule registers them, as each role. Services are mocked: only who
+// gets past the guards is under test, not what the handlers do.
+
+const SECRET = 'role-matrix-e2e';
+
+// Lowest to highest; each role includes the ones before it
+const ROLES = [
+  UserRole.Guest,
+  UserRole.User,
+  UserRole.Organizer,
+  UserRole.Admin,
+];
+
+// One caller per role; the user id doubles as the owner of every resource,
+// so ownership checks pass and the role decides
+const CALLERS = Object.fromEntries(
+  ROLES.map((role, index) => [role, { user_id: index + 1, role }]),
+) as Record<UserRole, { user_id: number; role: UserRole }>;
+
+const CONTROLLERS: Type[] = [
+  UsersController,
+  EventsController,
+  EventSeriesController,
+  VenuesController,
+  TicketTypesController,
+  PromoCodesController,
+  RegistrationsController,
+  PaymentsController,
+  FeedbackController,
+  StatsController,
+  ExportsController,
+  PermissionsController,
+];
+
+type Method = 'GET' | 'POST' | 'PATCH' | 'PUT' | 'DELETE';
+
+// [method, route, matrix entry, query string]
+const ROUTES: [Method, string, string, string?][] = [
+  ['GET', '/users', 'users.findAll'],
+  ['GET', '/users/:id', 'users.findOne'],
+  ['GET', '/users/email/:email', 'users.findByEmail'],
+  ['PATCH', '/users/:id', 'users.update'],
+  ['POST', '/users/:id/calendar-token', 'users.calendarFeed'],
+  ['DELETE', '/users/:id/calendar-token', 'users.calendarFeed'],
+  ['DELETE', '/users/:id', 'users.remove'],
+
+  ['POST', '/events', 'events.create'],
+  ['GET', '/events', 'events.findAll'],
+  ['GET', '/events/search', 'events.search'],
+  ['GET', '/events/:id.ics', 'events.findOne'],
+  ['GET', '/events/:id', 'events.findOne'],
+  ['POST', '/events/:id/publish', 'events.publish'],
+  ['GET', '/events/:id/waitlist', 'events.waitlist'],
+  ['POST', '/events/:id/cancel', 'events.cancel'],
+  ['POST', '/events/:id/check-in', 'events.checkIn'],
+  ['GET', '/events/:id/attendance', 'events.attendance'],
+  ['GET', '/events/:id/stats', 'stats.event'],
+  ['GET', '/events/:id/ratings', 'feedback.ratings'],
+  ['PATCH', '/events/:id', 'events.update'],
+  ['DELETE', '/events/:id', 'events.remove'],
+
+  ['POST', '/event-series', 'eventSeries.create'],
+  ['GET', '/event-series/:id', 'eventSeries.findOne'],
+  ['POST', '/event-series/:id/generate', 'eventSeries.update'],
+  ['PATCH', '/event-series/:id', 'eventSeries.update'],
+  [
+    'PATCH',
+    '/event-series/:id/occurrences/:eventId',
+    'eventSeries.update',
+    'scope=this',
+  ],
+  ['DELETE', '/event-series/:id', 'eventSeries.remove'],
+
+  ['POST', '/venues', 'venues.create'],
+  ['GET', '/venues', 'venues.findAll'],
+  ['GET', '/venues/:id', 'venues.findOne'],
+  [
+    'GET',
+    '/venues/:id/availability',
+    'venues.availability',
+    'from=2025-03-01T00:00:00Z&to=2025-03-08T00:00:00Z',
+  ],
+  ['PATCH', '/venues/:id', 'venues.update'],
+  ['DELETE', '/venues/:id', 'venues.remove'],
+  ['POST', '/venues/:id/rooms', 'venues.update'],
+  ['PATCH', '/venues/:id/rooms/:roomId', 'venues.update'],
+  ['DELETE', '/venues/:id/rooms/:roomId', 'venues.update'],
+
+  ['GET', '/events/:id/ticket-types', 'ticketTypes.findAll'],
+  ['POST', '/events/:id/ticket-types', 'ticketTypes.create'],
+  ['PATCH', '/events/:id/ticket-types/:ticketTypeId', 'ticketTypes.update'],
+  ['DELETE', '/events/:id/ticket-types/:ticketTypeId', 'ticketTypes.remove'],
+
+  ['POST', '/promo-codes', 'promoCodes.create'],
+  ['GET', '/promo-codes', 'promoCodes.findAll'],
+  ['GET', '/promo-codes/report', 'promoCodes.report'],
+  ['GET', '/promo-codes/:id', 'promoCodes.findOne'],
+  ['GET', '/promo-codes/:id/redemptions', 'promoCodes.report'],
+  ['PATCH', '/promo-codes/:id', 'promoCodes.update'],
+  ['DELETE', '/promo-codes/:id', 'promoCodes.remove'],
+
+  ['POST', '/registrations', 'registrations.create'],
+  ['GET', '/registrations', 'registrations.findAll'],
+  ['GET', '/registrations/:id', 'registrations.findOne'],
+  ['GET', '/registrations/:id/ticket', 'registrations.ticket'],
+  ['GET', '/registrations/:id/ticket/qr', 'registrations.ticket'],
+  ['POST', '/registrations/:id/cancel', 'registrations.cancel'],
+  ['PATCH', '/registrations/:id', 'registrations.update'],
+  ['DELETE', '/registrations/:id', 'registrations.remove'],
+
+  ['POST', '/payments', 'payments.create'],
+  ['GET', '/payments', 'payments.findAll'],
+  ['GET', '/payments/:id', 'payments.findOne'],
+  ['PATCH', '/payments/:id', 'payments.update'],
+  ['DELETE', '/payments/:id', 'payments.remove'],
+
+  ['POST', '/feedback', 'feedback.create'],
+  ['GET', '/feedback', 'feedback.findAll'],
+  ['GET', '/feedback/moderation', 'feedback.moderate'],
+  ['GET', '/feedback/:id', 'feedback.findOne'],
+  ['POST', '/feedback/:id/flag', 'feedback.moderate'],
+  ['POST', '/feedback/:id/hide', 'feedback.moderate'],
+  ['POST', '/feedback/:id/approve', 'feedback.moderate'],
+  ['PATCH', '/feedback/:id', 'feedback.update'],
+  ['DELETE', '/feedback/:id', 'feedback.remove'],
+
+  ['GET', '/organizers/me/stats', 'stats.organizer'],
+
+  ['GET', '/events/:id/attendees/export', 'exports.attendees'],
+  ['GET', '/events/:id/payments/export', 'exports.payments'],
+  ['GET', '/events/:id/feedback/export', 'exports.feedback'],
+
+  ['GET', '/permissions', 'permissions.findAll'],
+  ['POST', '/permissions', 'permissions.create'],
+  ['DELETE', '/permissions/:id', 'permissions.remove'],
+  ['GET', '/permissions/roles/:role', 'permissions.manageRoles'],
+  ['PUT', '/permissions/roles/:role', 'permissions.manageRoles'],
+  ['GET', '/permissions/users/:id', 'permissions.manageGrants'],
+  ['POST', '/permissions/users/:id', 'permissions.manageGrants'],
+  ['DELETE', '/permissions/users/:id/:permission', 'permissions.manageGrants'],
+];
+
+const matrix = ROLE_MATRIX as Record<string, Record<string, UserRole[]>>;
+
+function entry(name: string) {
+  const [resource, action] = name.split('.');
+  return matrix[resource][action];
+}
+
+// Roles at or above the lowest one the matrix allows
+function allowedRoles(name: string) {
+  const lowest = Math.min(...entry(name).map((role) => ROLES.indexOf(role)));
+  return ROLES.slice(lowest);
+}
+
+function url(route: string, query?: string) {
+  const path = route.replace(/:(\w+)/g, (_, param: string) =>
+    param === 'role' ? UserRole.User : '1',
+  );
+  return query ? `${path}?${query}` : path;
+}
+
+// Routes as declared on the controllers, with the permissions they require
+function declaredRoutes() {
+  const routes = new Map<
+    string,
+    { roles?: UserRole[]; permissions?: string[] }
+  >();
+  for (const controller of CONTROLLERS) {
+    const prefix = Reflect.getMetadata(PATH_METADATA, controller) as string;
+    const prototype = controller.prototype as Record<string, unknown>;
+    for (const name of Object.getOwnPropertyNames(prototype)) {
+      const handler = prototype[name];
+      if (name === 'constructor' || typeof handler !== 'function') {
+        continue;
+      }
+      const path = Reflect.getMetadata(PATH_METADATA, handler) as
+        | string
+        | undefined;
+      if (path === undefined) {
+        continue;
+      }
+      const method = RequestMethod[
+        Reflect.getMetadata(METHOD_METADATA, handler) as RequestMethod
+      ] as Method;
+      const route = `/${[prefix, path].filter((part) => part && part !== '/').join('/')}`;
+      routes.set(`${method} ${route}`, {
+        roles: Reflect.getMetadata(ROLES_KEY, handler) as
+          | UserRole[]
+          | undefined,
+        permissions: Reflect.getMetadata(PERMISSIONS_KEY, handler) as
+          | string[]
+          | undefined,
+      });
+    }
+  }
+  return routes;
+}
+
+// Mocks every method of a service; a few return what their handler reads
+const RESULTS = new Map<unknown, Record<string, () => unknown>>([
+  [CalendarService, { eventFile: () => 'BEGIN:VCALENDAR' }],
+  [TicketsService, { renderQrCode: () => Promise.resolve(Buffer.from('qr')) }],
+  [
+    ExportsService,
+    Object.fromEntries(
+      ['attendees', 'payments', 'feedback'].map((name) => [
+        name,
+        () => ({ sheet: name, columns: [], rows: (async function* () {})() }),
+      ]),
+    ),
+  ],
+]);
+
+function mockOf(token: unknown) {
+  if (typeof token !== 'function') {
+    return {};
+  }
+  const prototype = token.prototype as Record<string, unknown>;
+  const results = RESULTS.get(token) ?? {};
+  return Object.fromEntries(
+    Object.getOwnPropertyNames(prototype)
+      .filter((name) => name !== 'constructor')
+      .map((name) => [
+        name,
+        jest.fn(results[name] ?? (() => Promise.resolve({ id: 1 }))),
+      ]),
+  );
+}
+
+describe('Role matrix (e2e)', () => {
+  let app: INestApplication<App>;
+  let caller: { user_id: number; role: UserRole };
+  // Owner of every resource; the caller unless a test says otherwise
+  let ownerId: number | undefined;
+  // The roles the database holds, which may differ from the one in a token
+  const currentRoles = new Map<number, UserRole>();
+  let grantedPermissions: string[];
+  const tokens = {} as Record<UserRole, string>;
+
+  beforeAll(async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        ConfigModule.forRoot({
+          ignoreEnvFile: true,
+          load: [() => ({ JWT_ACCESS_TOKEN_SECRET: SECRET })],
+        }),
+      ],
+      controllers: CONTROLLERS,
+      providers: [
+        AccessStrategy,
+        { provide: APP_GUARD, useClass: AtGuard },
+        { provide: APP_GUARD, useClass: RolesGuard },
+        { provide: APP_GUARD, useClass: PermissionsGuard },
+        { provide: APP_GUARD, useClass: PoliciesGuard },
+        {
+          provide: RoleCacheService,
+          useValue: {
+            getRole: (userId: number) =>
+              Promise.resolve(currentRoles.get(userId) ?? null),
+            invalidate: () => Promise.resolve(),
+          },
+        },
+        {
+          provide: PermissionsService,
+          useValue: {
+            ...mockOf(PermissionsService),
+            resolveForUser: () => Promise.resolve(grantedPermissions),
+          },
+        },
+        {
+          provide: OwnershipService,
+          useValue: {
+            findOwnerId: () => Promise.resolve(ownerId ?? caller.user_id),
+          },
+        },
+      ],
+    })
+      .useMocker(mockOf)
+      .compile();
+
+    app = moduleRef.createNestApplication();
+    await app.init();
+
+    const jwt = new JwtService({ secret: SECRET });
+    for (const role of ROLES) {
+      const { user_id } = CALLERS[role];
+      tokens[role] = await jwt.signAsync({
+        sub: user_id,
+        email: `${role.toLowerCase()}@example.com`,
+        role,
+        sid: `session-${user_id}`,
+      });
+    }
+  });
+
+  beforeEach(() => {
+    ownerId = undefined;
+    for (const role of ROLES) {
+      currentRoles.set(CALLERS[role].user_id, role);
+    }
+    grantedPermissions = [
+      'payments:manage',
+      'payments:read',
+      'registrations:read',
+    ];
+  });
+
+  afterAll(async () => {
+    await app.close();
+  });
+
+  // Bodies name the caller wherever a policy looks for an owner or resource id
+  function send(
+    method: Method,
+    path: string,
+    role?: UserRole,
+    body: Record<string, unknown> = {},
+  ) {
+    const test = request(app.getHttpServer())[
+      method.toLowerCase() as Lowercase<Method>
+    ](path);
+    if (role) {
+      caller = CALLERS[role];
+      test.set('Authorization', `Bearer ${tokens[role]}`);
+    }
+    if (method === 'GET') {
+      return test;
+    }
+    const userId = role ? CALLERS[role].user_id : 1;
+    return test.send({
+      user_id: userId,
+      created_by: userId,
+      event_id: 1,
+      registration_id: 1,
+      ...body,
+    });
+  }
+
+  it('lists every route that carries @Roles, and every matrix entry', () => {
+    const declared = [...declaredRoutes()]
+      .filter(([, route]) => route.roles)
+      .map(([key]) => key);
+    expect(
+      ROUTES.map(([method, route]) => `${method} ${route}`).sort(),
+    ).toEqual(declared.sort());
+
+    const used = new Set(ROUTES.map(([, , name]) => name));
+    for (const [resource, actions] of Object.entries(matrix)) {
+      for (const action of Object.keys(actions)) {
+        expect(used).toContain(`${resource}.${action}`);
+      }
+    }
+  });
+
+  it('applies the matrix entry each route is listed with', () => {
+    const declared = declaredRoutes();
+    for (const [method, route, name] of ROUTES) {
+      expect({
+        route: `${method} ${route}`,
+        roles: declared.get(`${method} ${route}`)?.roles,
+      }).toEqual({
+        route: `${method} ${route}`,
+        roles: entry(name),
+      });
+    }
+  });
+
+  describe.each(ROUTES)('%s %s (%s)', (method, route, name, query) => {
+    const path = url(route, query);
+
+    it('rejects requests without a token', async () => {
+      await send(method, path).expect(401);
+    });
+
+    it.each(ROLES)('as %s', async (role) => {
+      const response = await send(method, path, role);
+      if (allowedRoles(name).includes(role)) {
+        expect(response.status).toBeGreaterThanOrEqual(200);
+        expect(response.status).toBeLessThan(300);
+      } else {
+        expect(response.status).toBe(403);
+      }
+    });
+  });
+
+  describe('routes that also require a permission', () => {
+    const declared = declaredRoutes();
+    // Objects, since it.each would pass a missing query as the done callback
+    const guarded = ROUTES.filter(
+      ([method, route]) => declared.get(`${method} ${route}`)?.permissions,
+    ).map(([method, route, name, query]) => ({ method, route, name, query }));
+
+    it.each(guarded)(
+      '$method $route is refused to roles without the permission',
+      async ({ method, route, name, query }) => {
+        grantedPermissions = [];
+        for (const role of allowedRoles(name)) {
+          const response = await send(method, url(route, query), role);
+          // Admins hold every permission
+          if (role === UserRole.Admin) {
+            expect(response.status).toBeLessThan(300);
+          } else {
+            expect(response.status).toBe(403);
+          }
+        }
+      },
+    );
+  });
+
+  describe('an Admin demoted since the token was issued', () => {
+    beforeEach(() => {
+      currentRoles.set(CALLERS[UserRole.Admin].user_id, UserRole.Organizer);
+    });
+
+    it('is refused Admin routes', async () => {
+      await send('GET', '/users', UserRole.Admin).expect(403);
+    });
+
+    it('no longer bypasses ownership', async () => {
+      ownerId = 99;
+      await send('PATCH', '/events/1', UserRole.Admin).expect(403);
+      currentRoles.set(CALLERS[UserRole.Admin].user_id, UserRole.Admin);
+      await send('PATCH', '/events/1', UserRole.Admin).expect(200);
+    });
+
+    it('cannot change roles', async () => {
+      await send('PATCH', '/users/4', UserRole.Admin, {
+        role: UserRole.Admin,
+      }).expect(403);
+      currentRoles.set(CALLERS[UserRole.Admin].user_id, UserRole.Admin);
+      await send('PATCH', '/users/4', UserRole.Admin, {
+        role: UserRole.Admin,
+      }).expect(200);
+    });
+  });
+});